@@ -16,7 +16,7 @@ import {
   buildGameStateFromLevel,
   createInitialGameState,
   createPlacedBomb,
-  createPlayerBullet,
+  createPlayerBullets,
   jump
 } from "./state/gameState";
 import { updateGameFrame, type KeyMap } from "./state/gameLoop";
@@ -457,13 +457,14 @@ function App({ initialMode = "editor" }: AppProps = {}): JSX.Element {
           }
         }
 
-        if (key === "f" && gameStateRef.current.player.hasWeapon && gameStateRef.current.ammo > 0) {
+        if (key === "f" && gameStateRef.current.player.hasWeapon && gameStateRef.current.currentWeapon) {
           setGameState((prev) => {
-            if (!prev.player.hasWeapon || prev.ammo <= 0) return prev;
+            const weapon = prev.currentWeapon;
+            if (!prev.player.hasWeapon || !weapon || prev.ammo[weapon] <= 0) return prev;
             const next: GameState = {
               ...prev,
-              bullets: [...prev.bullets, createPlayerBullet(prev.player)],
-              ammo: prev.ammo - 1
+              bullets: [...prev.bullets, ...createPlayerBullets(prev.player, weapon)],
+              ammo: { ...prev.ammo, [weapon]: prev.ammo[weapon] - 1 }
             };
             gameStateRef.current = next;
             return next;
@@ -689,8 +690,8 @@ function App({ initialMode = "editor" }: AppProps = {}): JSX.Element {
             <div className="flex flex-wrap items-center justify-between gap-4">
               <div className="flex flex-wrap gap-3">
                 <GameStat label="Level" value={gameState.level} />
-                <GameStat label="🗝️ Keys" value={gameState.keys} />
-                <GameStat label="🔫 Ammo" value={gameState.ammo} />
+                <GameStat label="🗝️ Keys" value={Object.values(gameState.keys).reduce((sum, count) => sum + count, 0)} />
+                <GameStat label="🔫 Ammo" value={gameState.currentWeapon ? gameState.ammo[gameState.currentWeapon] : 0} />
                 <GameStat label="❤️ Health" value={gameState.health} />
                 <GameStat label="⏱️ Time" value={`${gameState.time}s`} />
                 <GameStat label="💀 Deaths" value={gameState.deaths} />
@@ -1,12 +1,41 @@
 import type { TextureMap } from "../hooks/useTextures";
-import type { EditorState } from "../types";
-import { TileType, TILE_SIZE } from "../types";
-import { drawStar } from "./shared";
+import type { EditorState, EditorTrigger, GridPosition, GridRect } from "../types";
+import { TILE_SIZE } from "../types";
+import {
+  drawBombableMark,
+  drawBoss,
+  drawChannelBadge,
+  drawCheckpoint,
+  drawCrumblingPlatform,
+  drawMonster,
+  drawMovingPlatform,
+  drawStar,
+  drawTile,
+  drawTrigger,
+  drawWeaponPickup
+} from "./shared";
+import { BOSS_SIZE, MOVING_PLATFORM_HEIGHT } from "../state/gameState";
+
+// Overlay from the solvability check: where the player can get to and what stops them
+export interface ReachabilityOverlay {
+  reachable: GridPosition[];
+  blockers: GridPosition[];
+}
+
+// Transient editor feedback drawn on top of the level
+export interface EditorCanvasOverlay {
+  reachability?: ReachabilityOverlay | null;
+  preview?: GridPosition[];      // Cells a shape tool will paint on release
+  selection?: GridRect | null;   // Marquee selection
+  inspected?: GridPosition | null;                              // Object open in the inspector
+  patrol?: { y: number; start: number; end: number } | null;   // Inspected monster's patrol range
+}
 
 export function drawEditorCanvas(
   ctx: CanvasRenderingContext2D,
   state: EditorState,
-  textures: TextureMap
+  textures: TextureMap,
+  overlay: EditorCanvasOverlay = {}
 ): void {
   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
 
@@ -47,70 +76,7 @@ export function drawEditorCanvas(
 
   for (let y = 0; y < state.gridHeight; y++) {
     for (let x = 0; x < state.gridWidth; x++) {
-      const tile = state.grid[y][x];
-      const tileX = x * TILE_SIZE;
-      const tileY = y * TILE_SIZE;
-
-      switch (tile) {
-        case TileType.Wall:
-          if (textures.wall?.complete) {
-            ctx.drawImage(textures.wall, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#2d3748";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Stone:
-          if (textures.stone?.complete) {
-            ctx.drawImage(textures.stone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#4299e1";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Lava:
-          if (textures.lava?.complete) {
-            ctx.drawImage(textures.lava, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#f56565";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Platform:
-          if (textures.platform?.complete) {
-            ctx.drawImage(textures.platform, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.GrassStone:
-          if (textures.grassstone?.complete) {
-            ctx.drawImage(textures.grassstone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#228B22";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Grass:
-          if (textures.grass?.complete) {
-            ctx.drawImage(textures.grass, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#7CFC00";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Soil:
-          if (textures.soil?.complete) {
-            ctx.drawImage(textures.soil, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        default:
-          break;
-      }
+      drawTile(ctx, textures, state.grid[y][x], x * TILE_SIZE, y * TILE_SIZE);
     }
   }
 
@@ -118,31 +84,24 @@ export function drawEditorCanvas(
     const monsterX = monster.x * TILE_SIZE + 5;
     const monsterY = monster.y * TILE_SIZE + 5;
 
-    if (textures.monsterOpen?.complete) {
-      ctx.drawImage(textures.monsterOpen, monsterX, monsterY, 30, 30);
-    } else {
-      // Fallback to emoji
-      ctx.fillStyle = "#e53e3e";
-      ctx.fillRect(monsterX, monsterY, 30, 30);
-      ctx.font = "24px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("👾", monster.x * TILE_SIZE + 20, monster.y * TILE_SIZE + 28);
-    }
+    drawMonster(ctx, textures, monsterX, monsterY, monster.kind ?? "patrol");
   });
 
-  state.weapons.forEach((weapon) => {
-    const weaponX = weapon.x * TILE_SIZE;
-    const weaponY = weapon.y * TILE_SIZE;
+  // Bosses stand on their cell and reach up into the one above; the bar underneath shows their arena
+  (state.bosses ?? []).forEach((boss) => {
+    const arenaLeft = boss.arena[0] * TILE_SIZE;
+    const arenaRight = (boss.arena[1] + 1) * TILE_SIZE;
+    const floorY = (boss.y + 1) * TILE_SIZE;
+    ctx.save();
+    ctx.fillStyle = "rgba(239, 68, 68, 0.25)";
+    ctx.fillRect(arenaLeft, floorY - 4, arenaRight - arenaLeft, 4);
+    ctx.restore();
 
-    if (textures.weapon?.complete) {
-      ctx.drawImage(textures.weapon, weaponX + 5, weaponY + 5, 30, 30);
-    } else {
-      ctx.fillStyle = "#4299e1";
-      ctx.fillRect(weaponX + 8, weaponY + 8, 24, 24);
-      ctx.font = "20px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("🔫", weaponX + 20, weaponY + 26);
-    }
+    drawBoss(ctx, textures, boss.x * TILE_SIZE + 5, floorY - BOSS_SIZE, BOSS_SIZE, "walk");
+  });
+
+  state.weapons.forEach((weapon) => {
+    drawWeaponPickup(ctx, textures, weapon.x * TILE_SIZE + 5, weapon.y * TILE_SIZE + 5, weapon.kind ?? "pistol");
   });
 
   state.bombs.forEach((bomb) => {
@@ -175,6 +134,7 @@ export function drawEditorCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🗝️", keyX + 20, keyY + 26);
     }
+    drawChannelBadge(ctx, keyX, keyY, TILE_SIZE, key.channel);
   });
 
   state.doors.forEach((door) => {
@@ -189,6 +149,8 @@ export function drawEditorCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🔒", doorX + 20, doorY + 26);
     }
+    drawChannelBadge(ctx, doorX, doorY, TILE_SIZE, door.channel);
+    if (door.bombable) drawBombableMark(ctx, doorX, doorY);
   });
 
   // Render fire traps
@@ -206,6 +168,7 @@ export function drawEditorCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🔥", trapX + 20, trapY + 26);
     }
+    if (trap.bombable) drawBombableMark(ctx, trapX, trapY);
 
     // Draw direction indicator
     ctx.save();
@@ -215,6 +178,10 @@ export function drawEditorCanvas(
     const arrowMap = { up: "↑", down: "↓", left: "←", right: "→" };
     ctx.fillText(arrowMap[trap.direction], trapX + 20, trapY + 12);
     ctx.restore();
+
+    if (trap.enabled === false) {
+      drawDisabledMarker(ctx, trapX, trapY);
+    }
   });
 
   // Render spike traps
@@ -232,6 +199,38 @@ export function drawEditorCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🏮", trapX + 20, trapY + 26);
     }
+    if (trap.bombable) drawBombableMark(ctx, trapX, trapY);
+
+    if (trap.enabled === false) {
+      drawDisabledMarker(ctx, trapX, trapY);
+    }
+  });
+
+  // Render levers, plates and buttons with a dashed line to each linked cell
+  (state.triggers ?? []).forEach((trigger) => {
+    drawTrigger(ctx, trigger.x * TILE_SIZE, trigger.y * TILE_SIZE, trigger.kind, false);
+  });
+  drawTriggerLinks(ctx, state.triggers ?? []);
+
+  (state.crumblingPlatforms ?? []).forEach((platform) => {
+    drawCrumblingPlatform(ctx, textures, platform.x * TILE_SIZE, platform.y * TILE_SIZE, "solid");
+  });
+
+  (state.checkpoints ?? []).forEach((checkpoint) => {
+    drawCheckpoint(ctx, checkpoint.x * TILE_SIZE, checkpoint.y * TILE_SIZE, false);
+  });
+
+  // Moving platforms with their route drawn through each waypoint
+  (state.movingPlatforms ?? []).forEach((platform) => {
+    drawPlatformPath(ctx, [platform, ...platform.path]);
+    drawMovingPlatform(
+      ctx,
+      textures,
+      platform.x * TILE_SIZE,
+      platform.y * TILE_SIZE,
+      TILE_SIZE,
+      MOVING_PLATFORM_HEIGHT
+    );
   });
 
   if (state.goal) {
@@ -262,5 +261,155 @@ export function drawEditorCanvas(
       ctx.fill();
     }
   }
+
+  if (overlay.reachability) {
+    drawReachabilityOverlay(ctx, overlay.reachability);
+  }
+
+  if (overlay.preview?.length) {
+    ctx.save();
+    ctx.fillStyle = "rgba(139, 92, 246, 0.35)";
+    overlay.preview.forEach(({ x, y }) => {
+      ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    });
+    ctx.restore();
+  }
+
+  if (overlay.patrol) {
+    drawPatrolRange(ctx, overlay.patrol);
+  }
+
+  if (overlay.inspected) {
+    ctx.save();
+    ctx.strokeStyle = "#a855f7";
+    ctx.lineWidth = 3;
+    ctx.strokeRect(overlay.inspected.x * TILE_SIZE + 1.5, overlay.inspected.y * TILE_SIZE + 1.5, TILE_SIZE - 3, TILE_SIZE - 3);
+    ctx.restore();
+  }
+
+  if (overlay.selection) {
+    const { x, y, width, height } = overlay.selection;
+    ctx.save();
+    ctx.fillStyle = "rgba(255, 255, 255, 0.15)";
+    ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, width * TILE_SIZE, height * TILE_SIZE);
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(x * TILE_SIZE + 1, y * TILE_SIZE + 1, width * TILE_SIZE - 2, height * TILE_SIZE - 2);
+    ctx.restore();
+  }
+}
+
+// Traps that start switched off (a trigger turns them on)
+function drawDisabledMarker(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+  ctx.save();
+  ctx.fillStyle = "rgba(15, 23, 42, 0.5)";
+  ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "bold 11px Arial";
+  ctx.textAlign = "center";
+  ctx.fillText("OFF", x + TILE_SIZE / 2, y + TILE_SIZE - 6);
+  ctx.restore();
+}
+
+function drawPlatformPath(ctx: CanvasRenderingContext2D, route: GridPosition[]): void {
+  if (route.length < 2) return;
+  const center = (cell: GridPosition) => ({
+    x: cell.x * TILE_SIZE + TILE_SIZE / 2,
+    y: cell.y * TILE_SIZE + MOVING_PLATFORM_HEIGHT / 2
+  });
+
+  ctx.save();
+  ctx.strokeStyle = "rgba(56, 189, 248, 0.9)";
+  ctx.fillStyle = "rgba(56, 189, 248, 0.9)";
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  route.forEach((cell, index) => {
+    const { x, y } = center(cell);
+    if (index === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.stroke();
+
+  ctx.setLineDash([]);
+  ctx.font = "bold 10px Arial";
+  ctx.textAlign = "center";
+  route.slice(1).forEach((cell, index) => {
+    const { x, y } = center(cell);
+    ctx.strokeRect(cell.x * TILE_SIZE + 2, cell.y * TILE_SIZE + 2, TILE_SIZE - 4, MOVING_PLATFORM_HEIGHT);
+    ctx.fillText(String(index + 1), x, y + 4);
+  });
+  ctx.restore();
+}
+
+function drawTriggerLinks(ctx: CanvasRenderingContext2D, triggers: EditorTrigger[]): void {
+  ctx.save();
+  ctx.strokeStyle = "rgba(250, 204, 21, 0.9)";
+  ctx.fillStyle = "rgba(250, 204, 21, 0.9)";
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 4]);
+
+  triggers.forEach((trigger) => {
+    const fromX = trigger.x * TILE_SIZE + TILE_SIZE / 2;
+    const fromY = trigger.y * TILE_SIZE + TILE_SIZE / 2;
+    trigger.links.forEach((link) => {
+      const toX = link.x * TILE_SIZE + TILE_SIZE / 2;
+      const toY = link.y * TILE_SIZE + TILE_SIZE / 2;
+      ctx.beginPath();
+      ctx.moveTo(fromX, fromY);
+      ctx.lineTo(toX, toY);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(toX, toY, 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+
+  ctx.restore();
+}
+
+function drawReachabilityOverlay(ctx: CanvasRenderingContext2D, overlay: ReachabilityOverlay): void {
+  ctx.save();
+
+  ctx.fillStyle = "rgba(59, 130, 246, 0.2)";
+  overlay.reachable.forEach(({ x, y }) => {
+    ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+  });
+
+  ctx.fillStyle = "rgba(239, 68, 68, 0.35)";
+  ctx.strokeStyle = "#ef4444";
+  ctx.lineWidth = 2;
+  overlay.blockers.forEach(({ x, y }) => {
+    ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    ctx.strokeRect(x * TILE_SIZE + 1, y * TILE_SIZE + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+  });
+
+  ctx.restore();
+}
+
+// Patrol band with draggable handles at both ends
+function drawPatrolRange(
+  ctx: CanvasRenderingContext2D,
+  patrol: { y: number; start: number; end: number }
+): void {
+  const top = patrol.y * TILE_SIZE;
+  const left = patrol.start * TILE_SIZE;
+  const right = (patrol.end + 1) * TILE_SIZE;
+
+  ctx.save();
+  ctx.fillStyle = "rgba(168, 85, 247, 0.2)";
+  ctx.fillRect(left, top, right - left, TILE_SIZE);
+
+  ctx.fillStyle = "rgba(168, 85, 247, 0.85)";
+  ctx.fillRect(left, top, 8, TILE_SIZE);
+  ctx.fillRect(right - 8, top, 8, TILE_SIZE);
+
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "bold 14px Arial";
+  ctx.textAlign = "center";
+  ctx.fillText("◀", left + 14, top + 25);
+  ctx.fillText("▶", right - 14, top + 25);
+  ctx.restore();
 }
 
@@ -1,7 +1,23 @@
 import type { TextureMap } from "../hooks/useTextures";
 import type { GameState } from "../types";
-import { TILE_SIZE, TileType } from "../types";
-import { drawStar } from "./shared";
+import { TILE_SIZE } from "../types";
+import {
+  drawBlast,
+  drawBombableMark,
+  drawBoss,
+  drawBullet,
+  drawChannelBadge,
+  drawCheckpoint,
+  drawCrumblingPlatform,
+  drawGoalLock,
+  drawMeleeSwipe,
+  drawMonster,
+  drawMovingPlatform,
+  drawStar,
+  drawTile,
+  drawTrigger,
+  drawWeaponPickup
+} from "./shared";
 
 export function drawGameCanvas(
   ctx: CanvasRenderingContext2D,
@@ -73,70 +89,7 @@ export function drawGameCanvas(
 
   for (let y = 0; y < state.grid.length; y++) {
     for (let x = 0; x < state.grid[y].length; x++) {
-      const tile = state.grid[y][x];
-      const tileX = x * TILE_SIZE;
-      const tileY = y * TILE_SIZE;
-
-      switch (tile) {
-        case TileType.Wall:
-          if (textures.wall?.complete) {
-            ctx.drawImage(textures.wall, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#2d3748";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Stone:
-          if (textures.stone?.complete) {
-            ctx.drawImage(textures.stone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#4299e1";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Lava:
-          if (textures.lava?.complete) {
-            ctx.drawImage(textures.lava, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#f56565";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Platform:
-          if (textures.platform?.complete) {
-            ctx.drawImage(textures.platform, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.GrassStone:
-          if (textures.grassstone?.complete) {
-            ctx.drawImage(textures.grassstone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#228B22";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Grass:
-          if (textures.grass?.complete) {
-            ctx.drawImage(textures.grass, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#7CFC00";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Soil:
-          if (textures.soil?.complete) {
-            ctx.drawImage(textures.soil, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        default:
-          break;
-      }
+      drawTile(ctx, textures, state.grid[y][x], x * TILE_SIZE, y * TILE_SIZE);
     }
   }
 
@@ -154,15 +107,9 @@ export function drawGameCanvas(
         ctx.textAlign = "center";
         ctx.fillText("🗝️", item.x + 15, item.y + 21);
       }
+      drawChannelBadge(ctx, item.x, item.y, 30, item.channel);
     } else if (item.type === "weapon") {
-      if (textures.weapon?.complete) {
-        ctx.drawImage(textures.weapon, item.x, item.y, 30, 30);
-      } else {
-        ctx.fillStyle = "#4299e1";
-        ctx.fillRect(item.x + 3, item.y + 3, 24, 24);
-        ctx.font = "20px Arial";
-        ctx.fillText("🔫", item.x + 15, item.y + 21);
-      }
+      drawWeaponPickup(ctx, textures, item.x, item.y, item.weapon ?? "pistol");
     } else if (item.type === "bomb") {
       if (textures.bomb?.complete) {
         ctx.drawImage(textures.bomb, item.x, item.y, 30, 30);
@@ -218,33 +165,67 @@ export function drawGameCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🔒", doorX + 20, doorY + 26);
     }
+    drawChannelBadge(ctx, doorX, doorY, TILE_SIZE, door.channel);
+    if (door.bombable) drawBombableMark(ctx, doorX, doorY);
+  });
+
+  state.triggers.forEach((trigger) => {
+    drawTrigger(ctx, trigger.x * TILE_SIZE, trigger.y * TILE_SIZE, trigger.kind, trigger.active);
+  });
+
+  state.checkpoints.forEach((checkpoint) => {
+    drawCheckpoint(ctx, checkpoint.x * TILE_SIZE, checkpoint.y * TILE_SIZE, checkpoint.reached);
+  });
+
+  state.crumblingPlatforms.forEach((platform) => {
+    drawCrumblingPlatform(
+      ctx,
+      textures,
+      platform.x * TILE_SIZE,
+      platform.y * TILE_SIZE,
+      platform.phase,
+      state.animationFrame
+    );
+  });
+  state.movingPlatforms.forEach((platform) => {
+    drawMovingPlatform(ctx, textures, platform.x, platform.y, platform.width, platform.height);
   });
 
   state.monsters.forEach((monster) => {
     // Blinking animation: eyes closed for 3-5 frames every 40 frames
     const blinkCycle = state.animationFrame % 40;
     const isBlinking = blinkCycle >= 36 && blinkCycle <= 39;
-    const monsterImage = isBlinking ? textures.monsterClose : textures.monsterOpen;
-
-    if (monsterImage?.complete) {
-      ctx.drawImage(monsterImage, monster.x, monster.y, 30, 30);
-    } else {
-      // Fallback to emoji
-      ctx.fillStyle = "#e53e3e";
-      ctx.fillRect(monster.x, monster.y, 30, 30);
-      ctx.font = "24px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("👾", monster.x + 15, monster.y + 23);
-    }
+    drawMonster(ctx, textures, monster.x, monster.y, monster.kind, {
+      blinking: isBlinking,
+      direction: monster.direction,
+      alert: monster.alert
+    });
 
     // Health bar
     ctx.fillStyle = "#00ff00";
     ctx.fillRect(monster.x, monster.y - 5, (monster.health / 3) * 30, 3);
   });
 
+  state.bosses.forEach((boss) => {
+    drawBoss(ctx, textures, boss.x, boss.y, boss.width, boss.action, {
+      hurt: boss.hurtTimer > 0,
+      animationFrame: state.animationFrame
+    });
+  });
+
+  if (state.goalPos && state.bosses.length > 0) {
+    drawGoalLock(ctx, textures, state.goalPos.x * TILE_SIZE, state.goalPos.y * TILE_SIZE);
+  }
+
   state.bullets.forEach((bullet) => {
-    ctx.fillStyle = "#fbbf24";
-    ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+    drawBullet(ctx, bullet);
+  });
+
+  state.projectiles.forEach((shot) => {
+    ctx.fillStyle = "#f97316";
+    ctx.beginPath();
+    ctx.arc(shot.x + shot.width / 2, shot.y + shot.height / 2, shot.width / 2, 0, Math.PI * 2);
+    ctx.fill();
   });
 
   state.placedBombs.forEach((bomb) => {
@@ -266,6 +247,10 @@ export function drawGameCanvas(
     }
   });
 
+  state.blasts.forEach((blast) => {
+    drawBlast(ctx, blast);
+  });
+
   // Render fire traps
   state.firetraps.forEach((trap) => {
     const trapX = trap.x * TILE_SIZE;
@@ -281,6 +266,7 @@ export function drawGameCanvas(
       ctx.textAlign = "center";
       ctx.fillText("🔥", trapX + 20, trapY + 26);
     }
+    if (trap.bombable) drawBombableMark(ctx, trapX, trapY);
 
     // Draw warning glow
     if (trap.warning) {
@@ -335,7 +321,7 @@ export function drawGameCanvas(
 
   // Check if player is at goal for visual feedback
   let atGoal = false;
-  if (state.goalPos) {
+  if (state.goalPos && state.bosses.length === 0) {
     const goalBox = {
       x: state.goalPos.x * TILE_SIZE,
       y: state.goalPos.y * TILE_SIZE,
@@ -365,6 +351,8 @@ export function drawGameCanvas(
     ctx.fillText("Loading next level...", ctx.canvas.width / 2, ctx.canvas.height / 2 + 30);
   }
 
+  drawMeleeSwipe(ctx, player);
+
   const isVisible = !player.invincible || Math.floor((player.invincibleTimer ?? 0) / 10) % 2 === 0;
   if (isVisible) {
     // Calculate shake offset if player is shaking (on lava)
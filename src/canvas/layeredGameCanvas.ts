@@ -1,7 +1,23 @@
 import type { TextureMap } from "../hooks/useTextures";
 import type { GameState } from "../types";
-import { TILE_SIZE, TileType } from "../types";
-import { drawStar } from "./shared";
+import { TILE_SIZE } from "../types";
+import {
+  drawBlast,
+  drawBombableMark,
+  drawBoss,
+  drawBullet,
+  drawChannelBadge,
+  drawCheckpoint,
+  drawCrumblingPlatform,
+  drawGoalLock,
+  drawMeleeSwipe,
+  drawMonster,
+  drawMovingPlatform,
+  drawStar,
+  drawTile,
+  drawTrigger,
+  drawWeaponPickup
+} from "./shared";
 
 /**
  * Renders the static layer (background + terrain)
@@ -61,70 +77,7 @@ export function drawStaticLayer(
   // Draw terrain tiles
   for (let y = 0; y < state.grid.length; y++) {
     for (let x = 0; x < state.grid[y].length; x++) {
-      const tile = state.grid[y][x];
-      const tileX = x * TILE_SIZE;
-      const tileY = y * TILE_SIZE;
-
-      switch (tile) {
-        case TileType.Wall:
-          if (textures.wall?.complete) {
-            ctx.drawImage(textures.wall, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#2d3748";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Stone:
-          if (textures.stone?.complete) {
-            ctx.drawImage(textures.stone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#4299e1";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Lava:
-          if (textures.lava?.complete) {
-            ctx.drawImage(textures.lava, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#f56565";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Platform:
-          if (textures.platform?.complete) {
-            ctx.drawImage(textures.platform, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.GrassStone:
-          if (textures.grassstone?.complete) {
-            ctx.drawImage(textures.grassstone, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#228B22";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Grass:
-          if (textures.grass?.complete) {
-            ctx.drawImage(textures.grass, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#7CFC00";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        case TileType.Soil:
-          if (textures.soil?.complete) {
-            ctx.drawImage(textures.soil, tileX, tileY, TILE_SIZE, TILE_SIZE);
-          } else {
-            ctx.fillStyle = "#8B4513";
-            ctx.fillRect(tileX, tileY, TILE_SIZE, TILE_SIZE);
-          }
-          break;
-        default:
-          break;
-      }
+      drawTile(ctx, textures, state.grid[y][x], x * TILE_SIZE, y * TILE_SIZE);
     }
   }
 
@@ -163,6 +116,8 @@ export function drawStaticLayer(
       ctx.textAlign = "center";
       ctx.fillText("🔒", doorX + 20, doorY + 26);
     }
+    drawChannelBadge(ctx, doorX, doorY, TILE_SIZE, door.channel);
+    if (door.bombable) drawBombableMark(ctx, doorX, doorY);
   });
 
   // Draw fire trap blocks (static blocks)
@@ -179,6 +134,7 @@ export function drawStaticLayer(
       ctx.textAlign = "center";
       ctx.fillText("🔥", trapX + 20, trapY + 26);
     }
+    if (trap.bombable) drawBombableMark(ctx, trapX, trapY);
   });
 
   // Draw spike trap blocks (static blocks)
@@ -195,6 +151,7 @@ export function drawStaticLayer(
       ctx.textAlign = "center";
       ctx.fillText("🏮", trapX + 20, trapY + 26);
     }
+    if (trap.bombable) drawBombableMark(ctx, trapX, trapY);
   });
 
   ctx.restore();
@@ -217,6 +174,31 @@ export function drawDynamicLayer(
   ctx.save();
   ctx.translate(-cameraX, -cameraY);
 
+  // Draw levers, plates and buttons (they change state, so not on the static layer)
+  state.triggers.forEach((trigger) => {
+    drawTrigger(ctx, trigger.x * TILE_SIZE, trigger.y * TILE_SIZE, trigger.kind, trigger.active);
+  });
+
+  // Checkpoint flags go up when reached
+  state.checkpoints.forEach((checkpoint) => {
+    drawCheckpoint(ctx, checkpoint.x * TILE_SIZE, checkpoint.y * TILE_SIZE, checkpoint.reached);
+  });
+
+  // Draw crumbling and moving platforms (they change every frame)
+  state.crumblingPlatforms.forEach((platform) => {
+    drawCrumblingPlatform(
+      ctx,
+      textures,
+      platform.x * TILE_SIZE,
+      platform.y * TILE_SIZE,
+      platform.phase,
+      state.animationFrame
+    );
+  });
+  state.movingPlatforms.forEach((platform) => {
+    drawMovingPlatform(ctx, textures, platform.x, platform.y, platform.width, platform.height);
+  });
+
   // Draw collectibles
   state.collectibles.forEach((item) => {
     if (item.collected) return;
@@ -232,15 +214,9 @@ export function drawDynamicLayer(
         ctx.textAlign = "center";
         ctx.fillText("🗝️", item.x + 15, item.y + 21);
       }
+      drawChannelBadge(ctx, item.x, item.y, 30, item.channel);
     } else if (item.type === "weapon") {
-      if (textures.weapon?.complete) {
-        ctx.drawImage(textures.weapon, item.x, item.y, 30, 30);
-      } else {
-        ctx.fillStyle = "#4299e1";
-        ctx.fillRect(item.x + 3, item.y + 3, 24, 24);
-        ctx.font = "20px Arial";
-        ctx.fillText("🔫", item.x + 15, item.y + 21);
-      }
+      drawWeaponPickup(ctx, textures, item.x, item.y, item.weapon ?? "pistol");
     } else if (item.type === "bomb") {
       if (textures.bomb?.complete) {
         ctx.drawImage(textures.bomb, item.x, item.y, 30, 30);
@@ -265,27 +241,39 @@ export function drawDynamicLayer(
   state.monsters.forEach((monster) => {
     const blinkCycle = state.animationFrame % 40;
     const isBlinking = blinkCycle >= 36 && blinkCycle <= 39;
-    const monsterImage = isBlinking ? textures.monsterClose : textures.monsterOpen;
-
-    if (monsterImage?.complete) {
-      ctx.drawImage(monsterImage, monster.x, monster.y, 30, 30);
-    } else {
-      ctx.fillStyle = "#e53e3e";
-      ctx.fillRect(monster.x, monster.y, 30, 30);
-      ctx.font = "24px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("👾", monster.x + 15, monster.y + 23);
-    }
+    drawMonster(ctx, textures, monster.x, monster.y, monster.kind, {
+      blinking: isBlinking,
+      direction: monster.direction,
+      alert: monster.alert
+    });
 
     // Health bar
     ctx.fillStyle = "#00ff00";
     ctx.fillRect(monster.x, monster.y - 5, (monster.health / 3) * 30, 3);
   });
 
+  state.bosses.forEach((boss) => {
+    drawBoss(ctx, textures, boss.x, boss.y, boss.width, boss.action, {
+      hurt: boss.hurtTimer > 0,
+      animationFrame: state.animationFrame
+    });
+  });
+
+  if (state.goalPos && state.bosses.length > 0) {
+    drawGoalLock(ctx, textures, state.goalPos.x * TILE_SIZE, state.goalPos.y * TILE_SIZE);
+  }
+
   // Draw bullets
   state.bullets.forEach((bullet) => {
-    ctx.fillStyle = "#fbbf24";
-    ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+    drawBullet(ctx, bullet);
+  });
+
+  // Turret shots
+  state.projectiles.forEach((shot) => {
+    ctx.fillStyle = "#f97316";
+    ctx.beginPath();
+    ctx.arc(shot.x + shot.width / 2, shot.y + shot.height / 2, shot.width / 2, 0, Math.PI * 2);
+    ctx.fill();
   });
 
   // Draw placed bombs
@@ -308,6 +296,10 @@ export function drawDynamicLayer(
     }
   });
 
+  state.blasts.forEach((blast) => {
+    drawBlast(ctx, blast);
+  });
+
   // Draw fire trap animations
   state.firetraps.forEach((trap) => {
     const trapX = trap.x * TILE_SIZE;
@@ -403,7 +395,7 @@ export function drawDynamicLayer(
 
   // Check if player is at goal for visual feedback
   let atGoal = false;
-  if (state.goalPos) {
+  if (state.goalPos && state.bosses.length === 0) {
     const goalBox = {
       x: state.goalPos.x * TILE_SIZE,
       y: state.goalPos.y * TILE_SIZE,
@@ -445,6 +437,8 @@ export function drawDynamicLayer(
     ctx.translate(-cameraX, -cameraY);
   }
 
+  drawMeleeSwipe(ctx, player);
+
   const isVisible = !player.invincible || Math.floor((player.invincibleTimer ?? 0) / 10) % 2 === 0;
   if (isVisible) {
     const shakeOffsetX = player.shaking ? (Math.random() - 0.5) * 4 : 0;
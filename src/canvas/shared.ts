@@ -1,3 +1,40 @@
+import { DEFAULT_KEY_CHANNEL, KEY_CHANNEL_COLORS, WEAPON_KIND_OPTIONS } from "../constants";
+import type { TextureMap } from "../hooks/useTextures";
+import { getTileDefinition, type TileTool } from "../tileset";
+import { BLAST_FRAMES, MELEE_FRAMES, MELEE_RANGE } from "../state/gameState";
+import {
+  TILE_SIZE,
+  type BlastState,
+  type BossAction,
+  type BulletState,
+  type CrumblePhase,
+  type KeyChannel,
+  type MonsterKind,
+  type PlayerState,
+  type TriggerKind,
+  type WeaponKind
+} from "../types";
+
+// Terrain tile from the tileset manifest: its texture, or its fallback colour until that loads
+export function drawTile(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  tile: number,
+  x: number,
+  y: number
+): void {
+  const definition = getTileDefinition(tile);
+  if (!definition) return;
+
+  const texture = textures[definition.tool as TileTool];
+  if (texture?.complete) {
+    ctx.drawImage(texture, x, y, TILE_SIZE, TILE_SIZE);
+  } else {
+    ctx.fillStyle = definition.color;
+    ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+  }
+}
+
 export function drawStar(
   ctx: CanvasRenderingContext2D,
   cx: number,
@@ -23,3 +60,452 @@ export function drawStar(
   ctx.restore();
 }
 
+
+/**
+ * Small colored dot in the top-right corner of a key or door sprite.
+ * Gold is the default channel and is left unmarked so older levels look unchanged.
+ */
+export function drawChannelBadge(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  channel: KeyChannel | undefined
+): void {
+  if (!channel || channel === DEFAULT_KEY_CHANNEL) return;
+
+  const radius = Math.max(4, size * 0.15);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x + size - radius, y + radius, radius, 0, Math.PI * 2);
+  ctx.fillStyle = KEY_CHANNEL_COLORS[channel];
+  ctx.fill();
+  ctx.lineWidth = 2;
+  ctx.strokeStyle = "#ffffff";
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * Lever, pressure plate or timed button drawn into the grid cell at (x, y).
+ * `active` shows the lever thrown / plate held down / button lit.
+ */
+export function drawTrigger(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  kind: TriggerKind,
+  active: boolean
+): void {
+  const size = TILE_SIZE;
+  ctx.save();
+
+  switch (kind) {
+    case "lever": {
+      // Base with a stick leaning left (off) or right (on)
+      ctx.fillStyle = "#57534e";
+      ctx.fillRect(x + 10, y + size - 10, size - 20, 8);
+      const pivotX = x + size / 2;
+      const pivotY = y + size - 10;
+      const angle = active ? Math.PI / 5 : -Math.PI / 5;
+      const tipX = pivotX + Math.sin(angle) * 22;
+      const tipY = pivotY - Math.cos(angle) * 22;
+      ctx.strokeStyle = "#a8a29e";
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.moveTo(pivotX, pivotY);
+      ctx.lineTo(tipX, tipY);
+      ctx.stroke();
+      ctx.fillStyle = active ? "#22c55e" : "#ef4444";
+      ctx.beginPath();
+      ctx.arc(tipX, tipY, 5, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    case "plate": {
+      const height = active ? 3 : 7;
+      ctx.fillStyle = active ? "#22c55e" : "#94a3b8";
+      ctx.fillRect(x + 4, y + size - height, size - 8, height);
+      ctx.strokeStyle = "#475569";
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x + 4, y + size - height, size - 8, height);
+      break;
+    }
+    case "button": {
+      ctx.fillStyle = "#475569";
+      ctx.fillRect(x + 8, y + size - 6, size - 16, 6);
+      ctx.fillStyle = active ? "#facc15" : "#dc2626";
+      ctx.beginPath();
+      ctx.arc(x + size / 2, y + size - 6, active ? 6 : 9, Math.PI, 0);
+      ctx.fill();
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+export function drawMovingPlatform(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  if (textures.platform?.complete) {
+    ctx.drawImage(textures.platform, x, y, width, height);
+  } else {
+    ctx.fillStyle = "#8B4513";
+    ctx.fillRect(x, y, width, height);
+  }
+  ctx.save();
+  ctx.strokeStyle = "#facc15";
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x + 1, y + 1, width - 2, height - 2);
+  ctx.restore();
+}
+
+/**
+ * Crumbling platform in the grid cell at (x, y). It shakes and fades while crumbling
+ * and is not drawn at all once gone.
+ */
+export function drawCrumblingPlatform(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  x: number,
+  y: number,
+  phase: CrumblePhase,
+  animationFrame = 0
+): void {
+  if (phase === "gone") return;
+
+  ctx.save();
+  if (phase === "crumbling") {
+    ctx.globalAlpha = 0.7;
+    ctx.translate(animationFrame % 4 < 2 ? -2 : 2, 0);
+  }
+
+  if (textures.platform?.complete) {
+    ctx.drawImage(textures.platform, x, y, TILE_SIZE, TILE_SIZE);
+  } else {
+    ctx.fillStyle = "#a16207";
+    ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+  }
+
+  // Cracks
+  ctx.strokeStyle = "rgba(30, 20, 10, 0.8)";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x + 8, y + 2);
+  ctx.lineTo(x + 16, y + 16);
+  ctx.lineTo(x + 12, y + 26);
+  ctx.moveTo(x + 30, y + 4);
+  ctx.lineTo(x + 24, y + 18);
+  ctx.lineTo(x + 32, y + 34);
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * 30x30 monster body at pixel (x, y) with a marker for its kind:
+ * wings for flyers, a spring for jumpers, a gun barrel for turrets and a "!" over an alert chaser or flyer.
+ */
+export function drawMonster(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  x: number,
+  y: number,
+  kind: MonsterKind,
+  options: { blinking?: boolean; direction?: 1 | -1; alert?: boolean } = {}
+): void {
+  const { blinking = false, direction = 1, alert = false } = options;
+
+  ctx.save();
+  if (kind === "flyer") {
+    ctx.fillStyle = "rgba(226, 232, 240, 0.9)";
+    ctx.beginPath();
+    ctx.ellipse(x - 2, y + 10, 8, 5, -0.5, 0, Math.PI * 2);
+    ctx.ellipse(x + 32, y + 10, 8, 5, 0.5, 0, Math.PI * 2);
+    ctx.fill();
+  } else if (kind === "jumper") {
+    ctx.strokeStyle = "#94a3b8";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x + 9, y + 30);
+    ctx.lineTo(x + 21, y + 32);
+    ctx.lineTo(x + 9, y + 34);
+    ctx.lineTo(x + 21, y + 36);
+    ctx.stroke();
+  } else if (kind === "turret") {
+    ctx.fillStyle = "#334155";
+    ctx.fillRect(direction === 1 ? x + 22 : x - 6, y + 11, 14, 8);
+  }
+
+  const image = blinking ? textures.monsterClose : textures.monsterOpen;
+  if (image?.complete) {
+    ctx.drawImage(image, x, y, 30, 30);
+  } else {
+    // Fallback to emoji
+    ctx.fillStyle = kind === "turret" ? "#475569" : "#e53e3e";
+    ctx.fillRect(x, y, 30, 30);
+    ctx.font = "24px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText("👾", x + 15, y + 23);
+  }
+
+  if (kind === "chaser") {
+    // Angry brows
+    ctx.strokeStyle = "#7f1d1d";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x + 6, y + 6);
+    ctx.lineTo(x + 13, y + 10);
+    ctx.moveTo(x + 24, y + 6);
+    ctx.lineTo(x + 17, y + 10);
+    ctx.stroke();
+  }
+
+  if (alert) {
+    ctx.fillStyle = "#ef4444";
+    ctx.font = "bold 16px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText("!", x + 15, y - 8);
+  }
+  ctx.restore();
+}
+
+/**
+ * Boss body at pixel (x, y): a scaled-up monster sprite with a crown. It flashes white
+ * when hit, shakes while winding up a charge and droops while stunned.
+ */
+export function drawBoss(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  x: number,
+  y: number,
+  size: number,
+  action: BossAction,
+  options: { hurt?: boolean; animationFrame?: number } = {}
+): void {
+  const { hurt = false, animationFrame = 0 } = options;
+
+  ctx.save();
+  if (action === "windup") {
+    ctx.translate(animationFrame % 4 < 2 ? -3 : 3, 0);
+  }
+  if (action === "stunned") {
+    ctx.globalAlpha = 0.75;
+  }
+
+  const image = textures.monsterOpen;
+  if (image?.complete) {
+    ctx.drawImage(image, x, y, size, size);
+  } else {
+    ctx.fillStyle = "#7f1d1d";
+    ctx.fillRect(x, y, size, size);
+    ctx.font = `${Math.round(size * 0.7)}px Arial`;
+    ctx.textAlign = "center";
+    ctx.fillText("👹", x + size / 2, y + size * 0.75);
+  }
+
+  if (hurt) {
+    ctx.globalCompositeOperation = "source-atop";
+    ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+    ctx.fillRect(x, y, size, size);
+    ctx.globalCompositeOperation = "source-over";
+  }
+
+  // Crown
+  const crownWidth = size * 0.6;
+  const crownLeft = x + (size - crownWidth) / 2;
+  const crownBottom = y + 2;
+  ctx.fillStyle = "#facc15";
+  ctx.beginPath();
+  ctx.moveTo(crownLeft, crownBottom);
+  ctx.lineTo(crownLeft, crownBottom - 10);
+  ctx.lineTo(crownLeft + crownWidth * 0.25, crownBottom - 4);
+  ctx.lineTo(crownLeft + crownWidth * 0.5, crownBottom - 14);
+  ctx.lineTo(crownLeft + crownWidth * 0.75, crownBottom - 4);
+  ctx.lineTo(crownLeft + crownWidth, crownBottom - 10);
+  ctx.lineTo(crownLeft + crownWidth, crownBottom);
+  ctx.closePath();
+  ctx.fill();
+
+  if (action === "stunned") {
+    ctx.fillStyle = "#facc15";
+    ctx.font = "bold 14px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText("✦ ✦", x + size / 2, y - 16);
+  }
+  ctx.restore();
+}
+
+// Padlock over the goal cell while a boss still guards it
+export function drawGoalLock(ctx: CanvasRenderingContext2D, textures: TextureMap, x: number, y: number): void {
+  ctx.save();
+  ctx.fillStyle = "rgba(15, 23, 42, 0.55)";
+  ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+  if (textures.lock?.complete) {
+    ctx.drawImage(textures.lock, x + 8, y + 8, TILE_SIZE - 16, TILE_SIZE - 16);
+  } else {
+    ctx.font = "20px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText("🔒", x + 20, y + 27);
+  }
+  ctx.restore();
+}
+
+// Arc swept in front of the player while a melee swing is in progress
+export function drawMeleeSwipe(ctx: CanvasRenderingContext2D, player: PlayerState): void {
+  if (!player.meleeTimer) return;
+
+  const progress = 1 - player.meleeTimer / MELEE_FRAMES;
+  const facing = player.facingRight ? 1 : -1;
+  const centerX = player.x + player.width / 2;
+  const centerY = player.y + player.height / 2;
+  const radius = player.width / 2 + MELEE_RANGE;
+  const start = -Math.PI / 2 + progress * Math.PI * 0.4;
+  const end = start + Math.PI * 0.6;
+
+  ctx.save();
+  ctx.globalAlpha = 1 - progress;
+  ctx.strokeStyle = "#e2e8f0";
+  ctx.lineWidth = 4;
+  ctx.beginPath();
+  if (facing === 1) {
+    ctx.arc(centerX, centerY, radius, start, end);
+  } else {
+    ctx.arc(centerX, centerY, radius, Math.PI - end, Math.PI - start);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * 30x30 weapon pickup at pixel (x, y). Anything but the pistol gets its icon in a
+ * corner badge so the kinds can be told apart with the shared weapon texture.
+ */
+export function drawWeaponPickup(
+  ctx: CanvasRenderingContext2D,
+  textures: TextureMap,
+  x: number,
+  y: number,
+  kind: WeaponKind
+): void {
+  ctx.save();
+  if (textures.weapon?.complete) {
+    ctx.drawImage(textures.weapon, x, y, 30, 30);
+  } else {
+    ctx.fillStyle = "#4299e1";
+    ctx.fillRect(x + 3, y + 3, 24, 24);
+    ctx.font = "20px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText("🔫", x + 15, y + 21);
+  }
+
+  if (kind !== "pistol") {
+    const icon = WEAPON_KIND_OPTIONS.find((option) => option.value === kind)?.icon ?? "";
+    ctx.fillStyle = "rgba(15, 23, 42, 0.75)";
+    ctx.beginPath();
+    ctx.arc(x + 25, y + 5, 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.font = "10px Arial";
+    ctx.textAlign = "center";
+    ctx.fillText(icon, x + 25, y + 9);
+  }
+  ctx.restore();
+}
+
+export function drawBullet(ctx: CanvasRenderingContext2D, bullet: BulletState): void {
+  ctx.save();
+  switch (bullet.kind) {
+    case "grenade":
+      ctx.fillStyle = "#365314";
+      ctx.beginPath();
+      ctx.arc(bullet.x + bullet.width / 2, bullet.y + bullet.height / 2, bullet.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = "#f97316";
+      ctx.fillRect(bullet.x + bullet.width / 2 - 1, bullet.y - 3, 2, 4);
+      break;
+    case "piercing":
+      ctx.fillStyle = "#22d3ee";
+      ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+      break;
+    case "spread":
+      ctx.fillStyle = "#fb923c";
+      ctx.beginPath();
+      ctx.arc(bullet.x + bullet.width / 2, bullet.y + bullet.height / 2, bullet.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    default:
+      ctx.fillStyle = "#fbbf24";
+      ctx.fillRect(bullet.x, bullet.y, bullet.width, bullet.height);
+      break;
+  }
+  ctx.restore();
+}
+
+// Cracks across a door or trap block that a bomb blast will destroy
+export function drawBombableMark(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+  ctx.save();
+  ctx.strokeStyle = "rgba(15, 23, 42, 0.85)";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(x + 4, y + 6);
+  ctx.lineTo(x + 14, y + 16);
+  ctx.lineTo(x + 10, y + 24);
+  ctx.lineTo(x + 18, y + 36);
+  ctx.moveTo(x + 14, y + 16);
+  ctx.lineTo(x + 24, y + 14);
+  ctx.moveTo(x + 36, y + 8);
+  ctx.lineTo(x + 28, y + 22);
+  ctx.lineTo(x + 34, y + 32);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Explosion covering a blast's square, flaring up and then fading out as its timer runs down
+export function drawBlast(ctx: CanvasRenderingContext2D, blast: BlastState): void {
+  const progress = 1 - blast.timer / BLAST_FRAMES;
+  const centerX = (blast.x + 0.5) * TILE_SIZE;
+  const centerY = (blast.y + 0.5) * TILE_SIZE;
+  const reach = (blast.radius + 0.5) * TILE_SIZE;
+
+  ctx.save();
+  ctx.globalAlpha = Math.max(0, 1 - progress);
+  ctx.fillStyle = "rgba(251, 146, 60, 0.25)";
+  ctx.fillRect(centerX - reach, centerY - reach, reach * 2, reach * 2);
+
+  const radius = reach * Math.min(1, 0.4 + progress * 1.5);
+  const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+  gradient.addColorStop(0, "rgba(254, 240, 138, 0.95)");
+  gradient.addColorStop(0.5, "rgba(249, 115, 22, 0.8)");
+  gradient.addColorStop(1, "rgba(220, 38, 38, 0)");
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+// Checkpoint flag in the grid cell at (x, y): grey until reached, then raised and green
+export function drawCheckpoint(ctx: CanvasRenderingContext2D, x: number, y: number, reached: boolean): void {
+  const poleX = x + 12;
+  const flagTop = reached ? y + 6 : y + 16;
+
+  ctx.save();
+  ctx.fillStyle = "#57534e";
+  ctx.fillRect(x + 6, y + TILE_SIZE - 5, 14, 4);
+  ctx.fillStyle = "#d6d3d1";
+  ctx.fillRect(poleX, y + 4, 3, TILE_SIZE - 8);
+
+  ctx.fillStyle = reached ? "#22c55e" : "#94a3b8";
+  ctx.beginPath();
+  ctx.moveTo(poleX + 3, flagTop);
+  ctx.lineTo(poleX + 22, flagTop + 6);
+  ctx.lineTo(poleX + 3, flagTop + 12);
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+}
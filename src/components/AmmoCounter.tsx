@@ -0,0 +1,32 @@
+import { WEAPON_KIND_OPTIONS } from "../constants";
+import type { AmmoInventory, WeaponKind } from "../types";
+
+interface AmmoCounterProps {
+  ammo: AmmoInventory;
+  currentWeapon: WeaponKind | null;
+  className?: string;
+}
+
+/**
+ * HUD weapon and ammo readout - the weapon in hand and its ammo, with the
+ * other weapons the player has ammo for shown smaller after it
+ */
+export default function AmmoCounter({ ammo, currentWeapon, className = "" }: AmmoCounterProps): JSX.Element {
+  const current = WEAPON_KIND_OPTIONS.find((option) => option.value === currentWeapon) ?? WEAPON_KIND_OPTIONS[0];
+  const others = WEAPON_KIND_OPTIONS.filter((option) => option.value !== current.value && ammo[option.value] > 0);
+
+  return (
+    <span className={`flex items-center gap-1.5 font-bold ${className}`}>
+      <span className="flex items-center gap-0.5" title={current.label}>
+        <span>{current.icon}</span>
+        {ammo[current.value]}
+      </span>
+      {others.map((option) => (
+        <span key={option.value} className="flex items-center gap-0.5 opacity-50 text-[0.65rem]" title={option.label}>
+          <span>{option.icon}</span>
+          {ammo[option.value]}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+import type { BossState } from "../types";
+
+interface BossHealthBarProps {
+  boss: BossState;
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * HUD health bar for a boss, split into one segment per phase
+ * Segments already cleared are dimmed so the player can see how many phases are left
+ */
+export default function BossHealthBar({ boss, compact = false, className = "" }: BossHealthBarProps): JSX.Element {
+  const perPhase = boss.maxHealth / boss.phases;
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`} title={`Boss: ${boss.health}/${boss.maxHealth}`}>
+      <span className={compact ? "text-xs" : "text-sm"}>👹</span>
+      <div className="flex items-center gap-0.5">
+        {Array.from({ length: boss.phases }).map((_, i) => {
+          // Health left in this segment, counting from the last phase backwards
+          const segmentStart = boss.maxHealth - (i + 1) * perPhase;
+          const fill = Math.max(0, Math.min(1, (boss.health - segmentStart) / perPhase));
+          return (
+            <div
+              key={i}
+              className={`overflow-hidden rounded-sm bg-white/15 ${compact ? "h-1.5 w-5" : "h-2 w-8"}`}
+            >
+              <div
+                className="h-full bg-gradient-to-r from-purple-500 to-red-500"
+                style={{ width: `${fill * 100}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { CampaignState } from "../types";
+
+interface GameOverScreenProps {
+  campaign: CampaignState;
+  onNewCampaign: () => void;
+  onLevelSelect: () => void;
+}
+
+/**
+ * Campaign over overlay - shown when the last life is lost, with how far the run got
+ */
+export default function GameOverScreen({ campaign, onNewCampaign, onLevelSelect }: GameOverScreenProps): JSX.Element {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm"></div>
+
+      <div className="relative bg-white rounded-xl shadow-2xl overflow-hidden" style={{ width: '280px' }}>
+        <div className="bg-gradient-to-r from-red-600 to-rose-700 px-4 py-3 text-center">
+          <h3 className="text-white font-bold text-lg">💀 Game Over</h3>
+        </div>
+
+        <div className="p-4">
+          <div className="space-y-1 text-sm text-slate-700">
+            <div className="flex justify-between">
+              <span className="font-medium">Levels cleared</span>
+              <span className="font-bold">{campaign.levelsCleared}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">Campaign score</span>
+              <span className="font-bold">{campaign.score}</span>
+            </div>
+          </div>
+
+          <div className="mt-4 space-y-1.5">
+            <button
+              onClick={onNewCampaign}
+              className="w-full rounded-lg bg-green-500 hover:bg-green-600 py-2 text-sm font-bold text-white transition-all"
+            >
+              ▶ New Campaign
+            </button>
+            <button
+              onClick={onLevelSelect}
+              className="w-full rounded-lg bg-slate-100 hover:bg-slate-200 py-2 text-sm font-bold text-slate-700 transition-all"
+            >
+              📋 Level Select
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { DEFAULT_KEY_CHANNEL, KEY_CHANNEL_OPTIONS } from "../constants";
+import type { KeyInventory } from "../types";
+
+interface KeyCounterProps {
+  keys: KeyInventory;
+  className?: string;
+}
+
+/**
+ * HUD key inventory - one count per key color
+ * Gold is always shown; other colors only once the player is holding some
+ */
+export default function KeyCounter({ keys, className = "" }: KeyCounterProps): JSX.Element {
+  const shown = KEY_CHANNEL_OPTIONS.filter(
+    (option) => option.value === DEFAULT_KEY_CHANNEL || keys[option.value] > 0
+  );
+
+  return (
+    <span className={`flex items-center gap-1.5 font-bold ${className}`}>
+      {shown.map((option) => (
+        <span key={option.value} className="flex items-center gap-0.5" title={`${option.label} keys`}>
+          <span
+            className="inline-block h-2 w-2 rounded-full"
+            style={{ backgroundColor: option.color }}
+          />
+          {keys[option.value]}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -1,5 +1,7 @@
 import { useEffect, useState } from "react";
 import { getPublishedLevels } from "../services/levelService";
+import { getBestReplay } from "../services/progressService";
+import type { Replay } from "../state/replay";
 import type { Database } from "../types/database.types";
 import { logError } from "../utils/logger";
 
@@ -7,16 +9,20 @@ type Level = Database['public']['Tables']['levels']['Row'];
 
 interface LevelSelectorProps {
   onSelectLevel: (level: Level) => void;
+  onWatchReplay?: (level: Level, replay: Replay) => void;
   currentLevelId?: string;
 }
 
 export default function LevelSelector({
   onSelectLevel,
+  onWatchReplay,
   currentLevelId
 }: LevelSelectorProps): JSX.Element {
   const [levels, setLevels] = useState<Level[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [replayLoadingId, setReplayLoadingId] = useState<string | null>(null);
+  const [replayMessages, setReplayMessages] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadLevels();
@@ -36,6 +42,26 @@ export default function LevelSelector({
     }
   };
 
+  const handleWatchReplay = async (level: Level) => {
+    if (!onWatchReplay) return;
+
+    try {
+      setReplayLoadingId(level.id);
+      setReplayMessages((prev) => ({ ...prev, [level.id]: "" }));
+      const replay = await getBestReplay(level.id);
+      if (replay) {
+        onWatchReplay(level, replay);
+      } else {
+        setReplayMessages((prev) => ({ ...prev, [level.id]: "No replay yet" }));
+      }
+    } catch (error: any) {
+      logError("Failed to load replay", error);
+      setReplayMessages((prev) => ({ ...prev, [level.id]: "Failed to load replay" }));
+    } finally {
+      setReplayLoadingId(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -94,52 +120,68 @@ export default function LevelSelector({
 
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
         {levels.map((level) => (
-          <button
-            key={level.id}
-            onClick={() => onSelectLevel(level)}
-            className={`group relative overflow-hidden rounded-xl border-2 p-6 text-left transition-all duration-200 ${
-              currentLevelId === level.id
-                ? "border-brandStart bg-gradient-to-br from-brandStart/10 to-brandEnd/10 shadow-lg"
-                : "border-slate-200 bg-white hover:-translate-y-1 hover:shadow-xl"
-            }`}
-          >
-            <div className="mb-3 flex items-center justify-between">
-              <span className={`text-3xl font-bold ${
-                currentLevelId === level.id ? "text-brandStart" : "text-slate-400 group-hover:text-brandStart"
-              } transition-colors`}>
-                Level {level.level_number}
-              </span>
-              <div className="flex items-center gap-2">
+          <div key={level.id} className="flex flex-col gap-2">
+            <button
+              onClick={() => onSelectLevel(level)}
+              className={`group relative overflow-hidden rounded-xl border-2 p-6 text-left transition-all duration-200 ${
+                currentLevelId === level.id
+                  ? "border-brandStart bg-gradient-to-br from-brandStart/10 to-brandEnd/10 shadow-lg"
+                  : "border-slate-200 bg-white hover:-translate-y-1 hover:shadow-xl"
+              }`}
+            >
+              <div className="mb-3 flex items-center justify-between">
+                <span className={`text-3xl font-bold ${
+                  currentLevelId === level.id ? "text-brandStart" : "text-slate-400 group-hover:text-brandStart"
+                } transition-colors`}>
+                  Level {level.level_number}
+                </span>
+                <div className="flex items-center gap-2">
+                  {level.background !== 'none' && (
+                    <span className="text-2xl" title={`Background: ${level.background}`}>
+                      🖼️
+                    </span>
+                  )}
+                  {currentLevelId === level.id && (
+                    <span className="text-2xl">▶️</span>
+                  )}
+                </div>
+              </div>
+
+              <h3 className="mb-2 text-lg font-semibold text-slate-800 line-clamp-2">
+                {level.name}
+              </h3>
+
+              <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+                <span>
+                  Created {new Date(level.created_at).toLocaleDateString()}
+                </span>
                 {level.background !== 'none' && (
-                  <span className="text-2xl" title={`Background: ${level.background}`}>
-                    🖼️
+                  <span className="rounded-full bg-brandStart/10 px-2 py-1 font-medium text-brandStart">
+                    {level.background === 'bg1' ? 'Forest' : 'Sky Plains'}
                   </span>
                 )}
-                {currentLevelId === level.id && (
-                  <span className="text-2xl">▶️</span>
-                )}
               </div>
-            </div>
-
-            <h3 className="mb-2 text-lg font-semibold text-slate-800 line-clamp-2">
-              {level.name}
-            </h3>
-
-            <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
-              <span>
-                Created {new Date(level.created_at).toLocaleDateString()}
-              </span>
-              {level.background !== 'none' && (
-                <span className="rounded-full bg-brandStart/10 px-2 py-1 font-medium text-brandStart">
-                  {level.background === 'bg1' ? 'Forest' : 'Sky Plains'}
-                </span>
+
+              {currentLevelId === level.id && (
+                <div className="absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-brandStart to-brandEnd"></div>
               )}
-            </div>
+            </button>
 
-            {currentLevelId === level.id && (
-              <div className="absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-brandStart to-brandEnd"></div>
+            {onWatchReplay && (
+              <div className="flex items-center justify-between px-1 text-xs">
+                <button
+                  onClick={() => handleWatchReplay(level)}
+                  disabled={replayLoadingId === level.id}
+                  className="rounded-lg bg-slate-100 px-3 py-1 font-semibold text-slate-700 hover:bg-slate-200 transition disabled:opacity-50"
+                >
+                  {replayLoadingId === level.id ? "Loading..." : "🎬 Watch best run"}
+                </button>
+                {replayMessages[level.id] && (
+                  <span className="text-slate-500">{replayMessages[level.id]}</span>
+                )}
+              </div>
             )}
-          </button>
+          </div>
         ))}
       </div>
     </div>
@@ -0,0 +1,573 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_KEY_CHANNEL, KEY_CHANNEL_OPTIONS, MONSTER_KIND_OPTIONS } from "../constants";
+import {
+  FIRE_TRAP_DIRECTIONS,
+  OBJECT_FIELD_LIMITS,
+  isFireTrapDirection,
+  updateBossAt,
+  updateDoorAt,
+  updateFireTrapAt,
+  updateMonsterAt,
+  toggleTriggerLink,
+  toggleWaypoint,
+  updateCrumblingPlatformAt,
+  updateMovingPlatformAt,
+  updateSpikeTrapAt,
+  updateTriggerAt,
+  validateNumberField,
+  validateArena,
+  validatePatrol,
+  type InspectedObject
+} from "../state/editorState";
+import {
+  DEFAULT_BOSS_HEALTH,
+  DEFAULT_BOSS_PHASES,
+  DEFAULT_BUTTON_DURATION,
+  DEFAULT_CRUMBLE_DELAY,
+  DEFAULT_CRUMBLE_RESPAWN,
+  DEFAULT_MONSTER_HEALTH,
+  DEFAULT_MONSTER_SPEED,
+  DEFAULT_PLATFORM_SPEED
+} from "../state/gameState";
+import type { EditorState, GridPosition, MonsterKind, TriggerKind } from "../types";
+
+interface ObjectInspectorProps {
+  editorState: EditorState;
+  target: InspectedObject;
+  onChange: (next: EditorState) => void;
+  onClose: () => void;
+  picking?: boolean;                  // Canvas clicks edit the trigger's links or the platform's waypoints
+  onTogglePicking?: () => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  validate: (value: number) => string | null;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Number input that only commits values that pass validation
+ * Invalid drafts stay in the box with an error until fixed
+ */
+function NumberField({ label, value, step = 1, validate, onCommit }: NumberFieldProps): JSX.Element {
+  const [draft, setDraft] = useState(String(value));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow outside changes (undo, dragging patrol handles on the canvas)
+  useEffect(() => {
+    setDraft(String(value));
+    setError(null);
+  }, [value]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const parsed = text.trim() === "" ? NaN : Number(text);
+    const message = validate(parsed);
+    setError(message);
+    if (!message && parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <label className="block">
+      <span className="text-xs font-semibold text-slate-600">{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`mt-1 w-full rounded-lg border-2 px-2 py-1 text-sm focus:outline-none ${
+          error ? "border-red-400 focus:border-red-500" : "border-slate-200 focus:border-purple-500"
+        }`}
+      />
+      {error && <span className="mt-0.5 block text-xs text-red-600">{error}</span>}
+    </label>
+  );
+}
+
+const TITLES: Record<InspectedObject["kind"], string> = {
+  monster: "👾 Monster",
+  boss: "👹 Boss",
+  door: "🟪 Door",
+  firetrap: "🔥 Fire Trap",
+  spiketrap: "🏮 Spike Trap",
+  trigger: "🕹️ Trigger",
+  movingplatform: "↔️ Moving Platform",
+  crumbleplatform: "🧱 Crumbling Platform"
+};
+
+const MONSTER_KIND_HINTS: Record<MonsterKind, string> = {
+  patrol: "Walks back and forth along its patrol.",
+  chaser: "Patrols until it sees you nearby, then gives chase (it won't jump gaps).",
+  jumper: "Patrols under gravity, hopping every 1.5 seconds.",
+  flyer: "Flies through walls and homes in when you get close.",
+  turret: "Stays put and shoots at you whenever it has a clear line of fire."
+};
+
+const TRIGGER_TITLES: Record<TriggerKind, string> = {
+  lever: "🕹️ Lever",
+  plate: "⏏️ Pressure Plate",
+  button: "🔴 Timed Button"
+};
+
+// Describe what sits on a linked cell ("Door", "Fire trap", ... or "Nothing" if it was removed)
+function describeLinkTarget(editorState: EditorState, link: GridPosition): string {
+  const at = (item: GridPosition) => item.x === link.x && item.y === link.y;
+  if (editorState.doors.some(at)) return "Door";
+  if ((editorState.firetraps ?? []).some(at)) return "Fire trap";
+  if ((editorState.spiketraps ?? []).some(at)) return "Spike trap";
+  if ((editorState.movingPlatforms ?? []).some(at)) return "Moving platform";
+  return "Nothing";
+}
+
+/**
+ * Side panel for editing the properties of the object selected with the Inspect tool
+ */
+export default function ObjectInspector({
+  editorState,
+  target,
+  onChange,
+  onClose,
+  picking = false,
+  onTogglePicking
+}: ObjectInspectorProps): JSX.Element | null {
+  const at = (item: { x: number; y: number }) => item.x === target.x && item.y === target.y;
+  const { trapSeconds } = OBJECT_FIELD_LIMITS;
+
+  const renderFields = () => {
+    switch (target.kind) {
+      case "monster": {
+        const monster = editorState.monsters.find(at);
+        if (!monster) return null;
+        const setPatrol = (patrol: [number, number]) =>
+          onChange(updateMonsterAt(editorState, target, { patrol }));
+        const kind = monster.kind ?? "patrol";
+
+        return (
+          <>
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Type</span>
+              <select
+                value={kind}
+                onChange={(e) => {
+                  const option = MONSTER_KIND_OPTIONS.find((item) => item.value === e.target.value);
+                  if (option) {
+                    onChange(updateMonsterAt(editorState, target, { kind: option.value }));
+                  }
+                }}
+                className="mt-1 w-full rounded-lg border-2 border-slate-200 px-2 py-1 text-sm focus:border-purple-500 focus:outline-none"
+              >
+                {MONSTER_KIND_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-slate-500">{MONSTER_KIND_HINTS[kind]}</p>
+            {kind !== "turret" && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField
+                    label="Patrol start"
+                    value={monster.patrol[0]}
+                    validate={(value) => validatePatrol(monster, [value, monster.patrol[1]], editorState.gridWidth)}
+                    onCommit={(value) => setPatrol([value, monster.patrol[1]])}
+                  />
+                  <NumberField
+                    label="Patrol end"
+                    value={monster.patrol[1]}
+                    validate={(value) => validatePatrol(monster, [monster.patrol[0], value], editorState.gridWidth)}
+                    onCommit={(value) => setPatrol([monster.patrol[0], value])}
+                  />
+                </div>
+                <p className="text-xs text-slate-500">Tip: drag the ◀ ▶ handles on the canvas to set the patrol.</p>
+                <NumberField
+                  label="Speed (px/frame)"
+                  value={monster.speed ?? DEFAULT_MONSTER_SPEED}
+                  step={0.5}
+                  validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.monsterSpeed)}
+                  onCommit={(speed) => onChange(updateMonsterAt(editorState, target, { speed }))}
+                />
+              </>
+            )}
+            <NumberField
+              label="Health (hits)"
+              value={monster.health ?? DEFAULT_MONSTER_HEALTH}
+              validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.monsterHealth, true)}
+              onCommit={(health) => onChange(updateMonsterAt(editorState, target, { health }))}
+            />
+          </>
+        );
+      }
+      case "boss": {
+        const boss = (editorState.bosses ?? []).find(at);
+        if (!boss) return null;
+        const setArena = (arena: [number, number]) => onChange(updateBossAt(editorState, target, { arena }));
+
+        return (
+          <>
+            <p className="text-xs text-slate-500">
+              Charges, summons chasers and sets off fire traps in its arena as it loses health. The goal stays
+              locked until it is beaten.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField
+                label="Arena start"
+                value={boss.arena[0]}
+                validate={(value) => validateArena(boss, [value, boss.arena[1]], editorState.gridWidth)}
+                onCommit={(value) => setArena([value, boss.arena[1]])}
+              />
+              <NumberField
+                label="Arena end"
+                value={boss.arena[1]}
+                validate={(value) => validateArena(boss, [boss.arena[0], value], editorState.gridWidth)}
+                onCommit={(value) => setArena([boss.arena[0], value])}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField
+                label="Health (hits)"
+                value={boss.health ?? DEFAULT_BOSS_HEALTH}
+                validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.bossHealth, true)}
+                onCommit={(health) => onChange(updateBossAt(editorState, target, { health }))}
+              />
+              <NumberField
+                label="Phases"
+                value={boss.phases ?? DEFAULT_BOSS_PHASES}
+                validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.bossPhases, true)}
+                onCommit={(phases) => onChange(updateBossAt(editorState, target, { phases }))}
+              />
+            </div>
+          </>
+        );
+      }
+
+      case "door": {
+        const door = editorState.doors.find(at);
+        if (!door) return null;
+        return (
+          <>
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Key color</span>
+              <select
+                value={door.channel ?? DEFAULT_KEY_CHANNEL}
+                onChange={(e) => {
+                  const option = KEY_CHANNEL_OPTIONS.find((item) => item.value === e.target.value);
+                  if (option) {
+                    onChange(updateDoorAt(editorState, target, { channel: option.value }));
+                  }
+                }}
+                className="mt-1 w-full rounded-lg border-2 border-slate-200 px-2 py-1 text-sm focus:border-purple-500 focus:outline-none"
+              >
+                {KEY_CHANNEL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(door.open)}
+                onChange={(e) => onChange(updateDoorAt(editorState, target, { open: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Starts open
+            </label>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(door.bombable)}
+                onChange={(e) => onChange(updateDoorAt(editorState, target, { bombable: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Bombs can destroy it
+            </label>
+          </>
+        );
+      }
+
+      case "firetrap": {
+        const trap = (editorState.firetraps ?? []).find(at);
+        if (!trap) return null;
+        return (
+          <>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={trap.enabled ?? true}
+                onChange={(e) => onChange(updateFireTrapAt(editorState, target, { enabled: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Starts enabled
+            </label>
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Direction</span>
+              <select
+                value={trap.direction}
+                onChange={(e) => {
+                  if (isFireTrapDirection(e.target.value)) {
+                    onChange(updateFireTrapAt(editorState, target, { direction: e.target.value }));
+                  }
+                }}
+                className="mt-1 w-full rounded-lg border-2 border-slate-200 px-2 py-1 text-sm focus:border-purple-500 focus:outline-none"
+              >
+                {FIRE_TRAP_DIRECTIONS.map((direction) => (
+                  <option key={direction} value={direction}>
+                    {direction}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <NumberField
+              label="Spray distance (blocks)"
+              value={trap.sprayDistance}
+              validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.sprayDistance, true)}
+              onCommit={(sprayDistance) => onChange(updateFireTrapAt(editorState, target, { sprayDistance }))}
+            />
+            <NumberField
+              label="Spray time (s)"
+              value={trap.sprayTime}
+              step={0.5}
+              validate={(value) => validateNumberField(value, trapSeconds)}
+              onCommit={(sprayTime) => onChange(updateFireTrapAt(editorState, target, { sprayTime }))}
+            />
+            <NumberField
+              label="Rest time (s)"
+              value={trap.restTime}
+              step={0.5}
+              validate={(value) => validateNumberField(value, trapSeconds)}
+              onCommit={(restTime) => onChange(updateFireTrapAt(editorState, target, { restTime }))}
+            />
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(trap.bombable)}
+                onChange={(e) => onChange(updateFireTrapAt(editorState, target, { bombable: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Bombs can destroy it
+            </label>
+          </>
+        );
+      }
+
+      case "spiketrap": {
+        const trap = (editorState.spiketraps ?? []).find(at);
+        if (!trap) return null;
+        return (
+          <>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={trap.enabled ?? true}
+                onChange={(e) => onChange(updateSpikeTrapAt(editorState, target, { enabled: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Starts enabled
+            </label>
+            <NumberField
+              label="Active time (s)"
+              value={trap.activeTime}
+              step={0.5}
+              validate={(value) => validateNumberField(value, trapSeconds)}
+              onCommit={(activeTime) => onChange(updateSpikeTrapAt(editorState, target, { activeTime }))}
+            />
+            <NumberField
+              label="Rest time (s)"
+              value={trap.restTime}
+              step={0.5}
+              validate={(value) => validateNumberField(value, trapSeconds)}
+              onCommit={(restTime) => onChange(updateSpikeTrapAt(editorState, target, { restTime }))}
+            />
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input
+                type="checkbox"
+                checked={Boolean(trap.bombable)}
+                onChange={(e) => onChange(updateSpikeTrapAt(editorState, target, { bombable: e.target.checked }))}
+                className="h-4 w-4 accent-purple-600"
+              />
+              Bombs can destroy it
+            </label>
+          </>
+        );
+      }
+
+      case "trigger": {
+        const trigger = (editorState.triggers ?? []).find(at);
+        if (!trigger) return null;
+        return (
+          <>
+            {trigger.kind === "button" && (
+              <NumberField
+                label="Stays pressed (s)"
+                value={trigger.duration ?? DEFAULT_BUTTON_DURATION}
+                step={0.5}
+                validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.buttonSeconds)}
+                onCommit={(duration) => onChange(updateTriggerAt(editorState, target, { duration }))}
+              />
+            )}
+            <div>
+              <span className="text-xs font-semibold text-slate-600">Links</span>
+              {trigger.links.length === 0 ? (
+                <p className="text-xs text-slate-500">Not linked to anything yet.</p>
+              ) : (
+                <ul className="mt-1 space-y-1">
+                  {trigger.links.map((link) => (
+                    <li
+                      key={`${link.x},${link.y}`}
+                      className="flex items-center justify-between rounded bg-white px-2 py-1 text-xs text-slate-700"
+                    >
+                      <span>
+                        {describeLinkTarget(editorState, link)} ({link.x}, {link.y})
+                      </span>
+                      <button
+                        onClick={() => onChange(toggleTriggerLink(editorState, target, link))}
+                        className="rounded px-1 text-slate-500 hover:bg-slate-200"
+                        title="Remove link"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            {onTogglePicking && (
+              <button
+                onClick={onTogglePicking}
+                className={`w-full rounded-lg py-1.5 text-xs font-semibold transition ${
+                  picking ? "bg-yellow-400 text-slate-900" : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                {picking ? "✔ Done linking" : "🔗 Link doors, traps & platforms"}
+              </button>
+            )}
+            {picking && (
+              <p className="text-xs text-slate-500">Click a door, trap or moving platform on the canvas to link or unlink it.</p>
+            )}
+            <p className="text-xs text-slate-500">
+              While on, linked doors flip open/closed, linked traps flip on/off and linked platforms move.
+            </p>
+          </>
+        );
+      }
+
+      case "movingplatform": {
+        const platform = (editorState.movingPlatforms ?? []).find(at);
+        if (!platform) return null;
+        return (
+          <>
+            <NumberField
+              label="Speed (px/frame)"
+              value={platform.speed ?? DEFAULT_PLATFORM_SPEED}
+              step={0.5}
+              validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.platformSpeed)}
+              onCommit={(speed) => onChange(updateMovingPlatformAt(editorState, target, { speed }))}
+            />
+            <div>
+              <span className="text-xs font-semibold text-slate-600">Waypoints</span>
+              {platform.path.length === 0 ? (
+                <p className="text-xs text-slate-500">No waypoints - the platform stays put.</p>
+              ) : (
+                <ol className="mt-1 space-y-1">
+                  {platform.path.map((waypoint, index) => (
+                    <li
+                      key={`${waypoint.x},${waypoint.y}`}
+                      className="flex items-center justify-between rounded bg-white px-2 py-1 text-xs text-slate-700"
+                    >
+                      <span>
+                        {index + 1}. Column {waypoint.x}, row {waypoint.y}
+                      </span>
+                      <button
+                        onClick={() => onChange(toggleWaypoint(editorState, target, waypoint))}
+                        className="rounded px-1 text-slate-500 hover:bg-slate-200"
+                        title="Remove waypoint"
+                      >
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+            {onTogglePicking && (
+              <button
+                onClick={onTogglePicking}
+                className={`w-full rounded-lg py-1.5 text-xs font-semibold transition ${
+                  picking ? "bg-sky-400 text-slate-900" : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+                }`}
+              >
+                {picking ? "✔ Done editing path" : "📍 Edit path"}
+              </button>
+            )}
+            {picking && (
+              <p className="text-xs text-slate-500">
+                Click cells on the canvas to add waypoints in order; click a waypoint again to remove it.
+              </p>
+            )}
+          </>
+        );
+      }
+
+      case "crumbleplatform": {
+        const platform = (editorState.crumblingPlatforms ?? []).find(at);
+        if (!platform) return null;
+        return (
+          <>
+            <NumberField
+              label="Collapses after (s)"
+              value={platform.delay ?? DEFAULT_CRUMBLE_DELAY}
+              step={0.1}
+              validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.crumbleDelay)}
+              onCommit={(delay) => onChange(updateCrumblingPlatformAt(editorState, target, { delay }))}
+            />
+            <NumberField
+              label="Comes back after (s)"
+              value={platform.respawn ?? DEFAULT_CRUMBLE_RESPAWN}
+              step={0.5}
+              validate={(value) => validateNumberField(value, OBJECT_FIELD_LIMITS.crumbleRespawn)}
+              onCommit={(respawn) => onChange(updateCrumblingPlatformAt(editorState, target, { respawn }))}
+            />
+          </>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  const fields = renderFields();
+  if (!fields) {
+    return null;
+  }
+
+  const trigger = target.kind === "trigger" ? (editorState.triggers ?? []).find(at) : undefined;
+  const title = trigger ? TRIGGER_TITLES[trigger.kind] : TITLES[target.kind];
+
+  return (
+    <div className="mb-3 rounded-xl border-2 border-purple-200 bg-purple-50/50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-sm font-bold text-purple-700">{title}</h4>
+        <button
+          onClick={onClose}
+          className="rounded px-1.5 text-sm text-slate-500 hover:bg-slate-200"
+          title="Close inspector"
+        >
+          ✕
+        </button>
+      </div>
+      <p className="mb-2 text-xs text-slate-500">
+        Column {target.x}, row {target.y}
+      </p>
+      <div className="space-y-2">{fields}</div>
+    </div>
+  );
+}
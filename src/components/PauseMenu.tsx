@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { INPUT_CONTROL_OPTIONS } from "../constants";
+import {
+  DEFAULT_KEY_BINDINGS,
+  formatKeyLabel,
+  isPauseKey,
+  MAX_KEYS_PER_CONTROL,
+  normalizeBindingKey,
+  rebindKey,
+  type InputControl,
+  type KeyBindings
+} from "../state/input";
+import type { AudioSettings } from "../types";
+
+interface PauseMenuProps {
+  audioSettings: AudioSettings;
+  keyBindings: KeyBindings;
+  onResume: () => void;
+  onRestart: () => void;
+  restartCostsLife?: boolean;       // In a campaign, restarting spends a life
+  onLevelSelect: () => void;
+  onAudioSettingsChange: (settings: AudioSettings) => void;
+  onKeyBindingsChange: (bindings: KeyBindings) => void;
+  onEditTouchLayout?: () => void;   // Only offered when the touch controls are showing
+}
+
+type PauseView = "main" | "audio" | "controls";
+
+interface BindingSlot {
+  control: InputControl;
+  slot: number;
+}
+
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta"];
+
+const menuButtonClass =
+  "w-full rounded-lg bg-slate-100 hover:bg-slate-200 py-2 text-sm font-bold text-slate-700 transition-all";
+
+/**
+ * Pause overlay - resume, restart or leave the level, and change sound and key settings
+ */
+export default function PauseMenu({
+  audioSettings,
+  keyBindings,
+  onResume,
+  onRestart,
+  restartCostsLife = false,
+  onLevelSelect,
+  onAudioSettingsChange,
+  onKeyBindingsChange,
+  onEditTouchLayout
+}: PauseMenuProps): JSX.Element {
+  const [view, setView] = useState<PauseView>("main");
+  const [listeningFor, setListeningFor] = useState<BindingSlot | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // While waiting for a new key, swallow the key press before the game sees it
+  useEffect(() => {
+    if (!listeningFor) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (MODIFIER_KEYS.includes(e.key)) return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+
+      if (e.key === "Escape") {
+        setListeningFor(null);
+        setNotice(null);
+        return;
+      }
+
+      const key = normalizeBindingKey(e.key);
+      if (isPauseKey(key)) {
+        setNotice(`${formatKeyLabel(key)} always pauses the game`);
+        return;
+      }
+
+      onKeyBindingsChange(rebindKey(keyBindings, listeningFor.control, listeningFor.slot, key));
+      setListeningFor(null);
+      setNotice(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [listeningFor, keyBindings, onKeyBindingsChange]);
+
+  const showView = (next: PauseView) => {
+    setView(next);
+    setListeningFor(null);
+    setNotice(null);
+  };
+
+  const volumeSlider = (label: string, value: number, onChange: (value: number) => void) => (
+    <label className="block">
+      <div className="flex justify-between text-sm text-slate-700">
+        <span className="font-medium">{label}</span>
+        <span className="text-slate-500">{Math.round(value * 100)}%</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={Math.round(value * 100)}
+        onChange={(e) => onChange(Number(e.target.value) / 100)}
+        className="w-full accent-purple-600"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onResume}></div>
+
+      <div className="relative bg-white rounded-xl shadow-2xl overflow-hidden" style={{ width: '300px' }}>
+        <div className="bg-gradient-to-r from-purple-600 to-indigo-600 px-4 py-3 text-center">
+          <h3 className="text-white font-bold text-lg">
+            {view === "main" ? "⏸️ Paused" : view === "audio" ? "🔊 Sound" : "⌨️ Controls"}
+          </h3>
+        </div>
+
+        <div className="p-4">
+          {view === "main" && (
+            <div className="space-y-1.5">
+              <button
+                onClick={onResume}
+                className="w-full rounded-lg bg-green-500 hover:bg-green-600 py-2 text-sm font-bold text-white transition-all"
+              >
+                ▶ Resume
+              </button>
+              <button onClick={onRestart} className={menuButtonClass}>
+                🔄 Restart Level{restartCostsLife && " (-1 💖)"}
+              </button>
+              <button onClick={onLevelSelect} className={menuButtonClass}>📋 Level Select</button>
+              <button onClick={() => showView("audio")} className={menuButtonClass}>🔊 Sound</button>
+              <button onClick={() => showView("controls")} className={menuButtonClass}>⌨️ Controls</button>
+              {onEditTouchLayout && (
+                <button onClick={onEditTouchLayout} className={menuButtonClass}>📱 Touch Layout</button>
+              )}
+              <p className="pt-1 text-center text-xs text-slate-400">Press Esc or P to resume</p>
+            </div>
+          )}
+
+          {view === "audio" && (
+            <div className="space-y-3">
+              <label className="flex items-center justify-between text-sm font-medium text-slate-700">
+                <span>Mute all sound</span>
+                <input
+                  type="checkbox"
+                  checked={audioSettings.muted}
+                  onChange={(e) => onAudioSettingsChange({ ...audioSettings, muted: e.target.checked })}
+                  className="h-4 w-4 accent-purple-600"
+                />
+              </label>
+              {volumeSlider("Music", audioSettings.musicVolume, (musicVolume) =>
+                onAudioSettingsChange({ ...audioSettings, musicVolume })
+              )}
+              {volumeSlider("Effects", audioSettings.effectsVolume, (effectsVolume) =>
+                onAudioSettingsChange({ ...audioSettings, effectsVolume })
+              )}
+              <button onClick={() => showView("main")} className={menuButtonClass}>← Back</button>
+            </div>
+          )}
+
+          {view === "controls" && (
+            <div className="space-y-1.5">
+              <p className="text-xs text-slate-500">
+                Click a key, then press its replacement. Gamepads use A jump, X shoot, B melee,
+                Y switch, bumpers for doors and bombs.
+              </p>
+              {INPUT_CONTROL_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center justify-between gap-2 text-sm text-slate-700">
+                  <span className="font-medium">{option.label}</span>
+                  <div className="flex gap-1">
+                    {Array.from({ length: MAX_KEYS_PER_CONTROL }).map((_, slot) => {
+                      const listening = listeningFor?.control === option.value && listeningFor.slot === slot;
+                      const key = keyBindings[option.value][slot];
+                      return (
+                        <button
+                          key={slot}
+                          onClick={() => {
+                            setListeningFor({ control: option.value, slot });
+                            setNotice(null);
+                          }}
+                          className={`min-w-[56px] rounded px-2 py-1 font-mono text-xs font-bold transition-all ${
+                            listening
+                              ? "bg-purple-600 text-white animate-pulse"
+                              : "bg-slate-200 hover:bg-slate-300"
+                          }`}
+                        >
+                          {listening ? "…" : key ? formatKeyLabel(key) : "—"}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {notice && <p className="text-xs font-medium text-red-500">{notice}</p>}
+              <button
+                onClick={() => {
+                  onKeyBindingsChange(DEFAULT_KEY_BINDINGS);
+                  setListeningFor(null);
+                  setNotice(null);
+                }}
+                className={menuButtonClass}
+              >
+                ↺ Reset to Defaults
+              </button>
+              <button onClick={() => showView("main")} className={menuButtonClass}>← Back</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { MAX_STARS } from "../state/scoring";
+import type { CampaignState, GameState, ScoreBreakdown } from "../types";
+
+interface ResultsScreenProps {
+  levelNumber: number;
+  finalState: GameState;
+  score: ScoreBreakdown;
+  stars: number;
+  bestTime: number | null;   // Personal best time in seconds; null hides it (signed-out players)
+  newBest: boolean;
+  campaign?: CampaignState | null;   // Campaign totals including this level, when playing one
+  hasNextLevel: boolean;
+  onNextLevel: () => void;
+  onRetry?: () => void;              // Not offered in a campaign, where a level's score only counts once
+  onLevelSelect: () => void;
+}
+
+/**
+ * Level complete overlay - stars earned, what the run scored and where each part came from
+ */
+export default function ResultsScreen({
+  levelNumber,
+  finalState,
+  score,
+  stars,
+  bestTime,
+  newBest,
+  campaign = null,
+  hasNextLevel,
+  onNextLevel,
+  onRetry,
+  onLevelSelect
+}: ResultsScreenProps): JSX.Element {
+  const rows = [
+    { icon: "🪙", label: "Coins", detail: `${finalState.coins}`, points: score.coins },
+    { icon: "👾", label: "Monsters", detail: `${finalState.monstersKilled}`, points: score.monsters },
+    { icon: "❤️", label: "Health left", detail: `${finalState.health}/${finalState.maxHealth}`, points: score.health },
+    { icon: "⏱️", label: "Time", detail: `${finalState.time}s`, points: score.time },
+    { icon: "💀", label: "Deaths", detail: `${finalState.deaths}`, points: score.deaths }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/70 backdrop-blur-sm"></div>
+
+      <div className="relative bg-white rounded-xl shadow-2xl overflow-hidden" style={{ width: '300px' }}>
+        <div className="bg-gradient-to-r from-purple-600 to-indigo-600 px-4 py-3 text-center">
+          <h3 className="text-white font-bold text-lg">🏆 Level {levelNumber} Complete!</h3>
+        </div>
+
+        <div className="p-4">
+          <div className="mb-3 flex justify-center gap-1 text-3xl" title={`${stars} of ${MAX_STARS} stars`}>
+            {Array.from({ length: MAX_STARS }).map((_, i) => (
+              <span key={i} className={i < stars ? "" : "opacity-20 grayscale"}>⭐</span>
+            ))}
+          </div>
+
+          <table className="w-full text-sm text-slate-700">
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <td className="py-1 pr-2">{row.icon}</td>
+                  <td className="py-1 font-medium">{row.label}</td>
+                  <td className="py-1 text-right text-slate-500">{row.detail}</td>
+                  <td className={`py-1 pl-3 text-right font-bold ${row.points < 0 ? 'text-red-500' : 'text-slate-800'}`}>
+                    {row.points > 0 ? `+${row.points}` : row.points}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-3 flex items-center justify-between border-t-2 border-slate-100 pt-3">
+            <span className="font-bold text-slate-800">Score</span>
+            <span className="text-2xl font-bold bg-gradient-to-r from-brandStart to-brandEnd bg-clip-text text-transparent">
+              {score.total}
+            </span>
+          </div>
+
+          {bestTime !== null && (
+            <div className="mt-1 flex items-center justify-between text-sm text-slate-600">
+              <span>🏅 Personal best</span>
+              <span className="font-bold">
+                {newBest && <span className="mr-1.5 text-green-600">New best!</span>}
+                {bestTime}s
+              </span>
+            </div>
+          )}
+
+          {campaign && (
+            <div className="mt-3 rounded-lg bg-purple-50 px-3 py-2 text-sm text-purple-900">
+              <div className="flex justify-between">
+                <span className="font-medium">{hasNextLevel ? "🗺️ Campaign score" : "🎉 Campaign complete!"}</span>
+                <span className="font-bold">{campaign.score}</span>
+              </div>
+              <div className="flex justify-between text-xs text-purple-700">
+                <span>💖 {campaign.lives} lives left</span>
+                <span>❤️ Max health {campaign.maxHealth}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="mt-4 space-y-1.5">
+            {hasNextLevel && (
+              <button
+                onClick={onNextLevel}
+                className="w-full rounded-lg bg-green-500 hover:bg-green-600 py-2 text-sm font-bold text-white transition-all"
+              >
+                ⏭️ Next Level
+              </button>
+            )}
+            {onRetry && (
+              <button
+                onClick={onRetry}
+                className="w-full rounded-lg bg-slate-100 hover:bg-slate-200 py-2 text-sm font-bold text-slate-700 transition-all"
+              >
+                🔄 Retry
+              </button>
+            )}
+            <button
+              onClick={onLevelSelect}
+              className="w-full rounded-lg bg-slate-100 hover:bg-slate-200 py-2 text-sm font-bold text-slate-700 transition-all"
+            >
+              📋 Level Select
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { validateStarThresholds } from "../state/editorState";
+import type { StarThresholds } from "../types";
+
+interface StarThresholdsFieldProps {
+  value: StarThresholds;
+  onCommit: (value: StarThresholds) => void;
+}
+
+/**
+ * Editor inputs for the scores a level needs for one, two and three stars
+ * Like the inspector's number fields, drafts only commit once all three are valid together
+ */
+export default function StarThresholdsField({ value, onCommit }: StarThresholdsFieldProps): JSX.Element {
+  const [drafts, setDrafts] = useState<string[]>(value.map(String));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow outside changes (loading another level)
+  useEffect(() => {
+    setDrafts(value.map(String));
+    setError(null);
+  }, [value]);
+
+  const handleChange = (index: number, text: string) => {
+    const nextDrafts = drafts.map((draft, i) => (i === index ? text : draft));
+    setDrafts(nextDrafts);
+    const parsed = nextDrafts.map((draft) => (draft.trim() === "" ? NaN : Number(draft)));
+    const message = validateStarThresholds(parsed);
+    setError(message);
+    if (!message) {
+      onCommit([parsed[0], parsed[1], parsed[2]]);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        {drafts.map((draft, index) => (
+          <label key={index} className="block w-full">
+            <span className="text-xs text-slate-500">{"⭐".repeat(index + 1)}</span>
+            <input
+              type="number"
+              step={100}
+              min={0}
+              value={draft}
+              onChange={(e) => handleChange(index, e.target.value)}
+              className={`w-full rounded-lg border-2 p-2 text-sm focus:outline-none ${
+                error ? "border-red-400 focus:border-red-500" : "border-slate-200 focus:border-purple-400"
+              }`}
+            />
+          </label>
+        ))}
+      </div>
+      {error && <span className="mt-0.5 block text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -1,29 +1,115 @@
-import React from "react";
+import React, { useRef, useState } from "react";
+import { readStickDirection, type InputControl } from "../state/input";
+import {
+  DEFAULT_TOUCH_LAYOUT,
+  getVisibleTouchButtons,
+  moveTouchButton,
+  resizeTouchButton,
+  TOUCH_BUTTON_CONTROLS
+} from "../state/touchLayout";
+import type { TouchButtonId, TouchLayout } from "../types";
 
 interface TouchControlsProps {
-  onLeftStart: () => void;
-  onLeftEnd: () => void;
-  onRightStart: () => void;
-  onRightEnd: () => void;
-  onJump: () => void;
-  onActionStart: () => void;
-  onActionEnd: () => void;
+  layout: TouchLayout;
+  editing: boolean;                             // Drag and resize the buttons instead of playing
+  onPress: (control: InputControl) => void;     // Everything goes through the shared input layer
+  onRelease: (control: InputControl) => void;
+  onLayoutChange: (layout: TouchLayout) => void;
+  onEditDone: () => void;
+}
+
+type ButtonFace = { label: string; image?: string; emoji?: string };
+
+const BUTTON_FACES: Record<Exclude<TouchButtonId, "joystick">, ButtonFace> = {
+  left: { label: "Move Left", image: "/Images/Control/Left Arrow.png" },
+  right: { label: "Move Right", image: "/Images/Control/Right Arrow.png" },
+  jump: { label: "Jump", image: "/Images/Control/Jump Button.png" },
+  fire: { label: "Shoot", image: "/Images/Control/Action Button.png" },
+  melee: { label: "Melee", emoji: "🗡️" },
+  switchWeapon: { label: "Switch Weapon", emoji: "🔄" },
+  bomb: { label: "Place Bomb", emoji: "💣" },
+  door: { label: "Open Door", emoji: "🚪" }
+};
+
+interface JoystickProps {
+  size: number;
+  onPress: (control: InputControl) => void;
+  onRelease: (control: InputControl) => void;
+}
+
+// Horizontal stick: pushing past the deadzone holds left or right
+function Joystick({ size, onPress, onRelease }: JoystickProps) {
+  const [offset, setOffset] = useState(0);
+  const directionRef = useRef<-1 | 0 | 1>(0);
+  const centreRef = useRef(0);
+  const radius = size / 2;
+
+  const setDirection = (direction: -1 | 0 | 1) => {
+    const previous = directionRef.current;
+    if (direction === previous) return;
+    if (previous < 0) onRelease("moveLeft");
+    if (previous > 0) onRelease("moveRight");
+    if (direction < 0) onPress("moveLeft");
+    if (direction > 0) onPress("moveRight");
+    directionRef.current = direction;
+  };
+
+  const track = (clientX: number) => {
+    const dx = Math.min(radius, Math.max(-radius, clientX - centreRef.current));
+    setOffset(dx);
+    setDirection(readStickDirection(dx / radius));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    centreRef.current = rect.left + rect.width / 2;
+    track(e.changedTouches[0].clientX);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const touch = e.targetTouches[0] ?? e.changedTouches[0];
+    track(touch.clientX);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setOffset(0);
+    setDirection(0);
+  };
+
+  return (
+    <div
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+      className="touch-joystick"
+      aria-label="Movement stick"
+    >
+      <div
+        className="touch-joystick-knob"
+        style={{ width: size * 0.45, height: size * 0.45, transform: `translateX(${offset}px)` }}
+      />
+    </div>
+  );
 }
 
 /**
- * On-screen touch controls for mobile landscape mode
- * Positioned at bottom corners to avoid covering gameplay
- * Action button: Short press = shoot, Long press = door/bomb
+ * On-screen touch controls for mobile. Buttons sit wherever the player's layout puts them;
+ * in editing mode they can be dragged around and resized from the handle on their edge.
  */
 export function TouchControls({
-  onLeftStart,
-  onLeftEnd,
-  onRightStart,
-  onRightEnd,
-  onJump,
-  onActionStart,
-  onActionEnd,
+  layout,
+  editing,
+  onPress,
+  onRelease,
+  onLayoutChange,
+  onEditDone,
 }: TouchControlsProps) {
+  const dragRef = useRef<{ id: TouchButtonId; mode: "move" | "resize" } | null>(null);
+
   // Prevent default touch behavior to avoid scrolling/zooming
   const handleTouchStart = (handler: () => void) => (e: React.TouchEvent) => {
     e.preventDefault();
@@ -35,90 +121,137 @@ export function TouchControls({
     handler();
   };
 
+  const startDrag = (id: TouchButtonId, mode: "move" | "resize") => (e: React.PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { id, mode };
+  };
+
+  const handleDragMove = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.mode === "move") {
+      onLayoutChange(moveTouchButton(layout, drag.id, e.clientX / window.innerWidth, e.clientY / window.innerHeight));
+    } else {
+      // The handle sits on the button's edge, so twice its distance from the centre is the new size
+      const placement = layout.buttons[drag.id];
+      const distance = Math.hypot(
+        e.clientX - placement.x * window.innerWidth,
+        e.clientY - placement.y * window.innerHeight
+      );
+      onLayoutChange(resizeTouchButton(layout, drag.id, distance * 2));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const renderFace = (face: ButtonFace, size: number) =>
+    face.image ? (
+      <img
+        src={face.image}
+        alt={face.label}
+        className="w-full h-full object-contain pointer-events-none"
+        draggable={false}
+      />
+    ) : (
+      <span className="pointer-events-none leading-none" style={{ fontSize: size * 0.4 }}>{face.emoji}</span>
+    );
+
+  const renderControl = (id: TouchButtonId) => {
+    const { size } = layout.buttons[id];
+
+    if (id === "joystick") {
+      return editing ? <div className="touch-joystick" /> : <Joystick size={size} onPress={onPress} onRelease={onRelease} />;
+    }
+
+    const control = TOUCH_BUTTON_CONTROLS[id];
+    const face = BUTTON_FACES[id];
+    if (editing) {
+      return <div className="touch-button">{renderFace(face, size)}</div>;
+    }
+    return (
+      <button
+        onTouchStart={handleTouchStart(() => onPress(control))}
+        onTouchEnd={handleTouchEnd(() => onRelease(control))}
+        onTouchCancel={handleTouchEnd(() => onRelease(control))}
+        className="touch-button"
+        aria-label={face.label}
+      >
+        {renderFace(face, size)}
+      </button>
+    );
+  };
+
   return (
     <>
-      {/* Left Side Controls - Movement */}
-      <div
-        className="fixed flex gap-4 z-40"
-        style={{
-          left: "calc(max(0.5rem, env(safe-area-inset-left)) + 25px)",
-          bottom: "calc(max(0.5rem, env(safe-area-inset-bottom)) + 40px)",
-        }}
-      >
-        {/* Left Arrow */}
-        <button
-          onTouchStart={handleTouchStart(onLeftStart)}
-          onTouchEnd={handleTouchEnd(onLeftEnd)}
-          className="touch-button"
-          aria-label="Move Left"
-        >
-          <img
-            src="/Images/Control/Left Arrow.png"
-            alt="Left"
-            className="w-full h-full object-contain pointer-events-none"
-            draggable={false}
-          />
-        </button>
-
-        {/* Right Arrow */}
-        <button
-          onTouchStart={handleTouchStart(onRightStart)}
-          onTouchEnd={handleTouchEnd(onRightEnd)}
-          className="touch-button"
-          aria-label="Move Right"
-        >
-          <img
-            src="/Images/Control/Right Arrow.png"
-            alt="Right"
-            className="w-full h-full object-contain pointer-events-none"
-            draggable={false}
-          />
-        </button>
-      </div>
+      <div className={`fixed inset-0 ${editing ? 'z-[110] bg-black/40' : 'z-40 pointer-events-none'}`}>
+        {editing && (
+          <div className="absolute left-1/2 top-2 -translate-x-1/2 flex items-center gap-1.5 rounded-xl bg-white/95 px-2 py-1.5 shadow-2xl text-xs font-bold text-slate-700">
+            <button
+              onClick={() => onLayoutChange({ ...layout, movement: layout.movement === "buttons" ? "joystick" : "buttons" })}
+              className="rounded-lg bg-slate-100 px-2 py-1"
+            >
+              {layout.movement === "buttons" ? "⬅️➡️ Buttons" : "🕹️ Joystick"}
+            </button>
+            <button
+              onClick={() => onLayoutChange({ ...layout, haptics: !layout.haptics })}
+              className="rounded-lg bg-slate-100 px-2 py-1"
+            >
+              📳 Vibration {layout.haptics ? "On" : "Off"}
+            </button>
+            <button
+              onClick={() => onLayoutChange(DEFAULT_TOUCH_LAYOUT)}
+              className="rounded-lg bg-slate-100 px-2 py-1"
+            >
+              ↺ Reset
+            </button>
+            <button onClick={onEditDone} className="rounded-lg bg-green-500 px-3 py-1 text-white">
+              ✓ Done
+            </button>
+          </div>
+        )}
 
-      {/* Right Side Controls - Actions */}
-      <div
-        className="fixed flex flex-col gap-2 z-40"
-        style={{
-          right: "calc(max(0.5rem, env(safe-area-inset-right)) + 15px)",
-          bottom: "calc(max(0.5rem, env(safe-area-inset-bottom)) + 40px)",
-        }}
-      >
-        {/* Jump Button (Up) */}
-        <button
-          onTouchStart={handleTouchStart(onJump)}
-          className="touch-button"
-          aria-label="Jump"
-        >
-          <img
-            src="/Images/Control/Jump Button.png"
-            alt="Jump"
-            className="w-full h-full object-contain pointer-events-none"
-            draggable={false}
-          />
-        </button>
-
-        {/* Action Button (Short press: shoot, Long press: door/bomb) */}
-        <button
-          onTouchStart={handleTouchStart(onActionStart)}
-          onTouchEnd={handleTouchEnd(onActionEnd)}
-          className="touch-button"
-          aria-label="Action"
-        >
-          <img
-            src="/Images/Control/Action Button.png"
-            alt="Action"
-            className="w-full h-full object-contain pointer-events-none"
-            draggable={false}
-          />
-        </button>
+        {getVisibleTouchButtons(layout).map((id) => {
+          const { x, y, size } = layout.buttons[id];
+          return (
+            <div
+              key={id}
+              className={`absolute pointer-events-auto ${editing ? 'touch-editing' : ''}`}
+              style={{
+                left: `${x * 100}%`,
+                top: `${y * 100}%`,
+                width: size,
+                height: size,
+                transform: "translate(-50%, -50%)"
+              }}
+              onPointerDown={editing ? startDrag(id, "move") : undefined}
+              onPointerMove={editing ? handleDragMove : undefined}
+              onPointerUp={editing ? endDrag : undefined}
+            >
+              {renderControl(id)}
+              {editing && (
+                <div
+                  className="touch-resize-handle"
+                  onPointerDown={startDrag(id, "resize")}
+                  onPointerMove={handleDragMove}
+                  onPointerUp={endDrag}
+                  aria-label="Resize"
+                />
+              )}
+            </div>
+          );
+        })}
       </div>
 
       {/* Touch Control Styles */}
       <style>{`
         .touch-button {
-          width: 65px;
-          height: 65px;
+          width: 100%;
+          height: 100%;
           background: rgba(255, 255, 255, 0.15);
           backdrop-filter: blur(8px);
           border: 2px solid rgba(255, 255, 255, 0.3);
@@ -146,6 +279,51 @@ export function TouchControls({
                       inset 0 0 20px rgba(124, 58, 237, 0.3);
         }
 
+        .touch-joystick {
+          width: 100%;
+          height: 100%;
+          border-radius: 50%;
+          background: rgba(255, 255, 255, 0.12);
+          border: 2px solid rgba(255, 255, 255, 0.3);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          touch-action: none;
+          user-select: none;
+          -webkit-user-select: none;
+          -webkit-tap-highlight-color: transparent;
+        }
+
+        .touch-joystick-knob {
+          border-radius: 50%;
+          background: rgba(255, 255, 255, 0.5);
+          box-shadow: 0 0 16px rgba(124, 58, 237, 0.6);
+          pointer-events: none;
+        }
+
+        .touch-editing {
+          touch-action: none;
+          outline: 2px dashed rgba(255, 255, 255, 0.8);
+          outline-offset: 4px;
+          border-radius: 50%;
+          cursor: move;
+        }
+
+        /* On the button's edge, down and to the right of its centre */
+        .touch-resize-handle {
+          position: absolute;
+          left: 85.4%;
+          top: 85.4%;
+          transform: translate(-50%, -50%);
+          width: 22px;
+          height: 22px;
+          border-radius: 50%;
+          background: rgb(124, 58, 237);
+          border: 2px solid white;
+          cursor: nwse-resize;
+          touch-action: none;
+        }
+
         /* Prevent image dragging and selection */
         .touch-button img {
           -webkit-user-drag: none;
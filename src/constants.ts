@@ -1,4 +1,6 @@
-import type { BackgroundKey } from "./types";
+import { TILESET } from "./tileset";
+import type { InputControl } from "./state/input";
+import type { AudioSettings, BackgroundKey, DrawMode, KeyChannel, MonsterKind, Tool, WeaponKind } from "./types";
 
 export const THEMES = {
   sky: { bg: "#87CEEB", name: "Sky Blue" },
@@ -25,25 +27,87 @@ export const BACKGROUND_OPTIONS: { value: BackgroundKey; label: string }[] = [
   { value: "bg6", label: "Background 6" }
 ];
 
-export const TOOL_OPTIONS = [
-  {
-    label: "Terrain",
-    tools: [
-      { id: "empty", name: "Empty", icon: "⬜" },
-      { id: "wall", name: "Wall", icon: "⬛" },
-      { id: "stone", name: "Stone", icon: "🟦" },
-      { id: "lava", name: "Lava", icon: "🟥" },
-      { id: "platform", name: "Platform", icon: "🟫" },
-      { id: "grassstone", name: "Grass+Stone", icon: "🟩" },
-      { id: "grass", name: "Grass", icon: "🌱" },
-      { id: "soil", name: "Soil", icon: "🟤" }
-    ]
-  },
+export const DEFAULT_KEY_CHANNEL: KeyChannel = "gold";
+
+export const KEY_CHANNEL_OPTIONS: { value: KeyChannel; label: string; color: string }[] = [
+  { value: "gold", label: "Gold", color: "#f6c343" },
+  { value: "red", label: "Red", color: "#ef4444" },
+  { value: "blue", label: "Blue", color: "#3b82f6" },
+  { value: "green", label: "Green", color: "#22c55e" }
+];
+
+export const KEY_CHANNEL_COLORS = Object.fromEntries(
+  KEY_CHANNEL_OPTIONS.map((option) => [option.value, option.color])
+) as Record<KeyChannel, string>;
+
+export const MONSTER_KIND_OPTIONS: { value: MonsterKind; label: string; tool: Tool }[] = [
+  { value: "patrol", label: "Patroller", tool: "monster" },
+  { value: "chaser", label: "Chaser", tool: "chaser" },
+  { value: "jumper", label: "Jumper", tool: "jumper" },
+  { value: "flyer", label: "Flyer", tool: "flyer" },
+  { value: "turret", label: "Turret", tool: "turret" }
+];
+
+// Pistol first: it is what levels saved before weapon kinds existed contain
+export const WEAPON_KIND_OPTIONS: { value: WeaponKind; label: string; icon: string; tool: Tool }[] = [
+  { value: "pistol", label: "Pistol", icon: "🔫", tool: "weapon" },
+  { value: "spread", label: "Spread Gun", icon: "🔱", tool: "spreadgun" },
+  { value: "piercing", label: "Piercer", icon: "🏹", tool: "piercer" },
+  { value: "grenade", label: "Grenades", icon: "🧨", tool: "grenade" }
+];
+
+// Rebindable controls, in the order the controls menu lists them
+export const INPUT_CONTROL_OPTIONS: { value: InputControl; label: string }[] = [
+  { value: "moveLeft", label: "Move left" },
+  { value: "moveRight", label: "Move right" },
+  { value: "jump", label: "Jump" },
+  { value: "fire", label: "Shoot" },
+  { value: "melee", label: "Melee swipe" },
+  { value: "switchWeapon", label: "Switch weapon" },
+  { value: "bomb", label: "Place bomb" },
+  { value: "openDoor", label: "Open door" }
+];
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  muted: false,
+  musicVolume: 1,
+  effectsVolume: 1
+};
+
+export const DRAW_MODE_OPTIONS: { value: DrawMode; label: string; icon: string }[] = [
+  { value: "brush", label: "Brush", icon: "🖌️" },
+  { value: "rect", label: "Rectangle", icon: "⬛" },
+  { value: "rectOutline", label: "Outline", icon: "🔲" },
+  { value: "line", label: "Line", icon: "📏" },
+  { value: "fill", label: "Fill", icon: "🪣" },
+  { value: "select", label: "Select", icon: "⛶" },
+  { value: "inspect", label: "Inspect", icon: "🔍" }
+];
+
+type ToolSection = { label: string; tools: { id: Tool; name: string; icon: string }[] };
+
+// Tileset tiles grouped by their manifest category, with the eraser leading the terrain section
+function buildTileSections(): ToolSection[] {
+  const sections: ToolSection[] = [{ label: "Terrain", tools: [{ id: "empty", name: "Empty", icon: "⬜" }] }];
+  TILESET.forEach((tile) => {
+    let section = sections.find((candidate) => candidate.label === tile.category);
+    if (!section) {
+      section = { label: tile.category, tools: [] };
+      sections.push(section);
+    }
+    section.tools.push({ id: tile.tool, name: tile.name, icon: tile.icon });
+  });
+  return sections;
+}
+
+export const TOOL_OPTIONS: ToolSection[] = [
+  ...buildTileSections(),
   {
     label: "Objects",
     tools: [
       { id: "player", name: "Player", icon: "🟢" },
       { id: "goal", name: "Goal", icon: "⭐" },
+      { id: "checkpoint", name: "Checkpoint", icon: "🚩" },
       { id: "key", name: "Key", icon: "🗝️" },
       { id: "door", name: "Door", icon: "🟪" }
     ]
@@ -52,7 +116,15 @@ export const TOOL_OPTIONS = [
     label: "Combat",
     tools: [
       { id: "monster", name: "Monster", icon: "👾" },
-      { id: "weapon", name: "Weapon", icon: "🔫" },
+      { id: "chaser", name: "Chaser", icon: "🐺" },
+      { id: "jumper", name: "Jumper", icon: "🐸" },
+      { id: "flyer", name: "Flyer", icon: "🦇" },
+      { id: "turret", name: "Turret", icon: "🗼" },
+      { id: "boss", name: "Boss", icon: "👹" },
+      { id: "weapon", name: "Pistol", icon: "🔫" },
+      { id: "spreadgun", name: "Spread Gun", icon: "🔱" },
+      { id: "piercer", name: "Piercer", icon: "🏹" },
+      { id: "grenade", name: "Grenades", icon: "🧨" },
       { id: "bomb", name: "Bomb", icon: "💣" }
     ]
   },
@@ -62,6 +134,21 @@ export const TOOL_OPTIONS = [
       { id: "firetrap", name: "Fire Trap", icon: "🔥" },
       { id: "spiketrap", name: "Spike Trap", icon: "🏮" }
     ]
+  },
+  {
+    label: "Platforms",
+    tools: [
+      { id: "movingplatform", name: "Moving", icon: "↔️" },
+      { id: "crumbleplatform", name: "Crumbling", icon: "🧱" }
+    ]
+  },
+  {
+    label: "Logic",
+    tools: [
+      { id: "lever", name: "Lever", icon: "🕹️" },
+      { id: "plate", name: "Pressure Plate", icon: "⏏️" },
+      { id: "button", name: "Timed Button", icon: "🔴" }
+    ]
   }
-] as const;
+];
 
@@ -22,6 +22,13 @@ const audioSources: Record<AudioKey, string> = {
 
 export type AudioMap = Record<AudioKey, HTMLAudioElement>;
 
+// Mix levels at full volume; the player's settings scale these
+function getBaseVolume(key: AudioKey): number {
+  if (key === "bgMusic") return 0.4;
+  if (key === "jump") return 0.25;
+  return 0.5;
+}
+
 export function useAudio(): {
   audio: AudioMap;
   loaded: boolean;
@@ -30,6 +37,7 @@ export function useAudio(): {
   playBackgroundMusic: () => void;
   stopBackgroundMusic: () => void;
   setMuted: (muted: boolean) => void;
+  setVolumes: (musicVolume: number, effectsVolume: number) => void;
   enableAudio: () => Promise<void>;
 } {
   const [loaded, setLoaded] = useState(false);
@@ -44,13 +52,9 @@ export function useAudio(): {
       const audio = new Audio(src);
       audio.preload = "auto";
 
+      audio.volume = getBaseVolume(key as AudioKey);
       if (key === "bgMusic") {
         audio.loop = true;
-        audio.volume = 0.4;
-      } else if (key === "jump") {
-        audio.volume = 0.25;
-      } else {
-        audio.volume = 0.5;
       }
 
       audioMap[key as AudioKey] = audio;
@@ -140,6 +144,13 @@ export function useAudio(): {
     Object.values(audio).forEach((a) => (a.muted = muted));
   };
 
+  const setVolumes = (musicVolume: number, effectsVolume: number) => {
+    (Object.keys(audio) as AudioKey[]).forEach((key) => {
+      const scale = key === "bgMusic" ? musicVolume : effectsVolume;
+      audio[key].volume = getBaseVolume(key) * Math.min(1, Math.max(0, scale));
+    });
+  };
+
   return {
     audio,
     loaded,
@@ -148,6 +159,7 @@ export function useAudio(): {
     playBackgroundMusic,
     stopBackgroundMusic,
     setMuted,
+    setVolumes,
     enableAudio,
   };
 }
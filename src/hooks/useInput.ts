@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import type { KeyMap, PlayerAction } from "../state/gameLoop";
+import {
+  clearInput,
+  createInputState,
+  getMovementKeys,
+  isPauseKey,
+  pollGamepad,
+  pressControl,
+  pressKey,
+  releaseControl,
+  releaseKey,
+  takeInputActions,
+  type GamepadSnapshot,
+  type InputControl,
+  type KeyBindings
+} from "../state/input";
+import { loadKeyBindings, saveKeyBindings } from "../utils/storage";
+
+interface UseInputOptions {
+  active: boolean;        // Keyboard and gamepad input is dropped while false (paused, editor not testing)
+  onPause?: () => void;   // Esc, P or Start. Without it those keys are left alone
+}
+
+function getConnectedGamepad(): GamepadSnapshot | null {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) {
+    return null;
+  }
+  return navigator.getGamepads().find((pad): pad is Gamepad => pad !== null && pad.connected) ?? null;
+}
+
+/**
+ * Keyboard, gamepad and on-screen controls merged into the input the simulation reads.
+ * Call `poll` once per animation frame; `readKeys` and `takeActions` give each tick's input.
+ */
+export function useInput({ active, onPause }: UseInputOptions): {
+  bindings: KeyBindings;
+  setBindings: (bindings: KeyBindings) => void;
+  poll: () => void;
+  readKeys: () => KeyMap;
+  takeActions: () => PlayerAction[];
+  press: (control: InputControl) => void;
+  release: (control: InputControl) => void;
+} {
+  const [bindings, setBindingsState] = useState<KeyBindings>(() => loadKeyBindings());
+  const inputRef = useRef(createInputState());
+  const bindingsRef = useRef(bindings);
+  const activeRef = useRef(active);
+  const onPauseRef = useRef(onPause);
+
+  bindingsRef.current = bindings;
+  onPauseRef.current = onPause;
+
+  useEffect(() => {
+    activeRef.current = active;
+    if (!active) {
+      // Keys let go of while inactive never reach us, so forget what was held
+      clearInput(inputRef.current);
+    }
+  }, [active]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (onPauseRef.current && isPauseKey(e.key)) {
+        if (!e.repeat) onPauseRef.current();
+        return;
+      }
+      if (!activeRef.current) return;
+
+      const control = pressKey(inputRef.current, e.key, bindingsRef.current);
+      if (control === "jump") e.preventDefault();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      releaseKey(inputRef.current, e.key);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, []);
+
+  const setBindings = (next: KeyBindings) => {
+    setBindingsState(next);
+    saveKeyBindings(next);
+  };
+
+  const poll = () => {
+    const input = inputRef.current;
+    const { pausePressed } = pollGamepad(input, getConnectedGamepad());
+    if (pausePressed) {
+      onPauseRef.current?.();
+    }
+    if (!activeRef.current) {
+      takeInputActions(input);
+    }
+  };
+
+  return {
+    bindings,
+    setBindings,
+    poll,
+    readKeys: () => getMovementKeys(inputRef.current, bindingsRef.current),
+    takeActions: () => takeInputActions(inputRef.current),
+    press: (control) => {
+      if (activeRef.current) pressControl(inputRef.current, control);
+    },
+    release: (control) => releaseControl(inputRef.current, control)
+  };
+}
@@ -1,14 +1,10 @@
 import { useEffect, useMemo, useState } from "react";
+import { TILESET, type TileDefinition, type TileTool } from "../tileset";
 import { logWarning } from "../utils/logger";
 
+// Terrain textures are keyed by their tileset tool id
 type TextureKey =
-  | "wall"
-  | "stone"
-  | "lava"
-  | "platform"
-  | "grassstone"
-  | "grass"
-  | "soil"
+  | TileTool
   | "key"
   | "bomb"
   | "lock"
@@ -32,14 +28,10 @@ type TextureKey =
   | "spikeTrapBlock"
   | "spike";
 
-const textureSources: Record<TextureKey, string> = {
-  wall: "/Images/Wall.webp",
-  stone: "/Images/Stone.webp",
-  lava: "/Images/Lava.png",
-  platform: "/Images/Wood Platform.webp",
-  grassstone: "/Images/Grass-Stone-Block.jpg",
-  grass: "/Images/Grass-Block.webp",
-  soil: "/Images/Soil.webp",
+const textureSources: Partial<Record<TextureKey, string>> = {
+  ...Object.fromEntries(
+    TILESET.flatMap((tile: TileDefinition) => (tile.texture ? [[tile.tool, tile.texture]] : []))
+  ),
   key: "/Images/Key.png",
   bomb: "/Images/Bomb-Lev-1.webp",
   lock: "/Images/Lock-Normal.png",
@@ -85,7 +77,7 @@ export function useTextures(): {
 
     keys.forEach((key) => {
       const image = new Image();
-      image.src = textureSources[key];
+      image.src = textureSources[key] ?? "";
       image.onload = () => {
         if (cancelled) return;
         images[key] = image;
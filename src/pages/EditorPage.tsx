@@ -1,38 +1,77 @@
 import { useEffect, useRef, useReducer } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
-import { BACKGROUND_OPTIONS, TOOL_OPTIONS } from "../constants";
+import { BACKGROUND_OPTIONS, DRAW_MODE_OPTIONS, KEY_CHANNEL_OPTIONS, TOOL_OPTIONS } from "../constants";
 import { logError } from "../utils/logger";
 import { useTextures } from "../hooks/useTextures";
-import { drawEditorCanvas } from "../canvas/editorCanvas";
+import { useInput } from "../hooks/useInput";
+import { drawEditorCanvas, type ReachabilityOverlay } from "../canvas/editorCanvas";
 import { drawGameCanvas } from "../canvas/gameCanvas";
+import AmmoCounter from "../components/AmmoCounter";
+import KeyCounter from "../components/KeyCounter";
+import ObjectInspector from "../components/ObjectInspector";
+import StarThresholdsField from "../components/StarThresholdsField";
 import {
   applyToolAtPosition,
+  applyToolToCells,
   clearEditorState,
+  clearRegion,
+  copyRegion,
   createInitialEditorState,
   createLevelFromEditorState,
   fillBorder,
+  findInspectableAt,
+  flipRegion,
+  floodFill,
+  getShapeCells,
+  isInsideRect,
+  isTriggerLinkTarget,
+  moveRegion,
+  normalizeRect,
+  pasteRegion,
   resizeGrid,
-  applyLevelToEditorState
+  toggleTriggerLink,
+  toggleWaypoint,
+  updateMonsterAt,
+  applyLevelToEditorState,
+  type EditorClipboard,
+  type InspectedObject
 } from "../state/editorState";
+import { buildGameStateFromLevel, createInitialGameState } from "../state/gameState";
 import {
-  buildGameStateFromLevel,
-  createInitialGameState,
-  createPlacedBomb,
-  createPlayerBullet,
-  jump
-} from "../state/gameState";
-import { updateGameFrame, type KeyMap } from "../state/gameLoop";
+  advanceFixedStepClock,
+  createFixedStepClock,
+  interpolateGameState,
+  runFixedSteps
+} from "../state/fixedTimestep";
+import { checkLevelSolvability } from "../state/solvability";
+import { DEFAULT_STAR_THRESHOLDS } from "../state/scoring";
 import {
+  createEditorHistory,
+  hasLayoutChanged,
+  recordEditorHistory,
+  redoEditorHistory,
+  undoEditorHistory,
+  type EditorHistory
+} from "../state/editorHistory";
+import {
+  BOMB_BLAST_RADIUS,
+  MAX_BOMB_RADIUS,
   MAX_LEVELS,
+  MIN_BOMB_RADIUS,
   MIN_GRID_HEIGHT,
   MIN_GRID_WIDTH,
   MAX_GRID_HEIGHT,
   MAX_GRID_WIDTH,
   TILE_SIZE,
   type BackgroundKey,
+  type DrawMode,
   type EditorState,
   type GameState,
+  type GridPosition,
+  type GridRect,
+  type KeyChannel,
+  type StarThresholds,
   type Tool
 } from "../types";
 import {
@@ -61,6 +100,14 @@ interface EditorPageState {
   currentLevelId: string | null;
   isPublished: boolean;
   lastSaveTime: number;
+  reachability: ReachabilityOverlay | null;  // Shown after a failed solvability check, cleared on edit
+  history: EditorHistory;
+  strokeStart: EditorState | null;           // Editor state when the current drag stroke began
+  shapePreview: GridPosition[];              // Cells the rectangle/line tool will paint on release
+  selection: GridRect | null;
+  clipboard: EditorClipboard | null;
+  inspected: InspectedObject | null;         // Object open in the inspector panel
+  picking: boolean;                          // Canvas clicks edit the inspected trigger's links or platform's path
 }
 
 // Action types
@@ -68,25 +115,62 @@ type EditorAction =
   | { type: "LOAD_LEVEL"; payload: { editorState: EditorState; levelId: string | null; isPublished: boolean } }
   | { type: "SAVE_LEVEL"; payload: { levelId: string; isPublished: boolean; timestamp: number } }
   | { type: "SET_TOOL"; payload: { tool: Tool } }
+  | { type: "SET_DRAW_MODE"; payload: DrawMode }
+  | { type: "SET_CHANNEL"; payload: KeyChannel }
+  | { type: "SET_SHAPE_PREVIEW"; payload: GridPosition[] }
+  | { type: "SET_SELECTION"; payload: GridRect | null }
+  | { type: "SET_INSPECTED"; payload: InspectedObject | null }
+  | { type: "SET_PICKING"; payload: boolean }
+  | { type: "MOVE_SELECTION"; payload: { from: GridRect; dx: number; dy: number } }
+  | { type: "FLIP_SELECTION"; payload: "horizontal" | "vertical" }
+  | { type: "COPY_SELECTION" }
+  | { type: "CUT_SELECTION" }
+  | { type: "DELETE_SELECTION" }
+  | { type: "PASTE_CLIPBOARD" }
   | { type: "UPDATE_EDITOR_STATE"; payload: EditorState }
+  | { type: "BEGIN_STROKE" }
+  | { type: "END_STROKE" }
+  | { type: "UNDO" }
+  | { type: "REDO" }
   | { type: "UPDATE_GAME_STATE"; payload: GameState }
   | { type: "SWITCH_TO_GAME"; payload: { gameState: GameState } }
   | { type: "SWITCH_TO_EDITOR" }
   | { type: "SHOW_MESSAGE"; payload: { text: string } }
   | { type: "HIDE_MESSAGE" }
   | { type: "SET_PUBLISHED"; payload: boolean }
+  | { type: "SET_REACHABILITY"; payload: ReachabilityOverlay | null }
   | { type: "SET_LEVEL_NAME"; payload: string }
   | { type: "SET_BACKGROUND"; payload: BackgroundKey }
+  | { type: "SET_BOMB_RADIUS"; payload: number }
+  | { type: "SET_STAR_THRESHOLDS"; payload: StarThresholds }
   | { type: "RESIZE_GRID"; payload: { width: number; height: number } }
   | { type: "CLEAR_EDITOR" }
   | { type: "FILL_BORDER" };
 
+// Apply an edit to the level, recording an undo step unless it is part of a drag stroke
+// (strokes are recorded as a single step when they end)
+function applyEdit(state: EditorPageState, editorState: EditorState): EditorPageState {
+  const recordStep = !state.strokeStart && hasLayoutChanged(state.editorState, editorState);
+  return {
+    ...state,
+    reachability: null,
+    editorState,
+    history: recordStep ? recordEditorHistory(state.history, state.editorState) : state.history
+  };
+}
+
 // Reducer function
 function editorReducer(state: EditorPageState, action: EditorAction): EditorPageState {
   switch (action.type) {
     case "LOAD_LEVEL":
       return {
         ...state,
+        reachability: null,
+        history: createEditorHistory(),
+        strokeStart: null,
+        selection: null,
+        inspected: null,
+        picking: false,
         editorState: action.payload.editorState,
         currentLevelId: action.payload.levelId,
         isPublished: action.payload.isPublished
@@ -109,12 +193,136 @@ function editorReducer(state: EditorPageState, action: EditorAction): EditorPage
         }
       };
 
+    case "SET_CHANNEL":
+      return {
+        ...state,
+        editorState: {
+          ...state.editorState,
+          selectedChannel: action.payload
+        }
+      };
+
+    case "SET_DRAW_MODE":
+      return {
+        ...state,
+        editorState: {
+          ...state.editorState,
+          drawMode: action.payload
+        },
+        shapePreview: [],
+        selection: null,
+        inspected: null,
+        picking: false
+      };
+
+    case "SET_SHAPE_PREVIEW":
+      return {
+        ...state,
+        shapePreview: action.payload
+      };
+
+    case "SET_SELECTION":
+      return {
+        ...state,
+        selection: action.payload
+      };
+
+    case "SET_INSPECTED":
+      return {
+        ...state,
+        inspected: action.payload,
+        picking: false
+      };
+
+    case "SET_PICKING":
+      return {
+        ...state,
+        picking: action.payload
+      };
+
+    case "MOVE_SELECTION": {
+      const { from, dx, dy } = action.payload;
+      const moved = moveRegion(state.editorState, from, dx, dy);
+      return {
+        ...applyEdit(state, moved.state),
+        selection: moved.rect
+      };
+    }
+
+    case "FLIP_SELECTION":
+      if (!state.selection) return state;
+      return applyEdit(state, flipRegion(state.editorState, state.selection, action.payload));
+
+    case "COPY_SELECTION":
+      if (!state.selection) return state;
+      return {
+        ...state,
+        clipboard: copyRegion(state.editorState, state.selection)
+      };
+
+    case "CUT_SELECTION":
+      if (!state.selection) return state;
+      return {
+        ...applyEdit(state, clearRegion(state.editorState, state.selection)),
+        clipboard: copyRegion(state.editorState, state.selection)
+      };
+
+    case "DELETE_SELECTION":
+      if (!state.selection) return state;
+      return applyEdit(state, clearRegion(state.editorState, state.selection));
+
+    case "PASTE_CLIPBOARD": {
+      if (!state.clipboard) return state;
+      // Paste over the current selection's corner, or the top-left of the level
+      const x = state.selection?.x ?? 0;
+      const y = state.selection?.y ?? 0;
+      return {
+        ...applyEdit(state, pasteRegion(state.editorState, state.clipboard, x, y)),
+        selection: { x, y, width: state.clipboard.width, height: state.clipboard.height }
+      };
+    }
+
     case "UPDATE_EDITOR_STATE":
+      return applyEdit(state, action.payload);
+
+    case "BEGIN_STROKE":
       return {
         ...state,
-        editorState: action.payload
+        strokeStart: state.editorState
       };
 
+    case "END_STROKE":
+      if (!state.strokeStart) return state;
+      return {
+        ...state,
+        strokeStart: null,
+        history: hasLayoutChanged(state.strokeStart, state.editorState)
+          ? recordEditorHistory(state.history, state.strokeStart)
+          : state.history
+      };
+
+    case "UNDO": {
+      const result = state.strokeStart ? null : undoEditorHistory(state.history, state.editorState);
+      if (!result) return state;
+      return {
+        ...state,
+        reachability: null,
+        editorState: result.editorState,
+        history: result.history
+      };
+    }
+
+    case "REDO": {
+      const result = state.strokeStart ? null : redoEditorHistory(state.history, state.editorState);
+      if (!result) return state;
+      return {
+        ...state,
+        reachability: null,
+        editorState: result.editorState,
+        history: result.history
+      };
+    }
+
     case "UPDATE_GAME_STATE":
       return {
         ...state,
@@ -158,6 +366,12 @@ function editorReducer(state: EditorPageState, action: EditorAction): EditorPage
         isPublished: action.payload
       };
 
+    case "SET_REACHABILITY":
+      return {
+        ...state,
+        reachability: action.payload
+      };
+
     case "SET_LEVEL_NAME":
       return {
         ...state,
@@ -176,24 +390,36 @@ function editorReducer(state: EditorPageState, action: EditorAction): EditorPage
         }
       };
 
-    case "RESIZE_GRID":
+    case "SET_BOMB_RADIUS":
       return {
         ...state,
-        editorState: resizeGrid(state.editorState, action.payload.width, action.payload.height)
+        editorState: {
+          ...state.editorState,
+          bombRadius: action.payload
+        }
       };
 
-    case "CLEAR_EDITOR":
+    case "SET_STAR_THRESHOLDS":
       return {
         ...state,
-        editorState: clearEditorState(state.editorState)
+        editorState: {
+          ...state.editorState,
+          starThresholds: action.payload
+        }
       };
 
-    case "FILL_BORDER":
+    case "RESIZE_GRID":
       return {
-        ...state,
-        editorState: fillBorder(state.editorState)
+        ...applyEdit(state, resizeGrid(state.editorState, action.payload.width, action.payload.height)),
+        selection: null
       };
 
+    case "CLEAR_EDITOR":
+      return applyEdit(state, clearEditorState(state.editorState));
+
+    case "FILL_BORDER":
+      return applyEdit(state, fillBorder(state.editorState));
+
     default:
       return state;
   }
@@ -216,18 +442,47 @@ export default function EditorPage(): JSX.Element {
     message: { text: "", visible: false },
     currentLevelId: null,
     isPublished: false,
-    lastSaveTime: 0
+    lastSaveTime: 0,
+    reachability: null,
+    history: createEditorHistory(),
+    strokeStart: null,
+    shapePreview: [],
+    selection: null,
+    clipboard: null,
+    inspected: null,
+    picking: false
   });
 
   const { textures } = useTextures();
 
   // Destructure for easier access
-  const { mode, editorState, gameState, message, currentLevelId, isPublished, lastSaveTime } = state;
+  const {
+    mode,
+    editorState,
+    gameState,
+    message,
+    currentLevelId,
+    isPublished,
+    lastSaveTime,
+    reachability,
+    history,
+    shapePreview,
+    selection,
+    clipboard,
+    inspected,
+    picking
+  } = state;
+
+  // Test mode plays with the same bindings, gamepad and keys as the game itself
+  const input = useInput({ active: mode === "game" });
 
   const editorCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const gameCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const drawingRef = useRef(false);
-  const keysRef = useRef<KeyMap>({});
+  const dragStartRef = useRef<GridPosition | null>(null);
+  const lastCellRef = useRef<GridPosition | null>(null);
+  const movingSelectionRef = useRef<GridRect | null>(null);  // Selection being dragged to a new spot
+  const patrolHandleRef = useRef<0 | 1 | null>(null);        // Patrol bound being dragged in inspect mode
   const gameStateRef = useRef<GameState>(gameState);
   const messageTimeoutRef = useRef<number>();
 
@@ -242,6 +497,14 @@ export default function EditorPage(): JSX.Element {
     }
   }, [user]);
 
+  // Patrol handles for the inspected monster (turrets stay put, so they get none)
+  const inspectedMonster =
+    inspected?.kind === "monster"
+      ? editorState.monsters.find(
+          (monster) => monster.x === inspected.x && monster.y === inspected.y && monster.kind !== "turret"
+        ) ?? null
+      : null;
+
   useEffect(() => {
     if (mode === "editor") {
       const canvas = editorCanvasRef.current;
@@ -250,9 +513,17 @@ export default function EditorPage(): JSX.Element {
       canvas.height = editorState.gridHeight * TILE_SIZE;
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
-      drawEditorCanvas(ctx, editorState, textures);
+      drawEditorCanvas(ctx, editorState, textures, {
+        reachability,
+        preview: shapePreview,
+        selection: editorState.drawMode === "select" ? selection : null,
+        inspected,
+        patrol: inspectedMonster
+          ? { y: inspectedMonster.y, start: inspectedMonster.patrol[0], end: inspectedMonster.patrol[1] }
+          : null
+      });
     }
-  }, [editorState, textures, mode]);
+  }, [editorState, textures, mode, reachability, shapePreview, selection, inspected, inspectedMonster]);
 
   useEffect(() => {
     if (mode === "game") {
@@ -268,6 +539,51 @@ export default function EditorPage(): JSX.Element {
     }
   }, [gameState, textures, mode, editorState.gridHeight, editorState.gridWidth]);
 
+  // Editor shortcuts (Cmd instead of Ctrl on macOS):
+  // Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo, Ctrl+C/X/V copy/cut/paste selection, Delete clears it
+  useEffect(() => {
+    if (mode !== "editor") return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave form fields (level name, background picker) to the browser's own shortcuts
+      const target = e.target as HTMLElement | null;
+      const typing = target && (
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) || target.isContentEditable
+      );
+      if (typing) return;
+
+      if (e.key === "Delete" || e.key === "Backspace") {
+        dispatch({ type: "DELETE_SELECTION" });
+        return;
+      }
+      if (e.key === "Escape") {
+        dispatch({ type: "SET_SELECTION", payload: null });
+        dispatch({ type: "SET_PICKING", payload: false });
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        dispatch({ type: e.shiftKey ? "REDO" : "UNDO" });
+      } else if (key === "y") {
+        e.preventDefault();
+        dispatch({ type: "REDO" });
+      } else if (key === "c") {
+        dispatch({ type: "COPY_SELECTION" });
+      } else if (key === "x") {
+        dispatch({ type: "CUT_SELECTION" });
+      } else if (key === "v") {
+        e.preventDefault();
+        dispatch({ type: "PASTE_CLIPBOARD" });
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [mode]);
+
   // Cleanup: Clear message timeout on unmount to prevent memory leaks
   useEffect(() => {
     return () => {
@@ -291,11 +607,132 @@ export default function EditorPage(): JSX.Element {
     dispatch({ type: "SET_TOOL", payload: { tool } });
   };
 
-  const applyToolAt = (clientX: number, clientY: number, target: HTMLCanvasElement) => {
+  const getCellAt = (clientX: number, clientY: number, target: HTMLCanvasElement): GridPosition => {
     const rect = target.getBoundingClientRect();
-    const x = Math.floor((clientX - rect.left) / TILE_SIZE);
-    const y = Math.floor((clientY - rect.top) / TILE_SIZE);
-    dispatch({ type: "UPDATE_EDITOR_STATE", payload: applyToolAtPosition(editorState, x, y) });
+    return {
+      x: Math.floor((clientX - rect.left) / TILE_SIZE),
+      y: Math.floor((clientY - rect.top) / TILE_SIZE)
+    };
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const cell = getCellAt(e.clientX, e.clientY, e.currentTarget);
+    drawingRef.current = true;
+    dragStartRef.current = cell;
+    lastCellRef.current = cell;
+
+    switch (editorState.drawMode) {
+      case "brush":
+        dispatch({ type: "BEGIN_STROKE" });
+        dispatch({ type: "UPDATE_EDITOR_STATE", payload: applyToolAtPosition(editorState, cell.x, cell.y) });
+        break;
+      case "fill":
+        drawingRef.current = false;
+        dispatch({ type: "UPDATE_EDITOR_STATE", payload: floodFill(editorState, cell.x, cell.y) });
+        break;
+      case "inspect": {
+        // Grabbing a patrol handle drags that bound; any other click picks what to inspect
+        const handle = inspectedMonster && cell.y === inspectedMonster.y
+          ? inspectedMonster.patrol.indexOf(cell.x)
+          : -1;
+        if (handle === 0 || handle === 1) {
+          patrolHandleRef.current = handle;
+          dispatch({ type: "BEGIN_STROKE" });
+        } else if (picking && inspected?.kind === "trigger" && isTriggerLinkTarget(editorState, cell.x, cell.y)) {
+          drawingRef.current = false;
+          dispatch({ type: "UPDATE_EDITOR_STATE", payload: toggleTriggerLink(editorState, inspected, cell) });
+        } else if (picking && inspected?.kind === "movingplatform") {
+          drawingRef.current = false;
+          dispatch({ type: "UPDATE_EDITOR_STATE", payload: toggleWaypoint(editorState, inspected, cell) });
+        } else {
+          drawingRef.current = false;
+          dispatch({ type: "SET_INSPECTED", payload: findInspectableAt(editorState, cell.x, cell.y) });
+        }
+        break;
+      }
+      case "select":
+        // Dragging inside the selection moves it; anywhere else starts a new one
+        movingSelectionRef.current = selection && isInsideRect(selection, cell.x, cell.y) ? selection : null;
+        if (!movingSelectionRef.current) {
+          dispatch({ type: "SET_SELECTION", payload: normalizeRect(cell, cell) });
+        }
+        break;
+      default:
+        dispatch({ type: "SET_SHAPE_PREVIEW", payload: getShapeCells(editorState.drawMode, cell, cell) });
+        break;
+    }
+  };
+
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const start = dragStartRef.current;
+    if (!drawingRef.current || !start) return;
+
+    const cell = getCellAt(e.clientX, e.clientY, e.currentTarget);
+    const last = lastCellRef.current;
+    if (last && last.x === cell.x && last.y === cell.y) return;
+    lastCellRef.current = cell;
+
+    switch (editorState.drawMode) {
+      case "brush":
+        dispatch({ type: "UPDATE_EDITOR_STATE", payload: applyToolAtPosition(editorState, cell.x, cell.y) });
+        break;
+      case "inspect": {
+        const handle = patrolHandleRef.current;
+        if (handle === null || !inspectedMonster) break;
+        // Keep the monster inside its own patrol and the patrol on the grid
+        const patrol: [number, number] = handle === 0
+          ? [Math.max(0, Math.min(cell.x, inspectedMonster.x)), inspectedMonster.patrol[1]]
+          : [inspectedMonster.patrol[0], Math.min(editorState.gridWidth - 1, Math.max(cell.x, inspectedMonster.x))];
+        dispatch({ type: "UPDATE_EDITOR_STATE", payload: updateMonsterAt(editorState, inspectedMonster, { patrol }) });
+        break;
+      }
+      case "select": {
+        const moving = movingSelectionRef.current;
+        dispatch({
+          type: "SET_SELECTION",
+          payload: moving
+            ? { ...moving, x: moving.x + cell.x - start.x, y: moving.y + cell.y - start.y }
+            : normalizeRect(start, cell)
+        });
+        break;
+      }
+      default:
+        dispatch({ type: "SET_SHAPE_PREVIEW", payload: getShapeCells(editorState.drawMode, start, cell) });
+        break;
+    }
+  };
+
+  const handleCanvasMouseUp = () => {
+    const start = dragStartRef.current;
+    const end = lastCellRef.current;
+    if (!drawingRef.current || !start || !end) return;
+    drawingRef.current = false;
+    dragStartRef.current = null;
+
+    switch (editorState.drawMode) {
+      case "brush":
+        dispatch({ type: "END_STROKE" });
+        break;
+      case "inspect":
+        patrolHandleRef.current = null;
+        dispatch({ type: "END_STROKE" });
+        break;
+      case "select": {
+        const moving = movingSelectionRef.current;
+        movingSelectionRef.current = null;
+        if (moving && (end.x !== start.x || end.y !== start.y)) {
+          dispatch({ type: "MOVE_SELECTION", payload: { from: moving, dx: end.x - start.x, dy: end.y - start.y } });
+        }
+        break;
+      }
+      default:
+        dispatch({
+          type: "UPDATE_EDITOR_STATE",
+          payload: applyToolToCells(editorState, getShapeCells(editorState.drawMode, start, end))
+        });
+        dispatch({ type: "SET_SHAPE_PREVIEW", payload: [] });
+        break;
+    }
   };
 
   // Save level to Supabase
@@ -346,6 +783,27 @@ export default function EditorPage(): JSX.Element {
     }
   };
 
+  // Run the reachability analysis; highlights the blocking area on the canvas if it fails
+  const checkSolvability = (): boolean => {
+    const result = checkLevelSolvability(createLevelFromEditorState(editorState));
+    if (result.solvable) {
+      dispatch({ type: "SET_REACHABILITY", payload: null });
+      return true;
+    }
+    dispatch({
+      type: "SET_REACHABILITY",
+      payload: { reachable: result.reachable, blockers: result.blockers }
+    });
+    showMessage(`🚧 Level can't be finished: ${result.reason ?? "goal unreachable"}. Blocking area highlighted in red.`);
+    return false;
+  };
+
+  const handleCheckLevel = () => {
+    if (checkSolvability()) {
+      showMessage("✅ The goal is reachable!");
+    }
+  };
+
   // Publish level
   const handlePublishLevel = async () => {
     if (!currentLevelId) {
@@ -353,10 +811,17 @@ export default function EditorPage(): JSX.Element {
       return;
     }
 
+    // The check can miss tricky routes, so a failure only warns; the blocking area stays highlighted
+    const solvable = checkSolvability();
+
     try {
       await publishLevel(currentLevelId);
       dispatch({ type: "SET_PUBLISHED", payload: true });
-      showMessage("✅ Level published! Players can now see it!");
+      showMessage(
+        solvable
+          ? "✅ Level published! Players can now see it!"
+          : "⚠️ Level published, but no route to the goal was found. Make sure it can be finished!"
+      );
     } catch (error: any) {
       logError("Error publishing level", error);
       showMessage("❌ Failed to publish level");
@@ -447,6 +912,14 @@ export default function EditorPage(): JSX.Element {
     showMessage("🖼️ Background changed!");
   };
 
+  const handleBombRadiusChange = (value: number) => {
+    dispatch({ type: "SET_BOMB_RADIUS", payload: value });
+  };
+
+  const handleStarThresholdsChange = (value: StarThresholds) => {
+    dispatch({ type: "SET_STAR_THRESHOLDS", payload: value });
+  };
+
   const handleExportLevel = () => {
     if (!editorState.playerStart || !editorState.goal) {
       showMessage("⚠️ Please set Start and Goal before exporting!");
@@ -482,35 +955,54 @@ export default function EditorPage(): JSX.Element {
     }
   };
 
-  // Game loop and keyboard handlers
+  // Game loop
+  // Fixed 60 ticks/s simulation, same as GamePage, so test runs match real gameplay speed
   useEffect(() => {
     if (mode !== "game") return;
 
-    const update = () => {
-      const { state: updatedState, events } = updateGameFrame(gameStateRef.current, keysRef.current);
+    const clock = createFixedStepClock();
+    let previousState = gameStateRef.current;
 
-      if (events.playerDied) {
-        setTimeout(() => {
-          const levelData = createLevelFromEditorState(editorState);
-          const newGameState = buildGameStateFromLevel(levelData, editorState.currentLevel);
-          dispatch({ type: "UPDATE_GAME_STATE", payload: newGameState });
-        }, 500);
-      }
+    const update = (now: number) => {
+      input.poll();
+      const { steps, alpha } = advanceFixedStepClock(clock, now);
 
-      if (events.levelComplete) {
-        setTimeout(() => {
-          dispatch({ type: "SWITCH_TO_EDITOR" });
-          showMessage("🎉 Level Complete! Returning to editor...");
-        }, 1000);
-      }
+      if (steps > 0) {
+        const keys = input.readKeys();
+        const actions = input.takeActions();
+        const firstTick = gameStateRef.current.tick;
+
+        const { state: updatedState, previousState: stateBeforeLastStep, events } = runFixedSteps(
+          gameStateRef.current,
+          steps,
+          (tick) => ({ keys, actions: tick === firstTick ? actions : [] })
+        );
+        previousState = stateBeforeLastStep;
+        gameStateRef.current = updatedState;
+
+        if (events.playerDied) {
+          setTimeout(() => {
+            const levelData = createLevelFromEditorState(editorState);
+            const newGameState = buildGameStateFromLevel(levelData, editorState.currentLevel);
+            dispatch({ type: "UPDATE_GAME_STATE", payload: newGameState });
+          }, 500);
+        }
+
+        if (events.levelComplete) {
+          setTimeout(() => {
+            dispatch({ type: "SWITCH_TO_EDITOR" });
+            showMessage("🎉 Level Complete! Returning to editor...");
+          }, 1000);
+        }
 
-      dispatch({ type: "UPDATE_GAME_STATE", payload: updatedState });
+        dispatch({ type: "UPDATE_GAME_STATE", payload: updatedState });
+      }
 
       const canvas = gameCanvasRef.current;
       if (canvas) {
         const ctx = canvas.getContext("2d");
         if (ctx) {
-          drawGameCanvas(ctx, gameStateRef.current, textures);
+          drawGameCanvas(ctx, interpolateGameState(previousState, gameStateRef.current, alpha), textures);
         }
       }
 
@@ -521,59 +1013,6 @@ export default function EditorPage(): JSX.Element {
     return () => cancelAnimationFrame(animationId);
   }, [mode, textures, editorState]);
 
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (mode !== "game") return;
-      keysRef.current[e.key] = true;
-
-      if (e.key === " " && gameStateRef.current.player.onGround) {
-        e.preventDefault();
-        const next = { ...gameStateRef.current, player: { ...gameStateRef.current.player } };
-        jump(next.player);
-        dispatch({ type: "UPDATE_GAME_STATE", payload: next });
-      }
-
-      if (e.key === "f" || e.key === "F") {
-        if (gameStateRef.current.player.hasWeapon && gameStateRef.current.ammo > 0) {
-          dispatch({
-            type: "UPDATE_GAME_STATE",
-            payload: {
-              ...gameStateRef.current,
-              bullets: [...gameStateRef.current.bullets, createPlayerBullet(gameStateRef.current.player)],
-              ammo: gameStateRef.current.ammo - 1
-            }
-          });
-        }
-      }
-
-      if (e.key === "b" || e.key === "B") {
-        if (gameStateRef.current.bombCount > 0) {
-          dispatch({
-            type: "UPDATE_GAME_STATE",
-            payload: {
-              ...gameStateRef.current,
-              placedBombs: [...gameStateRef.current.placedBombs, createPlacedBomb(gameStateRef.current.player)],
-              bombCount: gameStateRef.current.bombCount - 1
-            }
-          });
-        }
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (mode !== "game") return;
-      keysRef.current[e.key] = false;
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("keyup", handleKeyUp);
-
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("keyup", handleKeyUp);
-    };
-  }, [mode]);
-
   if (mode === "game") {
     return (
       <div className="flex h-screen flex-col bg-slate-100">
@@ -618,12 +1057,11 @@ export default function EditorPage(): JSX.Element {
             <div className="w-px h-4 bg-white/20"></div>
             <div className="flex items-center gap-1.5">
               <span className="text-yellow-400">🔑</span>
-              <span className="font-bold">{gameState.keys}</span>
+              <KeyCounter keys={gameState.keys} />
             </div>
             <div className="w-px h-4 bg-white/20"></div>
             <div className="flex items-center gap-1.5">
-              <span className="text-blue-400">🔫</span>
-              <span className="font-bold">{gameState.ammo}</span>
+              <AmmoCounter ammo={gameState.ammo} currentWeapon={gameState.currentWeapon} />
             </div>
             <div className="w-px h-4 bg-white/20"></div>
             <div className="flex items-center gap-1.5">
@@ -770,6 +1208,37 @@ export default function EditorPage(): JSX.Element {
                 ))}
               </select>
             </div>
+
+            {/* Bomb Radius Section */}
+            <div className="pb-3 border-b border-slate-100">
+              <label className="flex items-center gap-1.5 text-xs font-bold text-slate-700 mb-1.5">
+                <span>💣</span>
+                <span>BLAST RADIUS</span>
+              </label>
+              <select
+                value={editorState.bombRadius ?? BOMB_BLAST_RADIUS}
+                onChange={(e) => handleBombRadiusChange(Number(e.target.value))}
+                className="w-full rounded-lg border-2 border-slate-200 p-2 text-sm focus:border-purple-400 focus:outline-none"
+              >
+                {Array.from({ length: MAX_BOMB_RADIUS - MIN_BOMB_RADIUS + 1 }, (_, i) => MIN_BOMB_RADIUS + i).map((radius) => (
+                  <option key={radius} value={radius}>
+                    {radius} {radius === 1 ? "block" : "blocks"}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Star Scores Section */}
+            <div className="pb-3 border-b border-slate-100">
+              <label className="flex items-center gap-1.5 text-xs font-bold text-slate-700 mb-1.5">
+                <span>⭐</span>
+                <span>STAR SCORES</span>
+              </label>
+              <StarThresholdsField
+                value={editorState.starThresholds ?? DEFAULT_STAR_THRESHOLDS}
+                onCommit={handleStarThresholdsChange}
+              />
+            </div>
           </div>
 
           {/* Actions Section */}
@@ -803,6 +1272,13 @@ export default function EditorPage(): JSX.Element {
                 </button>
               )}
 
+              <button
+                onClick={handleCheckLevel}
+                className="w-full rounded-lg bg-slate-500 hover:bg-slate-600 py-2.5 text-sm font-bold text-white shadow-sm hover:shadow-md transition-all"
+              >
+                🧭 Check Solvable
+              </button>
+
               {/* Status Badge */}
               <div className={`text-xs font-semibold text-center py-2 rounded-lg ${isPublished ? 'bg-green-50 text-green-700 border border-green-200' : 'bg-yellow-50 text-yellow-700 border border-yellow-200'}`}>
                 {isPublished ? '✅ Published' : '⚠️ Not Published'}
@@ -815,6 +1291,25 @@ export default function EditorPage(): JSX.Element {
                 ▶️ Test Level
               </button>
 
+              <div className="grid grid-cols-2 gap-1.5">
+                <button
+                  onClick={() => dispatch({ type: "UNDO" })}
+                  disabled={history.past.length === 0}
+                  className="rounded-lg bg-slate-200 hover:bg-slate-300 py-2 text-sm font-bold text-slate-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Undo (Ctrl+Z)"
+                >
+                  ↩️ Undo
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "REDO" })}
+                  disabled={history.future.length === 0}
+                  className="rounded-lg bg-slate-200 hover:bg-slate-300 py-2 text-sm font-bold text-slate-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  ↪️ Redo
+                </button>
+              </div>
+
               <button
                 onClick={() => dispatch({ type: "CLEAR_EDITOR" })}
                 className="w-full rounded-lg bg-red-500 hover:bg-red-600 py-2.5 text-sm font-bold text-white shadow-sm hover:shadow-md transition-all"
@@ -929,21 +1424,10 @@ export default function EditorPage(): JSX.Element {
                     0 0 0 1px rgba(255, 255, 255, 0.05) inset
                   `
                 }}
-                onMouseDown={(e) => {
-                  drawingRef.current = true;
-                  applyToolAt(e.clientX, e.clientY, e.currentTarget);
-                }}
-                onMouseMove={(e) => {
-                  if (drawingRef.current) {
-                    applyToolAt(e.clientX, e.clientY, e.currentTarget);
-                  }
-                }}
-                onMouseUp={() => {
-                  drawingRef.current = false;
-                }}
-                onMouseLeave={() => {
-                  drawingRef.current = false;
-                }}
+                onMouseDown={handleCanvasMouseDown}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseUp={handleCanvasMouseUp}
+                onMouseLeave={handleCanvasMouseUp}
               />
             </div>
           </div>
@@ -956,6 +1440,97 @@ export default function EditorPage(): JSX.Element {
             <span>Tool Palette</span>
           </h3>
 
+          <div className="mb-3 pb-3 border-b border-slate-100">
+            <p className="mb-2 text-xs font-bold text-slate-600 uppercase">Draw Mode</p>
+            <div className="grid grid-cols-3 gap-1.5">
+              {DRAW_MODE_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => dispatch({ type: "SET_DRAW_MODE", payload: option.value })}
+                  className={`rounded-lg border-2 p-1.5 text-center transition-all ${
+                    editorState.drawMode === option.value
+                      ? "border-purple-500 bg-purple-50 shadow-sm"
+                      : "border-slate-200 hover:border-purple-300 hover:bg-slate-50"
+                  }`}
+                  title={option.label}
+                >
+                  <div className="text-lg">{option.icon}</div>
+                  <div className="text-[10px] font-semibold text-slate-700">{option.label}</div>
+                </button>
+              ))}
+            </div>
+
+            {editorState.drawMode === "select" && (
+              <div className="mt-2 grid grid-cols-3 gap-1.5">
+                <button
+                  onClick={() => dispatch({ type: "COPY_SELECTION" })}
+                  disabled={!selection}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Copy (Ctrl+C)"
+                >
+                  📋 Copy
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "CUT_SELECTION" })}
+                  disabled={!selection}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Cut (Ctrl+X)"
+                >
+                  ✂️ Cut
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "PASTE_CLIPBOARD" })}
+                  disabled={!clipboard}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Paste at the selection (Ctrl+V)"
+                >
+                  📌 Paste
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "FLIP_SELECTION", payload: "horizontal" })}
+                  disabled={!selection}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Flip horizontally"
+                >
+                  ↔️ Flip
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "FLIP_SELECTION", payload: "vertical" })}
+                  disabled={!selection}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Flip vertically"
+                >
+                  ↕️ Flip
+                </button>
+                <button
+                  onClick={() => dispatch({ type: "DELETE_SELECTION" })}
+                  disabled={!selection}
+                  className="rounded-lg bg-slate-100 hover:bg-slate-200 py-1.5 text-xs font-semibold text-slate-700 transition disabled:opacity-40 disabled:cursor-not-allowed"
+                  title="Delete (Del)"
+                >
+                  🗑️ Delete
+                </button>
+              </div>
+            )}
+
+            {editorState.drawMode === "inspect" && !inspected && (
+              <p className="mt-2 text-xs text-slate-500">
+                Click a monster, door, trap, switch or platform to edit its properties.
+              </p>
+            )}
+          </div>
+
+          {editorState.drawMode === "inspect" && inspected && (
+            <ObjectInspector
+              editorState={editorState}
+              target={inspected}
+              onChange={(next) => dispatch({ type: "UPDATE_EDITOR_STATE", payload: next })}
+              onClose={() => dispatch({ type: "SET_INSPECTED", payload: null })}
+              picking={picking}
+              onTogglePicking={() => dispatch({ type: "SET_PICKING", payload: !picking })}
+            />
+          )}
+
           <div className="space-y-3">
             {TOOL_OPTIONS.map((section) => (
               <div key={section.label} className="pb-3 border-b border-slate-100 last:border-0">
@@ -976,6 +1551,27 @@ export default function EditorPage(): JSX.Element {
                     </button>
                   ))}
                 </div>
+                {section.tools.some((tool) => tool.id === "key") &&
+                  (editorState.selectedTool === "key" || editorState.selectedTool === "door") && (
+                    <div className="mt-2">
+                      <p className="mb-1 text-xs font-semibold text-slate-600">Key color</p>
+                      <div className="flex gap-1.5">
+                        {KEY_CHANNEL_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => dispatch({ type: "SET_CHANNEL", payload: option.value })}
+                            className={`h-7 flex-1 rounded-lg border-2 transition-all ${
+                              editorState.selectedChannel === option.value
+                                ? "border-purple-500 scale-105 shadow-sm"
+                                : "border-white hover:border-purple-300"
+                            }`}
+                            style={{ backgroundColor: option.color }}
+                            title={`${option.label} - keys only open doors of the same color`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
               </div>
             ))}
           </div>
@@ -1,25 +1,79 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useTextures } from "../hooks/useTextures";
 import { useAudio } from "../hooks/useAudio";
+import { useInput } from "../hooks/useInput";
 import { useMobileDetection } from "../hooks/useMobileDetection";
 import { drawStaticLayer, drawDynamicLayer, calculateCameraPosition } from "../canvas/layeredGameCanvas";
+import { buildGameStateFromLevel, createInitialGameState } from "../state/gameState";
+import type { TickInput } from "../state/gameLoop";
+import { formatBindingLabel } from "../state/input";
+import { getTouchLayoutDeviceKey } from "../state/touchLayout";
 import {
-  buildGameStateFromLevel,
-  createInitialGameState,
-  createPlacedBomb,
-  createPlayerBullet,
-  jump
-} from "../state/gameState";
-import { updateGameFrame, tryOpenDoor, type KeyMap } from "../state/gameLoop";
-import { TILE_SIZE, type GameState } from "../types";
+  advanceFixedStepClock,
+  createFixedStepClock,
+  holdFixedStepClock,
+  interpolateGameState,
+  runFixedSteps
+} from "../state/fixedTimestep";
+import {
+  createReplayRecorder,
+  finishReplay,
+  getReplayInput,
+  recordReplayTick,
+  verifyReplay,
+  type Replay
+} from "../state/replay";
+import { calculateScore, getStarRating } from "../state/scoring";
+import {
+  applyCampaignToGameState,
+  completeCampaignLevel,
+  createCampaign,
+  isCampaignOver,
+  loseCampaignLife
+} from "../state/campaign";
+import { getBestTime, upsertProgress } from "../services/progressService";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  TILE_SIZE,
+  type AudioSettings,
+  type CampaignState,
+  type GameState,
+  type ScoreBreakdown,
+  type TouchLayout
+} from "../types";
 import { getPublishedLevels, levelToLevelData } from "../services/levelService";
 import type { Database } from "../types/database.types";
 import LevelSelector from "../components/LevelSelector";
+import AmmoCounter from "../components/AmmoCounter";
+import BossHealthBar from "../components/BossHealthBar";
+import GameOverScreen from "../components/GameOverScreen";
+import PauseMenu from "../components/PauseMenu";
+import KeyCounter from "../components/KeyCounter";
+import ResultsScreen from "../components/ResultsScreen";
 import { TouchControls } from "../components/TouchControls";
-import { logError } from "../utils/logger";
+import { logError, logWarning } from "../utils/logger";
+import { vibrate, type HapticKind } from "../utils/haptics";
+import {
+  clearCampaign,
+  loadAudioSettings,
+  loadCampaign,
+  loadTouchLayout,
+  saveAudioSettings,
+  saveCampaign,
+  saveTouchLayout
+} from "../utils/storage";
 
 type Level = Database['public']['Tables']['levels']['Row'];
 
+interface LevelResults {
+  finalState: GameState;
+  score: ScoreBreakdown;
+  stars: number;
+  bestTime: number | null;   // Fastest clear including this one (null when not signed in)
+  newBest: boolean;
+  campaign: CampaignState | null;
+}
+
 export default function GamePage(): JSX.Element {
   const [publishedLevels, setPublishedLevels] = useState<Level[]>([]);
   const [currentLevel, setCurrentLevel] = useState<Level | null>(null);
@@ -27,21 +81,45 @@ export default function GamePage(): JSX.Element {
   const [loading, setLoading] = useState(true);
   const [showLevelSelector, setShowLevelSelector] = useState(false);
   const [showControls, setShowControls] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => loadAudioSettings());
+  const [paused, setPaused] = useState(false);
   const [canvasScale, setCanvasScale] = useState(1.5); // Default desktop scale
   const [showTouchControls, setShowTouchControls] = useState(false);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
-  const [actionPressStart, setActionPressStart] = useState<number | null>(null);
+  // Touch layouts are kept per device (screen size), see getTouchLayoutDeviceKey
+  const [touchLayoutDeviceKey] = useState(() => getTouchLayoutDeviceKey(window.screen.width, window.screen.height));
+  const [touchLayout, setTouchLayout] = useState<TouchLayout>(() => loadTouchLayout(touchLayoutDeviceKey));
+  const [editingTouchLayout, setEditingTouchLayout] = useState(false);
   const [staticLayerHash, setStaticLayerHash] = useState<string>("");
+  const [watchingReplay, setWatchingReplay] = useState(false);
+  const [results, setResults] = useState<LevelResults | null>(null);
+  // Campaign being played (null in free play), the one saved for resuming, and the one that just ran out of lives
+  const [campaign, setCampaign] = useState<CampaignState | null>(null);
+  const [savedCampaign, setSavedCampaign] = useState<CampaignState | null>(() => loadCampaign());
+  const [gameOver, setGameOver] = useState<CampaignState | null>(null);
+  const { user } = useAuth();
   const { textures } = useTextures();
-  const { playSound, playBackgroundMusic, stopBackgroundMusic, setMuted, enableAudio, enabled, loaded } = useAudio();
+  const { playSound, playBackgroundMusic, stopBackgroundMusic, setMuted, setVolumes, enableAudio, enabled, loaded } = useAudio();
+  const input = useInput({
+    active: !paused,
+    // Esc doesn't leave the touch layout editor; Done does
+    onPause: () => {
+      if (!editingTouchLayout) setPausedState(!pausedRef.current);
+    }
+  });
   const { isMobileLandscape } = useMobileDetection();
 
   const staticCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const dynamicCanvasRef = useRef<HTMLCanvasElement | null>(null);
-  const keysRef = useRef<KeyMap>({});
   const gameStateRef = useRef<GameState>(gameState);
+  const previousStateRef = useRef<GameState>(gameState);
+  const recorderRef = useRef(createReplayRecorder());
+  const replayRef = useRef<Replay | null>(null);
   const levelCompleteRef = useRef<boolean>(false);
+  const gameOverRef = useRef<boolean>(false);
+  const pausedRef = useRef<boolean>(false);
+  const touchLayoutRef = useRef<TouchLayout>(touchLayout);
+  const campaignRef = useRef<CampaignState | null>(null);
   const playerDeadRef = useRef<boolean>(false);
   const playerDeathTimeoutRef = useRef<number>();
   const levelCompleteTimeoutRef = useRef<number>();
@@ -52,6 +130,27 @@ export default function GamePage(): JSX.Element {
     gameStateRef.current = gameState;
   }, [gameState]);
 
+  useEffect(() => {
+    touchLayoutRef.current = touchLayout;
+  }, [touchLayout]);
+
+  useEffect(() => {
+    setMuted(audioSettings.muted);
+    setVolumes(audioSettings.musicVolume, audioSettings.effectsVolume);
+  }, [audioSettings]);
+
+  // Auto-pause when the tab is hidden or the window is minimised
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        setPausedState(true);
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
   // Load published levels on mount
   useEffect(() => {
     loadPublishedLevels();
@@ -109,14 +208,30 @@ export default function GamePage(): JSX.Element {
     }
   };
 
-  const loadLevel = (level: Level) => {
+  // `deaths` carries the death count over when the level restarts after the player dies
+  const loadLevel = (level: Level, replay: Replay | null = null, deaths = 0) => {
     setCurrentLevel(level);
     setShowLevelSelector(false);
+    setResults(null);
+    setGameOver(null);
     const levelData = levelToLevelData(level);
-    const newGameState = buildGameStateFromLevel(levelData, level.level_number);
+    let newGameState = buildGameStateFromLevel(levelData, level.level_number);
+    if (campaignRef.current && !replay) {
+      newGameState = applyCampaignToGameState(newGameState, campaignRef.current);
+    }
+    newGameState.deaths = deaths;
     setGameState(newGameState);
+    // The game loop steps from the ref, so a restart mustn't wait for the next render
+    gameStateRef.current = newGameState;
     levelCompleteRef.current = false;
+    gameOverRef.current = false;
+    setPausedState(false);
     playerDeadRef.current = false;
+    // Every attempt records from a fresh level; a replay drives input instead of the player
+    input.takeActions();
+    recorderRef.current = createReplayRecorder();
+    replayRef.current = replay;
+    setWatchingReplay(replay !== null);
     // Force static layer re-render by updating hash
     setStaticLayerHash(level.id + "_" + Date.now());
     // Start background music if audio is already enabled
@@ -125,8 +240,81 @@ export default function GamePage(): JSX.Element {
     }
   };
 
+  // Pausing stops the simulation, and with it the level timer. There's nothing to pause once the level is over
+  const setPausedState = (next: boolean) => {
+    if (next && (levelCompleteRef.current || gameOverRef.current)) return;
+    pausedRef.current = next;
+    setPaused(next);
+  };
+
+  const updateAudioSettings = (settings: AudioSettings) => {
+    setAudioSettings(settings);
+    saveAudioSettings(settings);
+  };
+
+  // Keep the campaign in play and saved for the next session
+  const updateCampaign = (next: CampaignState) => {
+    campaignRef.current = next;
+    setCampaign(next);
+    saveCampaign(next);
+    setSavedCampaign(next);
+  };
+
+  // Stop playing the campaign; it stays saved so it can be resumed later
+  const leaveCampaign = () => {
+    campaignRef.current = null;
+    setCampaign(null);
+  };
+
+  // The campaign is finished (won or lost) and can't be resumed
+  const endCampaign = () => {
+    leaveCampaign();
+    clearCampaign();
+    setSavedCampaign(null);
+  };
+
+  const startCampaign = () => {
+    if (publishedLevels.length === 0) return;
+    updateCampaign(createCampaign(publishedLevels[0].id));
+    loadLevel(publishedLevels[0]);
+  };
+
+  const resumeCampaign = () => {
+    if (!savedCampaign) return;
+    const level = publishedLevels.find(l => l.id === savedCampaign.levelId);
+    if (!level) {
+      // The level it stopped on was unpublished or deleted
+      endCampaign();
+      return;
+    }
+    updateCampaign(savedCampaign);
+    loadLevel(level);
+  };
+
+  const handleSelectLevel = (level: Level) => {
+    leaveCampaign();
+    loadLevel(level);
+  };
+
+  // In a campaign every death costs a life. Returns false once they have run out (game over)
+  const spendCampaignLife = (): boolean => {
+    const active = campaignRef.current;
+    if (!active) return true;
+    const next = loseCampaignLife(active);
+    if (isCampaignOver(next)) {
+      gameOverRef.current = true;
+      setGameOver(next);
+      endCampaign();
+      return false;
+    }
+    updateCampaign(next);
+    return true;
+  };
+
   const handleNextLevel = () => {
     if (!currentLevel) return;
+    // A campaign only moves on once the level is cleared
+    if (campaignRef.current && !levelCompleteRef.current) return;
     const currentIndex = publishedLevels.findIndex(l => l.id === currentLevel.id);
     if (currentIndex < publishedLevels.length - 1) {
       loadLevel(publishedLevels[currentIndex + 1]);
@@ -134,17 +322,109 @@ export default function GamePage(): JSX.Element {
   };
 
   const handlePrevLevel = () => {
-    if (!currentLevel) return;
+    if (!currentLevel || campaignRef.current) return;
     const currentIndex = publishedLevels.findIndex(l => l.id === currentLevel.id);
     if (currentIndex > 0) {
       loadLevel(publishedLevels[currentIndex - 1]);
     }
   };
 
+  // Restarting a campaign level costs a life, like dying does (unless this death was already charged)
   const handleRestart = () => {
-    if (currentLevel) {
-      loadLevel(currentLevel);
+    if (!currentLevel) return;
+    if (campaignRef.current) {
+      // A cleared campaign level has already moved the campaign on
+      if (levelCompleteRef.current) return;
+      if (!playerDeadRef.current && !spendCampaignLife()) return;
+    }
+    loadLevel(currentLevel);
+  };
+
+  const handleWatchReplay = (level: Level, replay: Replay) => {
+    leaveCampaign();
+    loadLevel(level, replay);
+  };
+
+  // Save completion with the recorded run (signed-in players only).
+  // Resolves to the best time from before this run, read first so the save can't overwrite it,
+  // and whether this run's time was accepted, along with the verified time that was saved
+  const saveLevelCompletion = async (
+    level: Level,
+    finalState: GameState,
+    score: ScoreBreakdown,
+    replay: Replay,
+    campaign: boolean
+  ): Promise<{ previousBest: number | null; accepted: boolean; time: number }> => {
+    if (!user) return { previousBest: null, accepted: false, time: finalState.time };
+
+    // A time only counts if re-running the recorded input from a fresh level reaches the goal.
+    // Campaign runs never set best times, and start from carried-over inventory a fresh level lacks
+    let time = finalState.time;
+    if (!campaign) {
+      const verification = verifyReplay(levelToLevelData(level), replay);
+      if (!verification.valid) {
+        logWarning("Run failed replay verification, not saving it", verification.reason);
+        const previousBest = await getBestTime(user.id, level.id).catch(() => null);
+        return { previousBest, accepted: false, time };
+      }
+      time = verification.time;
+    }
+
+    let previousBest: number | null = null;
+    try {
+      previousBest = await getBestTime(user.id, level.id);
+      await upsertProgress(user.id, level.id, {
+        completed: true,
+        time,
+        deaths: finalState.deaths,
+        score: score.total,
+        replay,
+        campaign
+      });
+    } catch (error) {
+      logError("Failed to save progress", error);
+    }
+    return { previousBest, accepted: !campaign, time };
+  };
+
+  // Show the results screen once the run is saved and the previous best is known
+  const showLevelResults = async (level: Level, finalState: GameState, replay: Replay) => {
+    const score = calculateScore(finalState);
+    const stars = getStarRating(score.total, levelToLevelData(level).starThresholds);
+
+    // Bank the level in the campaign straight away, so quitting on the results screen loses nothing
+    const active = campaignRef.current;
+    let campaignAfter: CampaignState | null = null;
+    if (active) {
+      const nextLevel = publishedLevels[publishedLevels.findIndex(l => l.id === level.id) + 1] ?? null;
+      campaignAfter = completeCampaignLevel(active, finalState, score, stars, nextLevel?.id ?? null);
+      if (nextLevel) {
+        updateCampaign(campaignAfter);
+      } else {
+        endCampaign();
+      }
     }
+
+    const [{ previousBest, accepted, time }] = await Promise.all([
+      // Campaign runs start with carried-over inventory, so they don't count towards best times
+      saveLevelCompletion(level, finalState, score, replay, Boolean(active)),
+      new Promise((resolve) => {
+        levelCompleteTimeoutRef.current = window.setTimeout(resolve, 1000);
+      })
+    ]);
+    // The player may have moved on (restart, level select) while the save was in flight
+    if (!levelCompleteRef.current) return;
+
+    // Judge the badge on the verified time that was saved, not the live clock
+    const newBest = accepted && (previousBest === null || time < previousBest);
+    setResults({
+      finalState,
+      score,
+      stars,
+      bestTime: user ? (newBest ? time : previousBest) : null,
+      newBest,
+      campaign: campaignAfter
+    });
   };
 
   // Responsive touch controls visibility
@@ -248,24 +528,91 @@ export default function GamePage(): JSX.Element {
   // Game loop - LAYERED RENDERING OPTIMIZATION
   // Static layer (background + terrain) only re-renders when camera moves >5px or terrain changes
   // Dynamic layer (player, monsters, bullets) renders every frame
+  // Simulation runs at a fixed 60 ticks/s regardless of display refresh rate;
+  // rendering interpolates between the last two ticks
   useEffect(() => {
     if (!currentLevel) return;
 
-    const update = () => {
-      setGameState(prev => {
-        const { state: updatedState, events } = updateGameFrame(prev, keysRef.current);
+    const clock = createFixedStepClock();
+    previousStateRef.current = gameStateRef.current;
+
+    const update = (now: number) => {
+      input.poll();
+      const { steps, alpha } = pausedRef.current
+        ? holdFixedStepClock(clock)
+        : advanceFixedStepClock(clock, now);
+
+      // The simulation stops once the goal is reached; the results screen takes over from there
+      if (steps > 0 && !levelCompleteRef.current && !gameOverRef.current) {
+        const keys = input.readKeys();
+        const actions = input.takeActions();
+        const replay = replayRef.current;
+        const recorder = recorderRef.current;
+
+        // Haptic feedback is for the player's own run, not replays
+        const buzz = (kind: HapticKind) => {
+          if (!replay && touchLayoutRef.current.haptics) vibrate(kind);
+        };
+
+        // Step the simulation once, outside React: state updaters may run twice (StrictMode),
+        // and the events below play sounds, spend lives and start timers
+        const prev = gameStateRef.current;
+        const firstTick = prev.tick;
+        const readInput = (tick: number): TickInput => {
+          if (replay) {
+            return getReplayInput(replay, tick);
+          }
+          const tickInput = { keys, actions: tick === firstTick ? actions : [] };
+          recordReplayTick(recorder, tick, tickInput);
+          return tickInput;
+        };
+
+        const { state: updatedState, previousState, events } = runFixedSteps(prev, steps, readInput);
+        previousStateRef.current = previousState;
+        gameStateRef.current = updatedState;
+        setGameState(updatedState);
 
         // Play sound effects based on events
+        if (events.jumped || events.monsterStomped) {
+          playSound("jump");
+        }
+        if (events.meleeSwung) {
+          playSound("itemPick");
+        }
+        if (events.shotFired || events.enemyFired) {
+          playSound("gunShoot");
+        }
+        if (events.bombPlaced || events.doorOpened || events.switchToggled) {
+          playSound("itemPick");
+        }
         if (events.itemCollected) {
           playSound("itemPick");
+          buzz("pickup");
+        }
+        if (events.bossDefeated) {
+          playSound("boom");
         }
         if (events.bombExploded) {
           playSound("boom");
           // Re-render static layer when terrain changes (bombs destroy blocks)
           setStaticLayerHash(currentLevel.id + "_" + Date.now());
         }
+        if (events.switchToggled) {
+          // Re-render static layer so linked doors show as opened or closed
+          setStaticLayerHash(currentLevel.id + "_" + Date.now());
+        }
         if (events.tookDamage) {
           playSound("stricks");
+          buzz("damage");
+        }
+        if (events.checkpointReached) {
+          playSound("itemPick");
+        }
+        if (events.respawned) {
+          playSound("playerOut");
+          spendCampaignLife();
+          // The world went back to the checkpoint snapshot, blown-up stone and opened doors included
+          setStaticLayerHash(currentLevel.id + "_" + Date.now());
         }
 
         if (events.playerDied && !playerDeadRef.current) {
@@ -275,11 +622,13 @@ export default function GamePage(): JSX.Element {
           if (playerDeathTimeoutRef.current) {
             window.clearTimeout(playerDeathTimeoutRef.current);
           }
-          playerDeathTimeoutRef.current = window.setTimeout(() => {
-            if (currentLevel) {
-              loadLevel(currentLevel);
-            }
-          }, 500);
+          if (spendCampaignLife()) {
+            playerDeathTimeoutRef.current = window.setTimeout(() => {
+              if (currentLevel) {
+                loadLevel(currentLevel, null, updatedState.deaths);
+              }
+            }, 500);
+          }
         }
 
         if (events.levelComplete && !levelCompleteRef.current) {
@@ -288,13 +637,21 @@ export default function GamePage(): JSX.Element {
           if (levelCompleteTimeoutRef.current) {
             window.clearTimeout(levelCompleteTimeoutRef.current);
           }
-          levelCompleteTimeoutRef.current = window.setTimeout(() => {
-            handleNextLevel();
-          }, 1000);
-        }
 
-        return updatedState;
-      });
+          if (replay) {
+            // Replay finished: hand control back to the player on the same level
+            levelCompleteTimeoutRef.current = window.setTimeout(() => {
+              loadLevel(currentLevel);
+            }, 1000);
+          } else {
+            showLevelResults(
+              currentLevel,
+              updatedState,
+              finishReplay(recorder, currentLevel.id, currentLevel.level_number, updatedState)
+            );
+          }
+        }
+      }
 
       // Render dynamic layer every frame
       const dynamicCanvas = dynamicCanvasRef.current;
@@ -302,8 +659,9 @@ export default function GamePage(): JSX.Element {
       if (dynamicCanvas) {
         const ctx = dynamicCanvas.getContext("2d");
         if (ctx) {
+          const renderState = interpolateGameState(previousStateRef.current, gameStateRef.current, alpha);
           const { cameraX, cameraY } = calculateCameraPosition(
-            gameStateRef.current,
+            renderState,
             dynamicCanvas.width,
             dynamicCanvas.height
           );
@@ -315,14 +673,14 @@ export default function GamePage(): JSX.Element {
           if ((cameraDeltaX > 5 || cameraDeltaY > 5) && staticCanvas) {
             const staticCtx = staticCanvas.getContext("2d");
             if (staticCtx) {
-              drawStaticLayer(staticCtx, gameStateRef.current, textures, cameraX, cameraY);
+              drawStaticLayer(staticCtx, renderState, textures, cameraX, cameraY);
               lastCameraXRef.current = cameraX;
               lastCameraYRef.current = cameraY;
             }
           }
 
           // Always render dynamic layer (player, monsters, bullets, animations)
-          drawDynamicLayer(ctx, gameStateRef.current, textures, cameraX, cameraY);
+          drawDynamicLayer(ctx, renderState, textures, cameraX, cameraY);
         }
       }
 
@@ -345,150 +703,16 @@ export default function GamePage(): JSX.Element {
     };
   }, []);
 
-  // Keyboard handlers
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      keysRef.current[e.key] = true;
-
-      if (e.key === " " && gameStateRef.current.player.onGround) {
-        e.preventDefault();
-        playSound("jump");
-        setGameState(prev => {
-          const next = { ...prev, player: { ...prev.player } };
-          jump(next.player);
-          return next;
-        });
-      }
-
-      if (e.key === "f" || e.key === "F") {
-        if (gameStateRef.current.player.hasWeapon && gameStateRef.current.ammo > 0) {
-          playSound("gunShoot");
-          setGameState(prev => ({
-            ...prev,
-            bullets: [...prev.bullets, createPlayerBullet(prev.player)],
-            ammo: prev.ammo - 1
-          }));
-        }
-      }
-
-      if (e.key === "b" || e.key === "B") {
-        if (gameStateRef.current.bombCount > 0) {
-          playSound("itemPick");
-          setGameState(prev => ({
-            ...prev,
-            placedBombs: [...prev.placedBombs, createPlacedBomb(prev.player)],
-            bombCount: prev.bombCount - 1
-          }));
-        }
-      }
-
-      if (e.key === "k" || e.key === "K") {
-        setGameState(prev => {
-          const next = { ...prev };
-          const opened = tryOpenDoor(next);
-          if (opened) {
-            playSound("itemPick"); // Play sound when door is opened
-          }
-          return next;
-        });
-      }
-    };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      keysRef.current[e.key] = false;
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    window.addEventListener("keyup", handleKeyUp);
-
-    return () => {
-      window.removeEventListener("keydown", handleKeyDown);
-      window.removeEventListener("keyup", handleKeyUp);
-    };
-  }, []);
-
-  // Touch control handlers for mobile
-  const handleLeftStart = () => {
-    keysRef.current["ArrowLeft"] = true;
-  };
-
-  const handleLeftEnd = () => {
-    keysRef.current["ArrowLeft"] = false;
-  };
-
-  const handleRightStart = () => {
-    keysRef.current["ArrowRight"] = true;
-  };
-
-  const handleRightEnd = () => {
-    keysRef.current["ArrowRight"] = false;
-  };
-
-  const handleJump = () => {
-    if (gameStateRef.current.player.onGround) {
-      playSound("jump");
-      setGameState(prev => {
-        const next = { ...prev, player: { ...prev.player } };
-        jump(next.player);
-        return next;
-      });
-    }
+  // Finish moving touch buttons around: keep the layout for this device and carry on playing
+  const handleTouchLayoutDone = () => {
+    saveTouchLayout(touchLayoutDeviceKey, touchLayout);
+    setEditingTouchLayout(false);
+    setPausedState(false);
   };
 
-  // Action button: Long press detection for mobile
-  const handleActionStart = () => {
-    setActionPressStart(Date.now());
-  };
-
-  const handleActionEnd = () => {
-    if (actionPressStart === null) return;
-
-    const pressDuration = Date.now() - actionPressStart;
-    const state = gameStateRef.current;
-    setActionPressStart(null);
-
-    // Long press (>= 300ms): Try door first, then bomb
-    if (pressDuration >= 300) {
-      // Try to open door if near one and has key
-      if (state.keys > 0) {
-        setGameState(prev => {
-          const next = { ...prev };
-          const opened = tryOpenDoor(next);
-          if (opened) {
-            playSound("itemPick");
-            return next;
-          }
-          // If door didn't open, try bomb instead
-          if (state.bombCount > 0) {
-            playSound("itemPick");
-            return {
-              ...next,
-              placedBombs: [...next.placedBombs, createPlacedBomb(next.player)],
-              bombCount: next.bombCount - 1
-            };
-          }
-          return next;
-        });
-      } else if (state.bombCount > 0) {
-        // No key, just place bomb
-        playSound("itemPick");
-        setGameState(prev => ({
-          ...prev,
-          placedBombs: [...prev.placedBombs, createPlacedBomb(prev.player)],
-          bombCount: prev.bombCount - 1
-        }));
-      }
-    } else {
-      // Short press (< 300ms): Shoot
-      if (state.player.hasWeapon && state.ammo > 0) {
-        playSound("gunShoot");
-        setGameState(prev => ({
-          ...prev,
-          bullets: [...prev.bullets, createPlayerBullet(prev.player)],
-          ammo: prev.ammo - 1
-        }));
-      }
-    }
+  const startEditingTouchLayout = () => {
+    setEditingTouchLayout(true);
+    setPausedState(true);
   };
 
   if (loading) {
@@ -537,8 +761,31 @@ export default function GamePage(): JSX.Element {
             <p className="text-xl text-slate-600">Choose a level to play</p>
           </div>
 
+          {publishedLevels.length > 0 && (
+            <div className="mb-8 flex flex-wrap items-center justify-center gap-3">
+              <button
+                onClick={startCampaign}
+                className="rounded-lg bg-green-500 hover:bg-green-600 px-6 py-3 font-semibold text-white hover:shadow-lg transition"
+              >
+                ▶ Start Campaign
+              </button>
+              {savedCampaign && (
+                <button
+                  onClick={resumeCampaign}
+                  className="rounded-lg bg-white border-2 border-purple-300 hover:border-purple-500 px-6 py-3 font-semibold text-purple-700 hover:shadow-lg transition"
+                >
+                  ⏯ Resume Campaign
+                  <span className="ml-2 text-sm font-normal text-slate-500">
+                    Level {savedCampaign.levelsCleared + 1} · 💖 {savedCampaign.lives} · {savedCampaign.score} pts
+                  </span>
+                </button>
+              )}
+            </div>
+          )}
+
           <LevelSelector
-            onSelectLevel={loadLevel}
+            onSelectLevel={handleSelectLevel}
+            onWatchReplay={handleWatchReplay}
             currentLevelId={currentLevel?.id}
           />
 
@@ -581,6 +828,11 @@ export default function GamePage(): JSX.Element {
               <div className="bg-white/20 backdrop-blur-sm rounded-full text-white font-bold px-3 py-1 text-xs">
                 Lv {currentLevel?.level_number || 1}
               </div>
+              {watchingReplay && (
+                <div className="bg-red-500/80 rounded-full text-white font-bold px-3 py-1 text-xs animate-pulse">
+                  🎬 Replay
+                </div>
+              )}
             </div>
           )}
 
@@ -592,22 +844,41 @@ export default function GamePage(): JSX.Element {
                 Lv {currentLevel?.level_number || 1}
               </div>
             )}
+            {isMobileLandscape && watchingReplay && (
+              <div className="bg-red-500/80 rounded-full text-white font-bold px-2 py-0.5 text-xs">
+                🎬
+              </div>
+            )}
 
             {/* Stats HUD */}
             <div className={`flex items-center bg-black/20 backdrop-blur-sm rounded-full ${
               isMobileLandscape ? 'gap-0.5 px-2 py-1' : 'gap-1 px-4 py-1.5'
             }`}>
+            {/* Campaign lives */}
+            {campaign && (
+              <>
+                <div className={`flex items-center gap-0.5 ${isMobileLandscape ? 'px-1' : 'px-2'}`} title="Campaign lives">
+                  <span className={isMobileLandscape ? 'text-xs' : 'text-sm'}>💖</span>
+                  <span className="text-white text-xs font-bold min-w-[1ch]">{campaign.lives}</span>
+                </div>
+                <div className={`w-px bg-white/20 ${isMobileLandscape ? 'h-3' : 'h-4'}`}></div>
+              </>
+            )}
+
             {/* Keys */}
             <div className={`flex items-center gap-0.5 ${isMobileLandscape ? 'px-1' : 'px-2'}`}>
               <span className={isMobileLandscape ? 'text-xs' : 'text-sm'}>🔑</span>
-              <span className="text-white text-xs font-bold min-w-[1ch]">{gameState.keys}</span>
+              <KeyCounter keys={gameState.keys} className="text-white text-xs min-w-[1ch]" />
             </div>
             <div className={`w-px bg-white/20 ${isMobileLandscape ? 'h-3' : 'h-4'}`}></div>
 
-            {/* Ammo */}
+            {/* Weapon and ammo */}
             <div className={`flex items-center gap-0.5 ${isMobileLandscape ? 'px-1' : 'px-2'}`}>
-              <span className={isMobileLandscape ? 'text-xs' : 'text-sm'}>🔫</span>
-              <span className="text-white text-xs font-bold min-w-[1ch]">{gameState.ammo}</span>
+              <AmmoCounter
+                ammo={gameState.ammo}
+                currentWeapon={gameState.currentWeapon}
+                className="text-white text-xs min-w-[1ch]"
+              />
             </div>
             <div className={`w-px bg-white/20 ${isMobileLandscape ? 'h-3' : 'h-4'}`}></div>
 
@@ -627,11 +898,28 @@ export default function GamePage(): JSX.Element {
             </div>
             <div className={`w-px bg-white/20 ${isMobileLandscape ? 'h-3' : 'h-4'}`}></div>
 
+            {/* Coins */}
+            <div className={`flex items-center gap-0.5 ${isMobileLandscape ? 'px-1' : 'px-2'}`}>
+              <span className={isMobileLandscape ? 'text-xs' : 'text-sm'}>🪙</span>
+              <span className="text-white text-xs font-bold min-w-[1ch]">{gameState.coins}</span>
+            </div>
+            <div className={`w-px bg-white/20 ${isMobileLandscape ? 'h-3' : 'h-4'}`}></div>
+
             {/* Bombs */}
             <div className={`flex items-center gap-0.5 ${isMobileLandscape ? 'px-1' : 'px-2'}`}>
               <span className={isMobileLandscape ? 'text-xs' : 'text-sm'}>💣</span>
               <span className="text-white text-xs font-bold min-w-[1ch]">{gameState.bombCount}</span>
             </div>
+
+            {/* Boss health */}
+            {gameState.bosses.map((boss, index) => (
+              <BossHealthBar
+                key={index}
+                boss={boss}
+                compact={isMobileLandscape}
+                className={isMobileLandscape ? 'px-1' : 'px-2'}
+              />
+            ))}
             {!isMobileLandscape && <div className="w-px h-4 bg-white/20"></div>}
 
             {/* Time - Hide on mobile */}
@@ -668,16 +956,23 @@ export default function GamePage(): JSX.Element {
           {/* Desktop: Action Buttons */}
           {!isMobileLandscape && (
             <div className="flex items-center gap-1.5">
+              <button
+                onClick={() => setPausedState(true)}
+                className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-all hover:scale-110 flex items-center justify-center"
+                title="Pause (Esc)"
+              >
+                ⏸️
+              </button>
               <button
                 onClick={handleRestart}
                 className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-all hover:scale-110 flex items-center justify-center"
-                title="Restart Level"
+                title={campaign ? "Restart Level (costs a life)" : "Restart Level"}
               >
                 🔄
               </button>
               <button
                 onClick={handlePrevLevel}
-                disabled={!currentLevel || publishedLevels.findIndex(l => l.id === currentLevel.id) === 0}
+                disabled={!currentLevel || campaign !== null || publishedLevels.findIndex(l => l.id === currentLevel.id) === 0}
                 className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-all hover:scale-110 flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:scale-100"
                 title="Previous Level"
               >
@@ -685,7 +980,7 @@ export default function GamePage(): JSX.Element {
               </button>
               <button
                 onClick={handleNextLevel}
-                disabled={!currentLevel || publishedLevels.findIndex(l => l.id === currentLevel.id) === publishedLevels.length - 1}
+                disabled={!currentLevel || (campaign !== null && !results) || publishedLevels.findIndex(l => l.id === currentLevel.id) === publishedLevels.length - 1}
                 className="w-8 h-8 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-all hover:scale-110 flex items-center justify-center disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:scale-100"
                 title="Next Level"
               >
@@ -707,17 +1002,13 @@ export default function GamePage(): JSX.Element {
                 📋
               </button>
               <button
-                onClick={() => {
-                  const newMutedState = !isMuted;
-                  setIsMuted(newMutedState);
-                setMuted(newMutedState);
-              }}
+                onClick={() => updateAudioSettings({ ...audioSettings, muted: !audioSettings.muted })}
               className={`rounded-lg bg-white/10 hover:bg-white/20 text-white transition-all hover:scale-110 flex items-center justify-center ${
                 isMobileLandscape ? 'w-6 h-6 text-xs' : 'w-8 h-8 text-sm'
               }`}
-              title={isMuted ? "Unmute sound" : "Mute sound"}
+              title={audioSettings.muted ? "Unmute sound" : "Mute sound"}
             >
-              {isMuted ? "🔇" : "🔊"}
+              {audioSettings.muted ? "🔇" : "🔊"}
             </button>
             </div>
           )}
@@ -742,6 +1033,28 @@ export default function GamePage(): JSX.Element {
 
             {/* Menu items */}
             <div className="p-1.5">
+              <button
+                onClick={() => {
+                  setPausedState(true);
+                  setShowMobileMenu(false);
+                }}
+                className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <span className="text-lg">⏸️</span>
+                <span className="text-sm text-slate-700">Pause</span>
+              </button>
+
+              <button
+                onClick={() => {
+                  startEditingTouchLayout();
+                  setShowMobileMenu(false);
+                }}
+                className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2"
+              >
+                <span className="text-lg">📱</span>
+                <span className="text-sm text-slate-700">Touch Layout</span>
+              </button>
+
               <button
                 onClick={() => {
                   handleRestart();
@@ -750,7 +1063,7 @@ export default function GamePage(): JSX.Element {
                 className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2"
               >
                 <span className="text-lg">🔄</span>
-                <span className="text-sm text-slate-700">Restart Level</span>
+                <span className="text-sm text-slate-700">{campaign ? "Restart Level (-1 💖)" : "Restart Level"}</span>
               </button>
 
               <button
@@ -758,7 +1071,7 @@ export default function GamePage(): JSX.Element {
                   handlePrevLevel();
                   setShowMobileMenu(false);
                 }}
-                disabled={!currentLevel || publishedLevels.findIndex(l => l.id === currentLevel.id) === 0}
+                disabled={!currentLevel || campaign !== null || publishedLevels.findIndex(l => l.id === currentLevel.id) === 0}
                 className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <span className="text-lg">⏮️</span>
@@ -770,7 +1083,7 @@ export default function GamePage(): JSX.Element {
                   handleNextLevel();
                   setShowMobileMenu(false);
                 }}
-                disabled={!currentLevel || publishedLevels.findIndex(l => l.id === currentLevel.id) === publishedLevels.length - 1}
+                disabled={!currentLevel || (campaign !== null && !results) || publishedLevels.findIndex(l => l.id === currentLevel.id) === publishedLevels.length - 1}
                 className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <span className="text-lg">⏭️</span>
@@ -779,15 +1092,13 @@ export default function GamePage(): JSX.Element {
 
               <button
                 onClick={() => {
-                  const newMutedState = !isMuted;
-                  setIsMuted(newMutedState);
-                  setMuted(newMutedState);
+                  updateAudioSettings({ ...audioSettings, muted: !audioSettings.muted });
                   setShowMobileMenu(false);
                 }}
                 className="w-full px-4 py-2 text-left hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2"
               >
-                <span className="text-lg">{isMuted ? "🔇" : "🔊"}</span>
-                <span className="text-sm text-slate-700">Sound {isMuted ? "Off" : "On"}</span>
+                <span className="text-lg">{audioSettings.muted ? "🔇" : "🔊"}</span>
+                <span className="text-sm text-slate-700">Sound {audioSettings.muted ? "Off" : "On"}</span>
               </button>
 
               <div className="h-px bg-slate-200 my-1"></div>
@@ -804,6 +1115,47 @@ export default function GamePage(): JSX.Element {
         </div>
       )}
 
+      {/* Level Results */}
+      {results && currentLevel && (
+        <ResultsScreen
+          levelNumber={currentLevel.level_number}
+          finalState={results.finalState}
+          score={results.score}
+          stars={results.stars}
+          bestTime={results.bestTime}
+          newBest={results.newBest}
+          hasNextLevel={publishedLevels.findIndex(l => l.id === currentLevel.id) < publishedLevels.length - 1}
+          campaign={results.campaign}
+          onNextLevel={handleNextLevel}
+          onRetry={results.campaign ? undefined : handleRestart}
+          onLevelSelect={() => setShowLevelSelector(true)}
+        />
+      )}
+
+      {/* Pause Menu */}
+      {paused && !results && !gameOver && !editingTouchLayout && (
+        <PauseMenu
+          audioSettings={audioSettings}
+          keyBindings={input.bindings}
+          onResume={() => setPausedState(false)}
+          onRestart={handleRestart}
+          restartCostsLife={campaign !== null}
+          onLevelSelect={() => setShowLevelSelector(true)}
+          onAudioSettingsChange={updateAudioSettings}
+          onKeyBindingsChange={input.setBindings}
+          onEditTouchLayout={showTouchControls ? startEditingTouchLayout : undefined}
+        />
+      )}
+
+      {/* Campaign Over */}
+      {gameOver && (
+        <GameOverScreen
+          campaign={gameOver}
+          onNewCampaign={startCampaign}
+          onLevelSelect={() => setShowLevelSelector(true)}
+        />
+      )}
+
       {/* Game Canvas with Ambient Glow */}
       <div className={`flex items-center justify-center bg-gradient-to-b from-slate-900 via-slate-800 to-slate-900 overflow-hidden relative ${
         showTouchControls ? 'p-0 h-screen' : 'flex-1 p-6'
@@ -854,27 +1206,40 @@ export default function GamePage(): JSX.Element {
             <h3 className="mb-3 text-lg font-bold text-slate-800">🎮 Game Controls</h3>
             <div className="grid grid-cols-2 gap-x-8 gap-y-3 text-sm text-slate-700">
               <div className="flex items-center gap-2">
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">← →</kbd>
-                <span>or</span>
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">A D</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.moveLeft)}</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.moveRight)}</kbd>
                 <span className="font-medium">Move left/right</span>
               </div>
               <div className="flex items-center gap-2">
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">SPACE</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.jump)}</kbd>
                 <span className="font-medium">Jump</span>
               </div>
               <div className="flex items-center gap-2">
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">F</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.fire)}</kbd>
                 <span className="font-medium">Shoot weapon (when collected)</span>
               </div>
               <div className="flex items-center gap-2">
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">B</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.melee)}</kbd>
+                <span className="font-medium">Melee swipe ({formatBindingLabel(input.bindings.fire)} does this too without a weapon)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.switchWeapon)}</kbd>
+                <span className="font-medium">Switch weapon</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.bomb)}</kbd>
                 <span className="font-medium">Place bomb (destroys stone blocks)</span>
               </div>
               <div className="flex items-center gap-2">
-                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">K</kbd>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">{formatBindingLabel(input.bindings.openDoor)}</kbd>
                 <span className="font-medium">Open door (requires key)</span>
               </div>
+              <div className="flex items-center gap-2">
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">ESC</kbd>
+                <span>or</span>
+                <kbd className="rounded bg-slate-200 px-3 py-2 font-mono text-sm font-bold">P</kbd>
+                <span className="font-medium">Pause, settings and key rebinding</span>
+              </div>
             </div>
           </div>
         </div>
@@ -883,13 +1248,12 @@ export default function GamePage(): JSX.Element {
       {/* Mobile Touch Controls - Only visible on mobile/tablet (<1024px) */}
       {showTouchControls && (
         <TouchControls
-          onLeftStart={handleLeftStart}
-          onLeftEnd={handleLeftEnd}
-          onRightStart={handleRightStart}
-          onRightEnd={handleRightEnd}
-          onJump={handleJump}
-          onActionStart={handleActionStart}
-          onActionEnd={handleActionEnd}
+          layout={touchLayout}
+          editing={editingTouchLayout}
+          onPress={input.press}
+          onRelease={input.release}
+          onLayoutChange={setTouchLayout}
+          onEditDone={handleTouchLayoutDone}
         />
       )}
     </div>
@@ -1,7 +1,8 @@
 import { supabase } from '../config/supabase';
-import type { LevelData } from '../types';
+import { MAX_BOMB_RADIUS, MIN_BOMB_RADIUS, type LevelData } from '../types';
 import type { Database } from '../types/database.types';
 import { processLevelName } from '../utils/sanitize';
+import { KEY_CHANNEL_OPTIONS, MONSTER_KIND_OPTIONS, WEAPON_KIND_OPTIONS } from '../constants';
 
 type Level = Database['public']['Tables']['levels']['Row'];
 type LevelInsert = Database['public']['Tables']['levels']['Insert'];
@@ -267,6 +268,88 @@ function validateLevelData(data: unknown): data is LevelData {
   validatePositionArray(d.doors || [], 'doors');
   validatePositionArray(d.firetraps || [], 'firetraps');
 
+  // Key/door channels are optional (older levels have none) but must be a known color
+  const validateChannels = (arr: any[], name: string) => {
+    arr.forEach((item, index) => {
+      if (item.channel !== undefined && !KEY_CHANNEL_OPTIONS.some((option) => option.value === item.channel)) {
+        throw new Error(`${name}[${index}] has an unknown key channel`);
+      }
+    });
+  };
+  validateChannels(d.keys || [], 'keys');
+  validateChannels(d.doors || [], 'doors');
+
+  // Monster kinds are optional too (no kind means the original patroller)
+  (d.monsters || []).forEach((monster: any, index: number) => {
+    if (monster.kind !== undefined && !MONSTER_KIND_OPTIONS.some((option) => option.value === monster.kind)) {
+      throw new Error(`monsters[${index}] has an unknown kind`);
+    }
+  });
+
+  // And weapon kinds (no kind means the pistol)
+  (d.weapons || []).forEach((weapon: any, index: number) => {
+    if (weapon.kind !== undefined && !WEAPON_KIND_OPTIONS.some((option) => option.value === weapon.kind)) {
+      throw new Error(`weapons[${index}] has an unknown kind`);
+    }
+  });
+
+  // Bombable flags are optional booleans on doors and traps
+  const validateBombable = (arr: any[], name: string) => {
+    arr.forEach((item, index) => {
+      if (item.bombable !== undefined && typeof item.bombable !== 'boolean') {
+        throw new Error(`${name}[${index}].bombable must be a boolean`);
+      }
+    });
+  };
+  validateBombable(d.doors || [], 'doors');
+  validateBombable(d.firetraps || [], 'firetraps');
+  validateBombable(d.spiketraps || [], 'spiketraps');
+
+  if (d.bombRadius !== undefined) {
+    if (!Number.isInteger(d.bombRadius) || d.bombRadius < MIN_BOMB_RADIUS || d.bombRadius > MAX_BOMB_RADIUS) {
+      throw new Error(`bombRadius must be a whole number from ${MIN_BOMB_RADIUS} to ${MAX_BOMB_RADIUS}`);
+    }
+  }
+
+  // Star scores go lowest first: one star, two stars, three stars
+  if (d.starThresholds !== undefined) {
+    const thresholds = d.starThresholds;
+    if (
+      !Array.isArray(thresholds) ||
+      thresholds.length !== 3 ||
+      thresholds.some((score: unknown) => typeof score !== 'number' || score < 0) ||
+      thresholds[0] > thresholds[1] ||
+      thresholds[1] > thresholds[2]
+    ) {
+      throw new Error('starThresholds must be three non-negative scores in ascending order');
+    }
+  }
+
+  // Bosses need a two-column arena [start, end]
+  validatePositionArray(d.bosses || [], 'bosses');
+  (d.bosses || []).forEach((boss: any, index: number) => {
+    const arena = boss.arena;
+    if (!Array.isArray(arena) || arena.length !== 2 || arena.some((column: unknown) => typeof column !== 'number')) {
+      throw new Error(`bosses[${index}].arena must be a [start, end] pair of columns`);
+    }
+  });
+
+  // Triggers need a known kind and a list of linked cells
+  validatePositionArray(d.triggers || [], 'triggers');
+  (d.triggers || []).forEach((trigger: any, index: number) => {
+    if (!['lever', 'plate', 'button'].includes(trigger.kind)) {
+      throw new Error(`triggers[${index}] has an unknown kind`);
+    }
+    validatePositionArray(trigger.links, `triggers[${index}].links`);
+  });
+
+  validatePositionArray(d.movingPlatforms || [], 'movingPlatforms');
+  (d.movingPlatforms || []).forEach((platform: any, index: number) => {
+    validatePositionArray(platform.path, `movingPlatforms[${index}].path`);
+  });
+  validatePositionArray(d.crumblingPlatforms || [], 'crumblingPlatforms');
+  validatePositionArray(d.checkpoints || [], 'checkpoints');
+
   // Validate playerStart and goal
   if (!d.playerStart || typeof d.playerStart.x !== 'number' || typeof d.playerStart.y !== 'number') {
     throw new Error('playerStart must have numeric x and y properties');
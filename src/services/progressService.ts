@@ -1,5 +1,6 @@
 import { supabase } from '../config/supabase';
-import type { Database } from '../types/database.types';
+import type { Database, Json } from '../types/database.types';
+import { parseReplay, type Replay } from '../state/replay';
 
 type Progress = Database['public']['Tables']['progress']['Row'];
 type ProgressInsert = Database['public']['Tables']['progress']['Insert'];
@@ -10,6 +11,8 @@ interface ProgressData {
   time: number;
   deaths: number;
   score: number;
+  replay?: Replay | null;
+  campaign?: boolean;   // Carried-over upgrades make the time unfair, so it never sets best_time or the replay
 }
 
 /**
@@ -63,7 +66,8 @@ export async function getAllPlayerProgress(playerId: string): Promise<Progress[]
 
 /**
  * Upsert player progress (create or update)
- * Only updates if new time is better or level just completed
+ * Only updates if new time is better or level just completed.
+ * Campaign runs can complete a level but leave its best time and replay alone
  */
 export async function upsertProgress(
   playerId: string,
@@ -78,21 +82,34 @@ export async function upsertProgress(
     const existingBestTime = typeof existing.best_time === 'number' ? existing.best_time : null;
     const shouldUpdate =
       !existing.completed ||
-      (progressData.completed &&
-       existingBestTime !== null &&
-       progressData.time < existingBestTime);
-
-    if (shouldUpdate) {
-      const existingDeaths = typeof existing.total_deaths === 'number' ? existing.total_deaths : 0;
-      const existingScore = typeof existing.score === 'number' ? existing.score : 0;
-
-      const update: ProgressUpdate = {
-        completed: progressData.completed,
-        best_time: progressData.time,
-        total_deaths: existingDeaths + progressData.deaths,
-        score: Math.max(progressData.score, existingScore),
-        completed_at: progressData.completed ? new Date().toISOString() : existing.completed_at,
-      };
+      (!progressData.campaign &&
+       progressData.completed &&
+       (existingBestTime === null || progressData.time < existingBestTime));
+
+    const existingDeaths = typeof existing.total_deaths === 'number' ? existing.total_deaths : 0;
+    const existingScore = typeof existing.score === 'number' ? existing.score : 0;
+
+    // A slower clear keeps the old best time and replay, but its deaths still count towards
+    // the total and a higher score is still kept
+    if (shouldUpdate || progressData.deaths > 0 || progressData.score > existingScore) {
+
+      const update: ProgressUpdate = shouldUpdate
+        ? {
+            completed: progressData.completed,
+            total_deaths: existingDeaths + progressData.deaths,
+            score: Math.max(progressData.score, existingScore),
+            completed_at: progressData.completed ? new Date().toISOString() : existing.completed_at,
+            ...(progressData.campaign
+              ? {}
+              : {
+                  best_time: progressData.time,
+                  replay: (progressData.replay ?? null) as unknown as Json,
+                }),
+          }
+        : {
+            total_deaths: existingDeaths + progressData.deaths,
+            score: Math.max(progressData.score, existingScore),
+          };
 
       const { data, error } = await supabase
         .from('progress')
@@ -111,9 +128,10 @@ export async function upsertProgress(
       player_id: playerId,
       level_id: levelId,
       completed: progressData.completed,
-      best_time: progressData.time,
+      best_time: progressData.campaign ? null : progressData.time,
       total_deaths: progressData.deaths,
       score: progressData.score,
+      replay: progressData.campaign ? null : (progressData.replay ?? null) as unknown as Json,
       completed_at: progressData.completed ? new Date().toISOString() : null,
     };
 
@@ -246,3 +264,21 @@ export async function getBestTime(
   const progress = await getPlayerProgress(playerId, levelId);
   return progress?.best_time || null;
 }
+
+/**
+ * Get the replay of the fastest recorded run for a level
+ */
+export async function getBestReplay(levelId: string): Promise<Replay | null> {
+  const { data, error } = await supabase
+    .from('progress')
+    .select('replay')
+    .eq('level_id', levelId)
+    .eq('completed', true)
+    .not('replay', 'is', null)
+    .order('best_time', { ascending: true })
+    .limit(1);
+
+  if (error) throw error;
+  const row = (data as { replay: Json | null }[] | null)?.[0];
+  return row ? parseReplay(row.replay) : null;
+}
@@ -0,0 +1,5 @@
+import { vi } from "vitest";
+
+// Vitest runs with import.meta.env.DEV set, so the logger would print its dev output
+// (goal reached, malformed replays) all over the test run
+vi.mock("./utils/logger");
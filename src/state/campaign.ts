@@ -0,0 +1,71 @@
+import { createEmptyAmmoInventory, createInitialGameState } from "./gameState";
+import { MAX_STARS } from "./scoring";
+import type { CampaignState, GameState, ScoreBreakdown } from "../types";
+
+export const CAMPAIGN_START_LIVES = 3;
+// A three-star clear raises max health by one, up to this cap
+export const CAMPAIGN_MAX_HEALTH = 10;
+
+export function createCampaign(firstLevelId: string): CampaignState {
+  return {
+    levelId: firstLevelId,
+    levelsCleared: 0,
+    lives: CAMPAIGN_START_LIVES,
+    score: 0,
+    maxHealth: createInitialGameState().maxHealth,
+    ammo: createEmptyAmmoInventory(),
+    currentWeapon: null,
+    bombCount: 0
+  };
+}
+
+/**
+ * Start a level with what the campaign has carried over: full health at the campaign's
+ * max health, plus the weapons, ammo and bombs left at the end of the last level.
+ */
+export function applyCampaignToGameState(state: GameState, campaign: CampaignState): GameState {
+  return {
+    ...state,
+    maxHealth: campaign.maxHealth,
+    health: campaign.maxHealth,
+    ammo: { ...campaign.ammo },
+    currentWeapon: campaign.currentWeapon,
+    bombCount: campaign.bombCount,
+    player: {
+      ...state.player,
+      hasWeapon: campaign.currentWeapon !== null
+    }
+  };
+}
+
+/**
+ * Bank a cleared level: add its score, carry the inventory forward and move on to
+ * `nextLevelId` (null when it was the last level, which leaves `levelId` where it is).
+ */
+export function completeCampaignLevel(
+  campaign: CampaignState,
+  finalState: GameState,
+  score: ScoreBreakdown,
+  stars: number,
+  nextLevelId: string | null
+): CampaignState {
+  const upgrade = stars >= MAX_STARS ? 1 : 0;
+  return {
+    ...campaign,
+    levelId: nextLevelId ?? campaign.levelId,
+    levelsCleared: campaign.levelsCleared + 1,
+    score: campaign.score + score.total,
+    maxHealth: Math.min(CAMPAIGN_MAX_HEALTH, finalState.maxHealth + upgrade),
+    ammo: { ...finalState.ammo },
+    currentWeapon: finalState.currentWeapon,
+    bombCount: finalState.bombCount
+  };
+}
+
+export function loseCampaignLife(campaign: CampaignState): CampaignState {
+  return { ...campaign, lives: Math.max(0, campaign.lives - 1) };
+}
+
+export function isCampaignOver(campaign: CampaignState): boolean {
+  return campaign.lives <= 0;
+}
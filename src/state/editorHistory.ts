@@ -0,0 +1,89 @@
+import type { EditorState } from "../types";
+import { createLevelFromEditorState } from "./editorState";
+
+export const MAX_EDITOR_HISTORY = 100;
+
+// Editor settings that undo/redo leave alone - only the level layout is rewound
+const PRESERVED_FIELDS = [
+  "currentLevel",
+  "selectedTool",
+  "selectedChannel",
+  "drawMode",
+  "isDrawing",
+  "name",
+  "background",
+  "bombRadius",
+  "starThresholds"
+] as const;
+
+type PreservedField = (typeof PRESERVED_FIELDS)[number];
+
+export interface EditorHistory {
+  past: EditorState[];
+  future: EditorState[];
+}
+
+export function createEditorHistory(): EditorHistory {
+  return { past: [], future: [] };
+}
+
+/**
+ * Whether the level layout differs between two editor states
+ * (a click that re-paints the same tile is not worth an undo step)
+ */
+export function hasLayoutChanged(before: EditorState, after: EditorState): boolean {
+  if (before === after) return false;
+  return JSON.stringify(createLevelFromEditorState(before)) !== JSON.stringify(createLevelFromEditorState(after));
+}
+
+/**
+ * Push the state from before an edit onto the undo stack.
+ * Any new edit invalidates the redo stack.
+ */
+export function recordEditorHistory(history: EditorHistory, before: EditorState): EditorHistory {
+  return {
+    past: [...history.past, before].slice(-MAX_EDITOR_HISTORY),
+    future: []
+  };
+}
+
+function restoreLayout(snapshot: EditorState, current: EditorState): EditorState {
+  const restored = { ...snapshot };
+  const keep = <K extends PreservedField>(field: K) => {
+    restored[field] = current[field];
+  };
+  PRESERVED_FIELDS.forEach(keep);
+  return restored;
+}
+
+export function undoEditorHistory(history: EditorHistory, current: EditorState): {
+  history: EditorHistory;
+  editorState: EditorState;
+} | null {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future].slice(0, MAX_EDITOR_HISTORY)
+    },
+    editorState: restoreLayout(previous, current)
+  };
+}
+
+export function redoEditorHistory(history: EditorHistory, current: EditorState): {
+  history: EditorHistory;
+  editorState: EditorState;
+} | null {
+  const next = history.future[0];
+  if (!next) return null;
+
+  return {
+    history: {
+      past: [...history.past, current].slice(-MAX_EDITOR_HISTORY),
+      future: history.future.slice(1)
+    },
+    editorState: restoreLayout(next, current)
+  };
+}
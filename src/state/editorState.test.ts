@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { copyRegion, createInitialEditorState, floodFill, moveRegion, pasteRegion } from "./editorState";
+import { EMPTY_TILE, TILE_IDS } from "../tileset";
+import type { EditorState, Tool } from "../types";
+
+// Empty grid with a wall box around the top-left 4x4 cells
+function makeEditorState(tool: Tool): EditorState {
+  const state = createInitialEditorState();
+  const grid = state.grid.map((row, y) =>
+    row.map((_, x) => ((x === 4 && y <= 4) || (y === 4 && x <= 4) ? TILE_IDS.wall : EMPTY_TILE))
+  );
+  return { ...state, grid, selectedTool: tool, monsters: [], coins: [], playerStart: null, goal: null };
+}
+
+describe("floodFill", () => {
+  it("fills the connected area and clears the objects in it", () => {
+    const state = {
+      ...makeEditorState("stone"),
+      coins: [{ x: 1, y: 1 }, { x: 8, y: 8 }],
+      playerStart: { x: 2, y: 2 }
+    };
+    const filled = floodFill(state, 0, 0);
+
+    expect(filled.grid[3][3]).toBe(TILE_IDS.stone);
+    expect(filled.grid[5][5]).toBe(EMPTY_TILE);       // Outside the wall box
+    expect(filled.coins).toEqual([{ x: 8, y: 8 }]);
+    expect(filled.playerStart).toBeNull();
+  });
+
+  it("does nothing with an object tool", () => {
+    const state = makeEditorState("monster");
+    expect(floodFill(state, 0, 0)).toBe(state);
+  });
+});
+
+describe("moving and copying linked triggers", () => {
+  const region = { x: 0, y: 0, width: 3, height: 3 };
+  const linkedState = (): EditorState => ({
+    ...makeEditorState("wall"),
+    doors: [{ x: 2, y: 2 }, { x: 8, y: 8 }],
+    triggers: [
+      { x: 1, y: 1, kind: "lever", links: [{ x: 2, y: 2 }, { x: 8, y: 8 }] },
+      { x: 9, y: 9, kind: "lever", links: [{ x: 2, y: 2 }] }
+    ]
+  });
+
+  it("keeps links to doors outside the region when moving a trigger", () => {
+    const { state } = moveRegion(linkedState(), region, 5, 0);
+    const moved = state.triggers?.find((trigger) => trigger.x === 6);
+
+    expect(moved?.links).toEqual([{ x: 7, y: 2 }, { x: 8, y: 8 }]);
+  });
+
+  it("points outside triggers at a door's new cell", () => {
+    const { state } = moveRegion(linkedState(), region, 5, 0);
+    const outside = state.triggers?.find((trigger) => trigger.x === 9);
+
+    expect(outside?.links).toEqual([{ x: 7, y: 2 }]);
+  });
+
+  it("links a pasted copy to its own copied door and the same outside door", () => {
+    const state = linkedState();
+    const pasted = pasteRegion(state, copyRegion(state, region), 0, 5);
+    const copy = pasted.triggers?.find((trigger) => trigger.y === 6);
+
+    expect(copy?.links).toEqual([{ x: 2, y: 7 }, { x: 8, y: 8 }]);
+    expect(pasted.triggers?.find((trigger) => trigger.x === 1 && trigger.y === 1)?.links).toEqual(state.triggers?.[0].links);
+  });
+});
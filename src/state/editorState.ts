@@ -4,14 +4,31 @@ import {
   MIN_GRID_HEIGHT,
   MIN_GRID_WIDTH
 } from "../types";
+import { DEFAULT_KEY_CHANNEL, MONSTER_KIND_OPTIONS, WEAPON_KIND_OPTIONS } from "../constants";
+import { getTileDefinitionForTool } from "../tileset";
 import type {
   BackgroundKey,
+  DrawMode,
+  EditorBoss,
+  EditorCrumblingPlatform,
   EditorDoor,
+  EditorKey,
   EditorMonster,
+  EditorMovingPlatform,
+  EditorFireTrap,
+  EditorSpikeTrap,
   EditorState,
+  EditorTrigger,
+  EditorWeapon,
+  FireTrapDirection,
   GridPosition,
+  GridRect,
+  KeyChannel,
   LevelData,
-  Tool
+  MonsterKind,
+  Tool,
+  TriggerKind,
+  WeaponKind
 } from "../types";
 
 export const DEFAULT_GRID_WIDTH = 20;
@@ -42,11 +59,14 @@ export function createInitialEditorState(): EditorState {
   return {
     currentLevel: 1,
     selectedTool: "empty",
+    selectedChannel: DEFAULT_KEY_CHANNEL,
+    drawMode: "brush",
     gridWidth: DEFAULT_GRID_WIDTH,
     gridHeight: DEFAULT_GRID_HEIGHT,
     name: "Level 1",
     grid: createEmptyGrid(DEFAULT_GRID_WIDTH, DEFAULT_GRID_HEIGHT),
     monsters: [],
+    bosses: [],
     weapons: [],
     bombs: [],
     hearts: [],
@@ -55,6 +75,10 @@ export function createInitialEditorState(): EditorState {
     doors: [],
     firetraps: [],
     spiketraps: [],
+    triggers: [],
+    movingPlatforms: [],
+    crumblingPlatforms: [],
+    checkpoints: [],
     playerStart: null,
     goal: null,
     background: "none",
@@ -70,6 +94,7 @@ export function createLevelFromEditorState(state: EditorState): LevelData {
     gridHeight: state.gridHeight,
     grid: state.grid,
     monsters: state.monsters,
+    bosses: state.bosses,
     weapons: state.weapons,
     bombs: state.bombs,
     hearts: state.hearts,
@@ -78,10 +103,16 @@ export function createLevelFromEditorState(state: EditorState): LevelData {
     doors: state.doors,
     firetraps: state.firetraps,
     spiketraps: state.spiketraps,
+    triggers: state.triggers,
+    movingPlatforms: state.movingPlatforms,
+    crumblingPlatforms: state.crumblingPlatforms,
+    checkpoints: state.checkpoints,
     playerStart: state.playerStart,
     goal: state.goal,
     background: state.background,
-    theme: state.theme
+    theme: state.theme,
+    bombRadius: state.bombRadius,
+    starThresholds: state.starThresholds
   };
 }
 
@@ -93,6 +124,7 @@ export function applyLevelToEditorState(state: EditorState, level: LevelData): E
     gridHeight: level.gridHeight ?? state.gridHeight,
     grid: level.grid ?? createEmptyGrid(level.gridWidth ?? state.gridWidth, level.gridHeight ?? state.gridHeight),
     monsters: level.monsters ?? [],
+    bosses: level.bosses ?? [],
     weapons: level.weapons ?? [],
     bombs: level.bombs ?? [],
     hearts: level.hearts ?? [],
@@ -101,9 +133,15 @@ export function applyLevelToEditorState(state: EditorState, level: LevelData): E
     doors: level.doors ?? [],
     firetraps: level.firetraps ?? [],
     spiketraps: level.spiketraps ?? [],
+    triggers: level.triggers ?? [],
+    movingPlatforms: level.movingPlatforms ?? [],
+    crumblingPlatforms: level.crumblingPlatforms ?? [],
+    checkpoints: level.checkpoints ?? [],
     playerStart: level.playerStart ?? null,
     goal: level.goal ?? null,
-    background: (level.background ?? "none") as BackgroundKey
+    background: (level.background ?? "none") as BackgroundKey,
+    bombRadius: level.bombRadius,
+    starThresholds: level.starThresholds
   };
 }
 
@@ -119,14 +157,19 @@ export function upsertUnique<T extends GridPosition>(items: T[], item: T): T[] {
   return [...without, item];
 }
 
-export function createMonsterAt(x: number, y: number, width: number): EditorMonster {
+export function createMonsterAt(x: number, y: number, width: number, kind: MonsterKind = "patrol"): EditorMonster {
   const patrolStart = Math.max(0, x - 3);
   const patrolEnd = Math.min(width - 1, x + 3);
-  return { x, y, patrol: [patrolStart, patrolEnd] };
+  return { x, y, kind, patrol: [patrolStart, patrolEnd] };
 }
 
-export function createDoorAt(x: number, y: number): EditorDoor {
-  return { x, y, open: false };
+// Bosses roam a few columns either side of where they are placed
+export function createBossAt(x: number, y: number, width: number): EditorBoss {
+  return { x, y, arena: [Math.max(0, x - 4), Math.min(width - 1, x + 4)] };
+}
+
+export function createDoorAt(x: number, y: number, channel: KeyChannel = DEFAULT_KEY_CHANNEL): EditorDoor {
+  return { x, y, open: false, channel };
 }
 
 export function createFireTrapAt(x: number, y: number): import("../types").EditorFireTrap {
@@ -149,25 +192,27 @@ export function createSpikeTrapAt(x: number, y: number): import("../types").Edit
   };
 }
 
+export function createTriggerAt(kind: TriggerKind, x: number, y: number): EditorTrigger {
+  return { x, y, kind, links: [] };
+}
+
+// New moving platforms get a waypoint a few cells to the right, like a monster's patrol
+export function createMovingPlatformAt(x: number, y: number, width: number): EditorMovingPlatform {
+  return { x, y, path: [{ x: Math.min(width - 1, x + 3), y }] };
+}
+
 export function toolToTile(tool: Tool): number | null {
-  switch (tool) {
-    case "wall":
-      return 1;
-    case "stone":
-      return 2;
-    case "lava":
-      return 3;
-    case "platform":
-      return 10;
-    case "grassstone":
-      return 11;
-    case "grass":
-      return 12;
-    case "soil":
-      return 13;
-    default:
-      return null;
-  }
+  return getTileDefinitionForTool(tool)?.id ?? null;
+}
+
+// Each monster kind has its own tool ("monster" places the original patroller)
+export function toolToMonsterKind(tool: Tool): MonsterKind | null {
+  return MONSTER_KIND_OPTIONS.find((option) => option.tool === tool)?.value ?? null;
+}
+
+// Likewise for weapons ("weapon" places the pistol)
+export function toolToWeaponKind(tool: Tool): WeaponKind | null {
+  return WEAPON_KIND_OPTIONS.find((option) => option.tool === tool)?.value ?? null;
 }
 
 export function applyToolAtPosition(state: EditorState, x: number, y: number): EditorState {
@@ -180,12 +225,17 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
   const newGrid = state.grid.map((row) => [...row]);
 
   let monsters = state.monsters;
+  let bosses = state.bosses ?? [];
   let weapons = state.weapons;
   let bombs = state.bombs;
   let keys = state.keys;
   let doors = state.doors;
   let firetraps = state.firetraps ?? [];
   let spiketraps = state.spiketraps ?? [];
+  let triggers = state.triggers ?? [];
+  let movingPlatforms = state.movingPlatforms ?? [];
+  let crumblingPlatforms = state.crumblingPlatforms ?? [];
+  let checkpoints = state.checkpoints ?? [];
   let playerStart = state.playerStart;
   let goal = state.goal;
 
@@ -193,12 +243,17 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
 
   const clearPosition = () => {
     monsters = removeObjectAtPosition(monsters, position);
+    bosses = removeObjectAtPosition(bosses, position);
     weapons = removeObjectAtPosition(weapons, position);
     bombs = removeObjectAtPosition(bombs, position);
     keys = removeObjectAtPosition(keys, position);
     doors = removeObjectAtPosition(doors, position);
     firetraps = removeObjectAtPosition(firetraps, position);
     spiketraps = removeObjectAtPosition(spiketraps, position);
+    triggers = removeObjectAtPosition(triggers, position);
+    movingPlatforms = removeObjectAtPosition(movingPlatforms, position);
+    crumblingPlatforms = removeObjectAtPosition(crumblingPlatforms, position);
+    checkpoints = removeObjectAtPosition(checkpoints, position);
     if (playerStart && playerStart.x === x && playerStart.y === y) {
       playerStart = null;
     }
@@ -212,26 +267,26 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
       clearPosition();
       newGrid[y][x] = 0;
       break;
-    case "wall":
-    case "stone":
-    case "lava":
-    case "platform":
-    case "grassstone":
-    case "grass":
-    case "soil":
+    case "monster":
+    case "chaser":
+    case "jumper":
+    case "flyer":
+    case "turret":
       clearPosition();
-      if (tileValue !== null) {
-        newGrid[y][x] = tileValue;
-      }
+      monsters = upsertUnique(monsters, createMonsterAt(x, y, state.gridWidth, toolToMonsterKind(tool) ?? "patrol"));
+      newGrid[y][x] = 0;
       break;
-    case "monster":
+    case "boss":
       clearPosition();
-      monsters = upsertUnique(monsters, createMonsterAt(x, y, state.gridWidth));
+      bosses = upsertUnique(bosses, createBossAt(x, y, state.gridWidth));
       newGrid[y][x] = 0;
       break;
     case "weapon":
+    case "spreadgun":
+    case "piercer":
+    case "grenade":
       clearPosition();
-      weapons = upsertUnique(weapons, { x, y });
+      weapons = upsertUnique(weapons, { x, y, kind: toolToWeaponKind(tool) ?? "pistol" });
       newGrid[y][x] = 0;
       break;
     case "bomb":
@@ -241,12 +296,12 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
       break;
     case "key":
       clearPosition();
-      keys = upsertUnique(keys, { x, y });
+      keys = upsertUnique(keys, { x, y, channel: state.selectedChannel });
       newGrid[y][x] = 0;
       break;
     case "door":
       clearPosition();
-      doors = upsertUnique(doors, createDoorAt(x, y));
+      doors = upsertUnique(doors, createDoorAt(x, y, state.selectedChannel));
       newGrid[y][x] = 0;
       break;
     case "goal":
@@ -269,7 +324,34 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
       spiketraps = upsertUnique(spiketraps, createSpikeTrapAt(x, y));
       newGrid[y][x] = 0;
       break;
+    case "lever":
+    case "plate":
+    case "button":
+      clearPosition();
+      triggers = upsertUnique(triggers, createTriggerAt(tool, x, y));
+      newGrid[y][x] = 0;
+      break;
+    case "movingplatform":
+      clearPosition();
+      movingPlatforms = upsertUnique(movingPlatforms, createMovingPlatformAt(x, y, state.gridWidth));
+      newGrid[y][x] = 0;
+      break;
+    case "crumbleplatform":
+      clearPosition();
+      crumblingPlatforms = upsertUnique(crumblingPlatforms, { x, y });
+      newGrid[y][x] = 0;
+      break;
+    case "checkpoint":
+      clearPosition();
+      checkpoints = upsertUnique(checkpoints, { x, y });
+      newGrid[y][x] = 0;
+      break;
     default:
+      // Terrain tools from the tileset
+      if (tileValue !== null) {
+        clearPosition();
+        newGrid[y][x] = tileValue;
+      }
       break;
   }
 
@@ -277,12 +359,17 @@ export function applyToolAtPosition(state: EditorState, x: number, y: number): E
     ...state,
     grid: newGrid,
     monsters,
+    bosses,
     weapons,
     bombs,
     keys,
     doors,
     firetraps,
     spiketraps,
+    triggers,
+    movingPlatforms,
+    crumblingPlatforms,
+    checkpoints,
     goal,
     playerStart
   };
@@ -309,6 +396,7 @@ export function clearEditorState(state: EditorState): EditorState {
     ...state,
     grid: createEmptyGrid(state.gridWidth, state.gridHeight),
     monsters: [],
+    bosses: [],
     weapons: [],
     bombs: [],
     hearts: [],
@@ -317,6 +405,10 @@ export function clearEditorState(state: EditorState): EditorState {
     doors: [],
     firetraps: [],
     spiketraps: [],
+    triggers: [],
+    movingPlatforms: [],
+    crumblingPlatforms: [],
+    checkpoints: [],
     playerStart: null,
     goal: null
   };
@@ -339,12 +431,26 @@ export function resizeGrid(state: EditorState, width: number, height: number): E
     gridHeight: clampedHeight,
     grid: newGrid,
     monsters: filterWithinBounds(state.monsters),
+    bosses: filterWithinBounds(state.bosses ?? []).map((boss) => ({
+      ...boss,
+      arena: [Math.min(boss.arena[0], clampedWidth - 1), Math.min(boss.arena[1], clampedWidth - 1)]
+    })),
     weapons: filterWithinBounds(state.weapons),
     bombs: filterWithinBounds(state.bombs),
     keys: filterWithinBounds(state.keys),
     doors: filterWithinBounds(state.doors),
     firetraps: filterWithinBounds(state.firetraps ?? []),
     spiketraps: filterWithinBounds(state.spiketraps ?? []),
+    triggers: filterWithinBounds(state.triggers ?? []).map((trigger) => ({
+      ...trigger,
+      links: filterWithinBounds(trigger.links)
+    })),
+    movingPlatforms: filterWithinBounds(state.movingPlatforms ?? []).map((platform) => ({
+      ...platform,
+      path: filterWithinBounds(platform.path)
+    })),
+    crumblingPlatforms: filterWithinBounds(state.crumblingPlatforms ?? []),
+    checkpoints: filterWithinBounds(state.checkpoints ?? []),
     playerStart: state.playerStart && state.playerStart.x < clampedWidth && state.playerStart.y < clampedHeight
       ? state.playerStart
       : null,
@@ -352,3 +458,608 @@ export function resizeGrid(state: EditorState, width: number, height: number): E
   };
 }
 
+
+// ----- Shape tools -----
+
+export function normalizeRect(a: GridPosition, b: GridPosition): GridRect {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x) + 1,
+    height: Math.abs(a.y - b.y) + 1
+  };
+}
+
+export function isInsideRect(rect: GridRect, x: number, y: number): boolean {
+  return x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+}
+
+export function getRectCells(rect: GridRect, outline: boolean): GridPosition[] {
+  const cells: GridPosition[] = [];
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const onEdge = x === rect.x || y === rect.y || x === rect.x + rect.width - 1 || y === rect.y + rect.height - 1;
+      if (!outline || onEdge) {
+        cells.push({ x, y });
+      }
+    }
+  }
+  return cells;
+}
+
+// Bresenham line between two cells (inclusive)
+export function getLineCells(from: GridPosition, to: GridPosition): GridPosition[] {
+  const cells: GridPosition[] = [];
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const stepX = from.x < to.x ? 1 : -1;
+  const stepY = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let x = from.x;
+  let y = from.y;
+
+  for (;;) {
+    cells.push({ x, y });
+    if (x === to.x && y === to.y) break;
+    const doubled = error * 2;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells covered by a drag from `from` to `to` in the given draw mode
+ * (brush, fill and select don't paint shapes)
+ */
+export function getShapeCells(mode: DrawMode, from: GridPosition, to: GridPosition): GridPosition[] {
+  switch (mode) {
+    case "rect":
+      return getRectCells(normalizeRect(from, to), false);
+    case "rectOutline":
+      return getRectCells(normalizeRect(from, to), true);
+    case "line":
+      return getLineCells(from, to);
+    default:
+      return [];
+  }
+}
+
+export function applyToolToCells(state: EditorState, cells: GridPosition[]): EditorState {
+  return cells.reduce((next, cell) => applyToolAtPosition(next, cell.x, cell.y), state);
+}
+
+/**
+ * Bucket fill: paint the selected terrain tile (or the eraser) over every cell 4-connected
+ * to (x, y) that has the same tile, clearing any objects there. Object tools don't fill,
+ * and filling with the tile that is already there does nothing.
+ */
+export function floodFill(state: EditorState, x: number, y: number): EditorState {
+  if (x < 0 || x >= state.gridWidth || y < 0 || y >= state.gridHeight) {
+    return state;
+  }
+
+  const target = state.grid[y][x];
+  const replacement = state.selectedTool === "empty" ? 0 : toolToTile(state.selectedTool);
+  if (replacement === null || replacement === target) {
+    return state;
+  }
+
+  const visited = new Set<number>([y * state.gridWidth + x]);
+  const queue: GridPosition[] = [{ x, y }];
+  const grid = state.grid.map((row) => [...row]);
+
+  while (queue.length) {
+    const cell = queue.shift()!;
+    grid[cell.y][cell.x] = replacement;
+    [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dy]) => {
+      const nx = cell.x + dx;
+      const ny = cell.y + dy;
+      const index = ny * state.gridWidth + nx;
+      if (
+        nx >= 0 &&
+        nx < state.gridWidth &&
+        ny >= 0 &&
+        ny < state.gridHeight &&
+        !visited.has(index) &&
+        state.grid[ny][nx] === target
+      ) {
+        visited.add(index);
+        queue.push({ x: nx, y: ny });
+      }
+    });
+  }
+
+  const filled = (item: GridPosition) => visited.has(item.y * state.gridWidth + item.x);
+  const unfilled = <T extends GridPosition>(items: T[] | undefined): T[] =>
+    (items ?? []).filter((item) => !filled(item));
+
+  return {
+    ...state,
+    ...mergeRegionObjects(state, {}, (items) => unfilled(items)),
+    grid,
+    monsters: unfilled(state.monsters),
+    bosses: unfilled(state.bosses),
+    firetraps: unfilled(state.firetraps),
+    triggers: unfilled(state.triggers),
+    movingPlatforms: unfilled(state.movingPlatforms),
+    playerStart: state.playerStart && filled(state.playerStart) ? null : state.playerStart,
+    goal: state.goal && filled(state.goal) ? null : state.goal
+  };
+}
+
+// ----- Selection / clipboard -----
+
+/**
+ * A copied trigger. `links` into the copied region are relative like everything else and
+ * travel with it; `fixedLinks` point at cells outside the region and stay where they are.
+ */
+export interface ClipboardTrigger extends EditorTrigger {
+  fixedLinks: GridPosition[];
+}
+
+/**
+ * A copied region. Tiles and objects use coordinates relative to the region's top-left.
+ * Player start and goal are never copied - a level has exactly one of each.
+ */
+export interface EditorClipboard {
+  width: number;
+  height: number;
+  tiles: number[][];
+  monsters: EditorMonster[];
+  bosses: EditorBoss[];
+  weapons: EditorWeapon[];
+  bombs: GridPosition[];
+  hearts: GridPosition[];
+  coins: GridPosition[];
+  keys: EditorKey[];
+  doors: EditorDoor[];
+  firetraps: EditorFireTrap[];
+  spiketraps: EditorSpikeTrap[];
+  triggers: ClipboardTrigger[];
+  movingPlatforms: EditorMovingPlatform[];
+  crumblingPlatforms: EditorCrumblingPlatform[];
+  checkpoints: GridPosition[];
+}
+
+// Lists of plain positioned objects that clear and paste handle the same way
+type RegionObjects = Pick<
+  EditorClipboard,
+  "weapons" | "bombs" | "hearts" | "coins" | "keys" | "doors" | "spiketraps" | "crumblingPlatforms" | "checkpoints"
+>;
+
+// Merge each region object list of `current` with the matching list of `added`, keeping its item type
+function mergeRegionObjects(
+  current: Partial<RegionObjects>,
+  added: Partial<RegionObjects>,
+  merge: <T extends GridPosition>(current: T[], added: T[]) => T[]
+): RegionObjects {
+  return {
+    weapons: merge(current.weapons ?? [], added.weapons ?? []),
+    bombs: merge(current.bombs ?? [], added.bombs ?? []),
+    hearts: merge(current.hearts ?? [], added.hearts ?? []),
+    coins: merge(current.coins ?? [], added.coins ?? []),
+    keys: merge(current.keys ?? [], added.keys ?? []),
+    doors: merge(current.doors ?? [], added.doors ?? []),
+    spiketraps: merge(current.spiketraps ?? [], added.spiketraps ?? []),
+    crumblingPlatforms: merge(current.crumblingPlatforms ?? [], added.crumblingPlatforms ?? []),
+    checkpoints: merge(current.checkpoints ?? [], added.checkpoints ?? [])
+  };
+}
+
+function shiftMonster(monster: EditorMonster, dx: number, dy: number): EditorMonster {
+  return {
+    ...monster,
+    x: monster.x + dx,
+    y: monster.y + dy,
+    patrol: [monster.patrol[0] + dx, monster.patrol[1] + dx]
+  };
+}
+
+function shiftBoss(boss: EditorBoss, dx: number, dy: number): EditorBoss {
+  return {
+    ...boss,
+    x: boss.x + dx,
+    y: boss.y + dy,
+    arena: [boss.arena[0] + dx, boss.arena[1] + dx]
+  };
+}
+
+// Links travel with their trigger, so a copied switch-and-door pair stays wired together
+function shiftTrigger(trigger: EditorTrigger, dx: number, dy: number): EditorTrigger {
+  return {
+    ...trigger,
+    x: trigger.x + dx,
+    y: trigger.y + dy,
+    links: trigger.links.map((link) => ({ x: link.x + dx, y: link.y + dy }))
+  };
+}
+
+function shiftMovingPlatform(platform: EditorMovingPlatform, dx: number, dy: number): EditorMovingPlatform {
+  return {
+    ...platform,
+    x: platform.x + dx,
+    y: platform.y + dy,
+    path: platform.path.map((waypoint) => ({ x: waypoint.x + dx, y: waypoint.y + dy }))
+  };
+}
+
+export function copyRegion(state: EditorState, rect: GridRect): EditorClipboard {
+  const inside = <T extends GridPosition>(items: T[] | undefined): T[] =>
+    (items ?? [])
+      .filter((item) => isInsideRect(rect, item.x, item.y))
+      .map((item) => ({ ...item, x: item.x - rect.x, y: item.y - rect.y }));
+
+  const tiles: number[][] = [];
+  for (let y = 0; y < rect.height; y++) {
+    tiles[y] = [];
+    for (let x = 0; x < rect.width; x++) {
+      tiles[y][x] = state.grid[rect.y + y]?.[rect.x + x] ?? 0;
+    }
+  }
+
+  return {
+    width: rect.width,
+    height: rect.height,
+    tiles,
+    monsters: state.monsters
+      .filter((monster) => isInsideRect(rect, monster.x, monster.y))
+      .map((monster) => shiftMonster(monster, -rect.x, -rect.y)),
+    bosses: (state.bosses ?? [])
+      .filter((boss) => isInsideRect(rect, boss.x, boss.y))
+      .map((boss) => shiftBoss(boss, -rect.x, -rect.y)),
+    weapons: inside(state.weapons),
+    bombs: inside(state.bombs),
+    hearts: inside(state.hearts),
+    coins: inside(state.coins),
+    keys: inside(state.keys),
+    doors: inside(state.doors),
+    firetraps: inside(state.firetraps),
+    spiketraps: inside(state.spiketraps),
+    triggers: (state.triggers ?? [])
+      .filter((trigger) => isInsideRect(rect, trigger.x, trigger.y))
+      .map((trigger) => ({
+        ...shiftTrigger(trigger, -rect.x, -rect.y),
+        links: trigger.links
+          .filter((link) => isInsideRect(rect, link.x, link.y))
+          .map((link) => ({ x: link.x - rect.x, y: link.y - rect.y })),
+        fixedLinks: trigger.links.filter((link) => !isInsideRect(rect, link.x, link.y))
+      })),
+    movingPlatforms: (state.movingPlatforms ?? [])
+      .filter((platform) => isInsideRect(rect, platform.x, platform.y))
+      .map((platform) => shiftMovingPlatform(platform, -rect.x, -rect.y)),
+    crumblingPlatforms: inside(state.crumblingPlatforms),
+    checkpoints: inside(state.checkpoints)
+  };
+}
+
+// Empty the tiles in a region and remove the objects in it (player start and goal stay)
+export function clearRegion(state: EditorState, rect: GridRect): EditorState {
+  const outside = <T extends GridPosition>(items: T[] | undefined): T[] =>
+    (items ?? []).filter((item) => !isInsideRect(rect, item.x, item.y));
+
+  const grid = state.grid.map((row, y) => row.map((tile, x) => (isInsideRect(rect, x, y) ? 0 : tile)));
+
+  return {
+    ...state,
+    ...mergeRegionObjects(state, {}, (items) => outside(items)),
+    grid,
+    monsters: outside(state.monsters),
+    bosses: outside(state.bosses),
+    firetraps: outside(state.firetraps),
+    triggers: outside(state.triggers),
+    movingPlatforms: outside(state.movingPlatforms)
+  };
+}
+
+/**
+ * Paste a clipboard with its top-left at (x, y), replacing whatever was there.
+ * Anything that falls outside the grid is dropped.
+ */
+export function pasteRegion(state: EditorState, clipboard: EditorClipboard, x: number, y: number): EditorState {
+  const target: GridRect = { x, y, width: clipboard.width, height: clipboard.height };
+  const cleared = clearRegion(state, target);
+  const inGrid = (item: GridPosition) =>
+    item.x >= 0 && item.x < state.gridWidth && item.y >= 0 && item.y < state.gridHeight;
+  const place = <T extends GridPosition>(items: T[]): T[] =>
+    items.map((item) => ({ ...item, x: item.x + x, y: item.y + y })).filter(inGrid);
+
+  const grid = cleared.grid.map((row) => [...row]);
+  clipboard.tiles.forEach((row, dy) => {
+    row.forEach((tile, dx) => {
+      if (grid[y + dy] && x + dx >= 0 && x + dx < state.gridWidth) {
+        grid[y + dy][x + dx] = tile;
+      }
+    });
+  });
+
+  // Objects can't share a cell with the player start or goal
+  const free = (item: GridPosition) =>
+    !(state.playerStart && state.playerStart.x === item.x && state.playerStart.y === item.y) &&
+    !(state.goal && state.goal.x === item.x && state.goal.y === item.y);
+
+  return {
+    ...cleared,
+    ...mergeRegionObjects(cleared, clipboard, (current, added) => [...current, ...place(added).filter(free)]),
+    grid,
+    monsters: [
+      ...cleared.monsters,
+      ...clipboard.monsters.map((monster) => shiftMonster(monster, x, y)).filter(inGrid).filter(free)
+    ],
+    bosses: [
+      ...(cleared.bosses ?? []),
+      ...clipboard.bosses.map((boss) => shiftBoss(boss, x, y)).filter(inGrid).filter(free)
+    ],
+    firetraps: [...(cleared.firetraps ?? []), ...place(clipboard.firetraps).filter(free)],
+    triggers: [
+      ...(cleared.triggers ?? []),
+      ...clipboard.triggers
+        .map(({ fixedLinks, ...trigger }) => {
+          const placed = shiftTrigger(trigger, x, y);
+          return { ...placed, links: [...placed.links.filter(inGrid), ...fixedLinks] };
+        })
+        .filter(inGrid)
+        .filter(free)
+    ],
+    movingPlatforms: [
+      ...(cleared.movingPlatforms ?? []),
+      ...clipboard.movingPlatforms.map((platform) => shiftMovingPlatform(platform, x, y)).filter(inGrid).filter(free)
+    ]
+  };
+}
+
+const MIRRORED_DIRECTIONS: Record<"horizontal" | "vertical", Partial<Record<FireTrapDirection, FireTrapDirection>>> = {
+  horizontal: { left: "right", right: "left" },
+  vertical: { up: "down", down: "up" }
+};
+
+export function flipClipboard(clipboard: EditorClipboard, axis: "horizontal" | "vertical"): EditorClipboard {
+  const flipX = (x: number) => (axis === "horizontal" ? clipboard.width - 1 - x : x);
+  const flipY = (y: number) => (axis === "vertical" ? clipboard.height - 1 - y : y);
+  const flip = <T extends GridPosition>(items: T[]): T[] =>
+    items.map((item) => ({ ...item, x: flipX(item.x), y: flipY(item.y) }));
+
+  const tiles =
+    axis === "horizontal"
+      ? clipboard.tiles.map((row) => [...row].reverse())
+      : [...clipboard.tiles].reverse().map((row) => [...row]);
+
+  return {
+    ...clipboard,
+    tiles,
+    monsters: clipboard.monsters.map((monster) => {
+      const patrol = [flipX(monster.patrol[0]), flipX(monster.patrol[1])].sort((a, b) => a - b);
+      return { ...monster, x: flipX(monster.x), y: flipY(monster.y), patrol: [patrol[0], patrol[1]] };
+    }),
+    bosses: clipboard.bosses.map((boss) => {
+      const arena = [flipX(boss.arena[0]), flipX(boss.arena[1])].sort((a, b) => a - b);
+      return { ...boss, x: flipX(boss.x), y: flipY(boss.y), arena: [arena[0], arena[1]] };
+    }),
+    weapons: flip(clipboard.weapons),
+    bombs: flip(clipboard.bombs),
+    hearts: flip(clipboard.hearts),
+    coins: flip(clipboard.coins),
+    keys: flip(clipboard.keys),
+    doors: flip(clipboard.doors),
+    firetraps: flip(clipboard.firetraps).map((trap) => ({
+      ...trap,
+      direction: MIRRORED_DIRECTIONS[axis][trap.direction] ?? trap.direction
+    })),
+    spiketraps: flip(clipboard.spiketraps),
+    triggers: flip(clipboard.triggers).map((trigger) => ({ ...trigger, links: flip(trigger.links) })),
+    movingPlatforms: flip(clipboard.movingPlatforms).map((platform) => ({ ...platform, path: flip(platform.path) })),
+    crumblingPlatforms: flip(clipboard.crumblingPlatforms),
+    checkpoints: flip(clipboard.checkpoints)
+  };
+}
+
+// Triggers outside `rect` follow whatever they link to inside it to its new cell
+function relinkIntoRegion(state: EditorState, rect: GridRect, moveCell: (cell: GridPosition) => GridPosition): EditorState {
+  return {
+    ...state,
+    triggers: (state.triggers ?? []).map((trigger) =>
+      isInsideRect(rect, trigger.x, trigger.y)
+        ? trigger
+        : {
+            ...trigger,
+            links: trigger.links.map((link) => (isInsideRect(rect, link.x, link.y) ? moveCell(link) : link))
+          }
+    )
+  };
+}
+
+// Move a region's contents by (dx, dy); returns the new state and where the region ended up
+export function moveRegion(state: EditorState, rect: GridRect, dx: number, dy: number): {
+  state: EditorState;
+  rect: GridRect;
+} {
+  const clipboard = copyRegion(state, rect);
+  const moved = { ...rect, x: rect.x + dx, y: rect.y + dy };
+  const relinked = relinkIntoRegion(clearRegion(state, rect), rect, (cell) => ({ x: cell.x + dx, y: cell.y + dy }));
+  return {
+    state: pasteRegion(relinked, clipboard, moved.x, moved.y),
+    rect: moved
+  };
+}
+
+// Mirror a region in place
+export function flipRegion(state: EditorState, rect: GridRect, axis: "horizontal" | "vertical"): EditorState {
+  const flipped = flipClipboard(copyRegion(state, rect), axis);
+  const relinked = relinkIntoRegion(state, rect, (cell) => ({
+    x: axis === "horizontal" ? 2 * rect.x + rect.width - 1 - cell.x : cell.x,
+    y: axis === "vertical" ? 2 * rect.y + rect.height - 1 - cell.y : cell.y
+  }));
+  return pasteRegion(relinked, flipped, rect.x, rect.y);
+}
+
+// ----- Object inspector -----
+
+export type InspectableKind =
+  | "monster"
+  | "boss"
+  | "door"
+  | "firetrap"
+  | "spiketrap"
+  | "trigger"
+  | "movingplatform"
+  | "crumbleplatform";
+
+export interface InspectedObject extends GridPosition {
+  kind: InspectableKind;
+}
+
+export const FIRE_TRAP_DIRECTIONS: FireTrapDirection[] = ["up", "down", "left", "right"];
+
+// Allowed ranges for inspector fields; times are in seconds like the editor types
+export const OBJECT_FIELD_LIMITS = {
+  monsterSpeed: { min: 0.5, max: 6 },
+  monsterHealth: { min: 1, max: 20 },
+  bossHealth: { min: 5, max: 200 },
+  bossPhases: { min: 1, max: 5 },
+  sprayDistance: { min: 1, max: 10 },
+  trapSeconds: { min: 0.5, max: 30 },
+  buttonSeconds: { min: 0.5, max: 60 },
+  platformSpeed: { min: 0.5, max: 6 },
+  crumbleDelay: { min: 0.1, max: 10 },
+  crumbleRespawn: { min: 0.5, max: 60 }
+} as const;
+
+export function findInspectableAt(state: EditorState, x: number, y: number): InspectedObject | null {
+  const at = (item: GridPosition) => item.x === x && item.y === y;
+  if (state.monsters.some(at)) return { kind: "monster", x, y };
+  if ((state.bosses ?? []).some(at)) return { kind: "boss", x, y };
+  if (state.doors.some(at)) return { kind: "door", x, y };
+  if ((state.firetraps ?? []).some(at)) return { kind: "firetrap", x, y };
+  if ((state.spiketraps ?? []).some(at)) return { kind: "spiketrap", x, y };
+  if ((state.triggers ?? []).some(at)) return { kind: "trigger", x, y };
+  if ((state.movingPlatforms ?? []).some(at)) return { kind: "movingplatform", x, y };
+  if ((state.crumblingPlatforms ?? []).some(at)) return { kind: "crumbleplatform", x, y };
+  return null;
+}
+
+// Triggers can drive doors, traps and moving platforms
+export function isTriggerLinkTarget(state: EditorState, x: number, y: number): boolean {
+  const at = (item: GridPosition) => item.x === x && item.y === y;
+  return (
+    state.doors.some(at) ||
+    (state.firetraps ?? []).some(at) ||
+    (state.spiketraps ?? []).some(at) ||
+    (state.movingPlatforms ?? []).some(at)
+  );
+}
+
+/**
+ * Check a number typed into the inspector. Returns an error message, or null if valid.
+ */
+export function validateNumberField(
+  value: number,
+  limits: { min: number; max: number },
+  integer = false
+): string | null {
+  if (!Number.isFinite(value)) return "Enter a number";
+  if (integer && !Number.isInteger(value)) return "Must be a whole number";
+  if (value < limits.min || value > limits.max) return `Must be between ${limits.min} and ${limits.max}`;
+  return null;
+}
+
+// Patrol bounds must stay on the grid and keep the monster between them
+export function validatePatrol(monster: EditorMonster, patrol: [number, number], gridWidth: number): string | null {
+  const [start, end] = patrol;
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return "Patrol bounds must be whole columns";
+  if (start < 0 || end > gridWidth - 1) return `Patrol must stay within columns 0-${gridWidth - 1}`;
+  if (start > monster.x || end < monster.x) return "Patrol must include the monster's own column";
+  return null;
+}
+
+// Same rules for a boss's arena, which must fit both of its columns
+export function validateArena(boss: EditorBoss, arena: [number, number], gridWidth: number): string | null {
+  const [start, end] = arena;
+  if (!Number.isInteger(start) || !Number.isInteger(end)) return "Arena bounds must be whole columns";
+  if (start < 0 || end > gridWidth - 1) return `Arena must stay within columns 0-${gridWidth - 1}`;
+  if (start > boss.x || end < boss.x + 1) return "Arena must include both of the boss's columns";
+  return null;
+}
+
+// Star scores must be whole, non-negative and go up from one star to three
+export function validateStarThresholds(thresholds: number[]): string | null {
+  if (thresholds.some((score) => !Number.isInteger(score) || score < 0)) return "Scores must be whole numbers of 0 or more";
+  if (thresholds.some((score, i) => i > 0 && score < thresholds[i - 1])) return "Each star needs at least the score of the one before";
+  return null;
+}
+
+export function isFireTrapDirection(value: string): value is FireTrapDirection {
+  return (FIRE_TRAP_DIRECTIONS as string[]).includes(value);
+}
+
+function patchAt<T extends GridPosition>(items: T[], position: GridPosition, patch: Partial<T>): T[] {
+  return items.map((item) => (item.x === position.x && item.y === position.y ? { ...item, ...patch } : item));
+}
+
+export function updateMonsterAt(state: EditorState, position: GridPosition, patch: Partial<EditorMonster>): EditorState {
+  return { ...state, monsters: patchAt(state.monsters, position, patch) };
+}
+
+export function updateBossAt(state: EditorState, position: GridPosition, patch: Partial<EditorBoss>): EditorState {
+  return { ...state, bosses: patchAt(state.bosses ?? [], position, patch) };
+}
+
+export function updateDoorAt(state: EditorState, position: GridPosition, patch: Partial<EditorDoor>): EditorState {
+  return { ...state, doors: patchAt(state.doors, position, patch) };
+}
+
+export function updateFireTrapAt(state: EditorState, position: GridPosition, patch: Partial<EditorFireTrap>): EditorState {
+  return { ...state, firetraps: patchAt(state.firetraps ?? [], position, patch) };
+}
+
+export function updateSpikeTrapAt(state: EditorState, position: GridPosition, patch: Partial<EditorSpikeTrap>): EditorState {
+  return { ...state, spiketraps: patchAt(state.spiketraps ?? [], position, patch) };
+}
+
+export function updateTriggerAt(state: EditorState, position: GridPosition, patch: Partial<EditorTrigger>): EditorState {
+  return { ...state, triggers: patchAt(state.triggers ?? [], position, patch) };
+}
+
+export function updateMovingPlatformAt(
+  state: EditorState,
+  position: GridPosition,
+  patch: Partial<EditorMovingPlatform>
+): EditorState {
+  return { ...state, movingPlatforms: patchAt(state.movingPlatforms ?? [], position, patch) };
+}
+
+export function updateCrumblingPlatformAt(
+  state: EditorState,
+  position: GridPosition,
+  patch: Partial<EditorCrumblingPlatform>
+): EditorState {
+  return { ...state, crumblingPlatforms: patchAt(state.crumblingPlatforms ?? [], position, patch) };
+}
+
+// Append `cell` to the path of the moving platform at `position`, or drop it if it is already a waypoint
+export function toggleWaypoint(state: EditorState, position: GridPosition, cell: GridPosition): EditorState {
+  const platform = (state.movingPlatforms ?? []).find((item) => item.x === position.x && item.y === position.y);
+  if (!platform || (cell.x === platform.x && cell.y === platform.y)) return state;
+  if (cell.x < 0 || cell.x >= state.gridWidth || cell.y < 0 || cell.y >= state.gridHeight) return state;
+
+  const isWaypoint = platform.path.some((waypoint) => waypoint.x === cell.x && waypoint.y === cell.y);
+  const path = isWaypoint ? removeObjectAtPosition(platform.path, cell) : [...platform.path, { x: cell.x, y: cell.y }];
+  return updateMovingPlatformAt(state, position, { path });
+}
+
+// Link the trigger at `position` to `target`, or unlink it if already linked
+export function toggleTriggerLink(state: EditorState, position: GridPosition, target: GridPosition): EditorState {
+  const trigger = (state.triggers ?? []).find((item) => item.x === position.x && item.y === position.y);
+  if (!trigger) return state;
+
+  const linked = trigger.links.some((link) => link.x === target.x && link.y === target.y);
+  const links = linked
+    ? removeObjectAtPosition(trigger.links, target)
+    : [...trigger.links, { x: target.x, y: target.y }];
+  return updateTriggerAt(state, position, { links });
+}
@@ -0,0 +1,170 @@
+import {
+  createEmptyEvents,
+  TICKS_PER_SECOND,
+  updateGameFrame,
+  type GameUpdateEvents,
+  type TickInput
+} from "./gameLoop";
+import type { GameState } from "../types";
+
+export const FIXED_TIMESTEP_MS = 1000 / TICKS_PER_SECOND;
+
+// Cap on simulated time per rendered frame so a long stall (tab switch, breakpoint)
+// doesn't trigger hundreds of catch-up ticks
+const MAX_FRAME_TIME_MS = 250;
+
+// Anything that moves further than this in a single tick was teleported (respawn, level load)
+const MAX_INTERPOLATION_DISTANCE = 40;
+
+export interface FixedStepClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+export function createFixedStepClock(): FixedStepClock {
+  return {
+    lastTime: null,
+    accumulator: 0
+  };
+}
+
+function mergeEvents(target: GameUpdateEvents, events: GameUpdateEvents): void {
+  (Object.keys(target) as (keyof GameUpdateEvents)[]).forEach((key) => {
+    target[key] = target[key] || events[key];
+  });
+}
+
+/**
+ * Advance the clock to `now` (a requestAnimationFrame timestamp).
+ * Returns how many fixed ticks are due and how far we are into the next one (0..1),
+ * which renderers use to interpolate between the last two simulated states.
+ */
+export function advanceFixedStepClock(clock: FixedStepClock, now: number): {
+  steps: number;
+  alpha: number;
+} {
+  if (clock.lastTime === null) {
+    clock.lastTime = now;
+    return { steps: 0, alpha: 0 };
+  }
+
+  const frameTime = Math.min(Math.max(now - clock.lastTime, 0), MAX_FRAME_TIME_MS);
+  clock.lastTime = now;
+  clock.accumulator += frameTime;
+
+  const steps = Math.floor(clock.accumulator / FIXED_TIMESTEP_MS);
+  clock.accumulator -= steps * FIXED_TIMESTEP_MS;
+
+  return { steps, alpha: clock.accumulator / FIXED_TIMESTEP_MS };
+}
+
+/**
+ * Keep the clock still while the game is paused, so resuming doesn't try to catch up on
+ * the time spent paused. The partial tick in the accumulator is kept for rendering.
+ */
+export function holdFixedStepClock(clock: FixedStepClock): {
+  steps: number;
+  alpha: number;
+} {
+  clock.lastTime = null;
+  return { steps: 0, alpha: clock.accumulator / FIXED_TIMESTEP_MS };
+}
+
+/**
+ * Run `steps` simulation ticks. `readInput` is asked for each tick's input
+ * (called with the tick about to be simulated).
+ * Stops early on death or level completion so callers see those events exactly once.
+ */
+export function runFixedSteps(
+  state: GameState,
+  steps: number,
+  readInput: (tick: number) => TickInput
+): {
+  state: GameState;
+  previousState: GameState;
+  events: GameUpdateEvents;
+} {
+  const events = createEmptyEvents();
+  let previousState = state;
+  let currentState = state;
+
+  for (let i = 0; i < steps; i++) {
+    const input = readInput(currentState.tick);
+    previousState = currentState;
+
+    const result = updateGameFrame(currentState, input.keys, input.actions);
+    currentState = result.state;
+    mergeEvents(events, result.events);
+
+    if (result.events.playerDied || result.events.levelComplete) {
+      break;
+    }
+  }
+
+  return { state: currentState, previousState, events };
+}
+
+function lerp(from: number, to: number, alpha: number): number {
+  if (Math.abs(to - from) > MAX_INTERPOLATION_DISTANCE) {
+    return to;
+  }
+  return from + (to - from) * alpha;
+}
+
+/**
+ * Blend positions of moving entities between two consecutive ticks for rendering.
+ * Only the render copy is interpolated; the simulation always runs on whole ticks.
+ */
+export function interpolateGameState(previous: GameState, current: GameState, alpha: number): GameState {
+  if (previous === current || alpha <= 0) {
+    return current;
+  }
+
+  return {
+    ...current,
+    player: {
+      ...current.player,
+      x: lerp(previous.player.x, current.player.x, alpha),
+      y: lerp(previous.player.y, current.player.y, alpha)
+    },
+    monsters:
+      previous.monsters.length === current.monsters.length
+        ? current.monsters.map((monster, index) => ({
+            ...monster,
+            x: lerp(previous.monsters[index].x, monster.x, alpha),
+            y: lerp(previous.monsters[index].y, monster.y, alpha)
+          }))
+        : current.monsters,
+    bosses:
+      previous.bosses.length === current.bosses.length
+        ? current.bosses.map((boss, index) => ({
+            ...boss,
+            x: lerp(previous.bosses[index].x, boss.x, alpha)
+          }))
+        : current.bosses,
+    bullets:
+      previous.bullets.length === current.bullets.length
+        ? current.bullets.map((bullet, index) => ({
+            ...bullet,
+            x: lerp(previous.bullets[index].x, bullet.x, alpha),
+            y: lerp(previous.bullets[index].y, bullet.y, alpha)
+          }))
+        : current.bullets,
+    projectiles:
+      previous.projectiles.length === current.projectiles.length
+        ? current.projectiles.map((shot, index) => ({
+            ...shot,
+            x: lerp(previous.projectiles[index].x, shot.x, alpha),
+            y: lerp(previous.projectiles[index].y, shot.y, alpha)
+          }))
+        : current.projectiles,
+    movingPlatforms:
+      previous.movingPlatforms.length === current.movingPlatforms.length
+        ? current.movingPlatforms.map((platform, index) => ({
+            ...platform,
+            x: lerp(previous.movingPlatforms[index].x, platform.x, alpha),
+            y: lerp(previous.movingPlatforms[index].y, platform.y, alpha)
+          }))
+        : current.movingPlatforms
+  };
+}
@@ -1,12 +1,55 @@
 import {
   applyGravity,
+  applyKnockback,
+  BOMB_DAMAGE,
   checkCollision,
+  createPlacedBomb,
+  createPlayerBullets,
+  createMinion,
+  createTurretProjectile,
+  BOSS_ATTACK_INTERVAL,
+  BOSS_CHARGE_SPEED,
+  BOSS_HURT_FLASH,
+  BOSS_MINION_CAP,
+  BOSS_PHASE_PATTERNS,
+  BOSS_WALK_SPEED,
+  CHASER_SPEED_BOOST,
+  getBossPhase,
+  getMeleeBox,
+  gridToPixel,
+  isBoxInBlast,
+  isCellInBlast,
+  isStomp,
+  JUMPER_HOP_INTERVAL,
+  JUMPER_JUMP_POWER,
+  jump,
+  MELEE_FRAMES,
+  MONSTER_SIGHT_RADIUS,
   movePlayerHorizontal,
   resolveCollision,
+  resolveOneWayCollision,
+  STOMP_BOUNCE,
   updateBullets,
-  updatePlacedBombs
+  TURRET_FIRE_INTERVAL,
+  TURRET_RANGE,
+  updatePlacedBombs,
+  WEAPON_PICKUP_AMMO
 } from "./gameState";
-import { TileType, TILE_SIZE, type GameState, type PlayerState } from "../types";
+import { isHazardTile, isOneWayTile, isSolidTile } from "./tileBehavior";
+import { DEFAULT_KEY_CHANNEL, WEAPON_KIND_OPTIONS } from "../constants";
+import {
+  GRAVITY,
+  TILE_SIZE,
+  type BlastState,
+  type BossPattern,
+  type BossState,
+  type CheckpointSnapshot,
+  type GameState,
+  type GridPosition,
+  type MonsterState,
+  type PlayerState,
+  type WeaponKind
+} from "../types";
 import { logWarning, logInfo } from "../utils/logger";
 
 export interface GameUpdateEvents {
@@ -16,21 +59,89 @@ export interface GameUpdateEvents {
   tookDamage: boolean;
   itemCollected: boolean;
   bombExploded: boolean;
+  jumped: boolean;
+  shotFired: boolean;
+  bombPlaced: boolean;
+  switchToggled: boolean;
+  enemyFired: boolean;
+  bossDefeated: boolean;
+  monsterStomped: boolean;
+  meleeSwung: boolean;
+  weaponSwitched: boolean;
+  checkpointReached: boolean;
+  respawned: boolean;       // The player died but came back at a checkpoint (playerDied stays false)
 }
 
 export type KeyMap = Record<string, boolean>;
 
+// Discrete, edge-triggered player inputs (as opposed to held movement keys)
+export type PlayerAction = "jump" | "fire" | "melee" | "switchWeapon" | "bomb" | "openDoor";
+
+// Held movement keys the simulation reads. state/input.ts turns keyboard, gamepad and touch input
+// into these; a/d are still honoured for replays recorded before key bindings existed
+export const MOVE_LEFT_KEY = "ArrowLeft";
+export const MOVE_RIGHT_KEY = "ArrowRight";
+
+// Everything the simulation reads from the player for a single tick
+export interface TickInput {
+  keys: KeyMap;
+  actions: PlayerAction[];
+}
+
+const ACTION_EVENTS: Record<PlayerAction, keyof GameUpdateEvents> = {
+  jump: "jumped",
+  fire: "shotFired",
+  melee: "meleeSwung",
+  switchWeapon: "weaponSwitched",
+  bomb: "bombPlaced",
+  openDoor: "doorOpened"
+};
+
+// Simulation rate: every timer in the game (traps, bombs, cooldowns) counts these ticks
+export const TICKS_PER_SECOND = 60;
+
+export function createEmptyEvents(): GameUpdateEvents {
+  return {
+    levelComplete: false,
+    playerDied: false,
+    doorOpened: false,
+    tookDamage: false,
+    itemCollected: false,
+    bombExploded: false,
+    jumped: false,
+    shotFired: false,
+    bombPlaced: false,
+    switchToggled: false,
+    enemyFired: false,
+    bossDefeated: false,
+    monsterStomped: false,
+    meleeSwung: false,
+    weaponSwitched: false,
+    checkpointReached: false,
+    respawned: false
+  };
+}
+
 function cloneState(state: GameState): GameState {
   return {
     ...state,
+    keys: { ...state.keys },
+    ammo: { ...state.ammo },
     player: { ...state.player },
     monsters: state.monsters.map((monster) => ({ ...monster })),
+    bosses: state.bosses.map((boss) => ({ ...boss })),
     collectibles: state.collectibles.map((item) => ({ ...item })),
     doors: state.doors.map((door) => ({ ...door })),
     bullets: state.bullets.map((bullet) => ({ ...bullet })),
+    projectiles: state.projectiles.map((shot) => ({ ...shot })),
     placedBombs: state.placedBombs.map((bomb) => ({ ...bomb })),
+    blasts: state.blasts.map((blast) => ({ ...blast })),
     firetraps: state.firetraps.map((trap) => ({ ...trap, fireBlocks: [...trap.fireBlocks] })),
     spiketraps: state.spiketraps.map((trap) => ({ ...trap })),
+    triggers: state.triggers.map((trigger) => ({ ...trigger })),
+    movingPlatforms: state.movingPlatforms.map((platform) => ({ ...platform })),
+    crumblingPlatforms: state.crumblingPlatforms.map((platform) => ({ ...platform })),
+    checkpoints: state.checkpoints.map((checkpoint) => ({ ...checkpoint })),
     grid: state.grid.map((row) => [...row])
   };
 }
@@ -52,24 +163,17 @@ function handleTileCollisions(state: GameState, player: PlayerState): void {
         checkY < state.grid.length
       ) {
         const tile = state.grid[checkY][checkX];
-        if (
-          tile === TileType.Wall ||
-          tile === TileType.Stone ||
-          tile === TileType.Lava ||
-          tile === TileType.Platform ||
-          tile === TileType.GrassStone ||
-          tile === TileType.Grass ||
-          tile === TileType.Soil
-        ) {
-          const box = {
-            x: checkX * TILE_SIZE,
-            y: checkY * TILE_SIZE,
-            width: TILE_SIZE,
-            height: TILE_SIZE
-          };
-          if (checkCollision(player, box)) {
-            resolveCollision(player, box);
-          }
+        const box = {
+          x: checkX * TILE_SIZE,
+          y: checkY * TILE_SIZE,
+          width: TILE_SIZE,
+          height: TILE_SIZE
+        };
+        if (!checkCollision(player, box)) continue;
+        if (isSolidTile(tile)) {
+          resolveCollision(player, box);
+        } else if (isOneWayTile(tile)) {
+          resolveOneWayCollision(player, box);
         }
       }
     }
@@ -136,133 +240,527 @@ function handleTileCollisions(state: GameState, player: PlayerState): void {
       resolveCollision(player, trapBox);
     }
   });
+
+  // Moving platforms and crumbling platforms that haven't collapsed are solid
+  getPlatformBoxes(state).forEach((box) => {
+    if (checkCollision(player, box)) {
+      resolveCollision(player, box);
+    }
+  });
 }
 
-function updateMonsters(state: GameState, player: PlayerState): boolean {
-  let tookDamage = false;
+type Box = { x: number; y: number; width: number; height: number };
 
-  state.monsters.forEach((monster) => {
-    // Store original position
-    const originalX = monster.x;
+function getPlatformBoxes(state: GameState): Box[] {
+  const boxes: Box[] = state.movingPlatforms.map(({ x, y, width, height }) => ({ x, y, width, height }));
+  state.crumblingPlatforms.forEach((platform) => {
+    if (platform.phase !== "gone") {
+      boxes.push({ x: platform.x * TILE_SIZE, y: platform.y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE });
+    }
+  });
+  return boxes;
+}
 
-    // Try to move
-    monster.x += monster.speed * monster.direction;
+// Whether the player is resting on top of a box (as of the last collision pass)
+function isStandingOn(player: PlayerState, box: Box): boolean {
+  return (
+    player.onGround &&
+    Math.abs(player.y + player.height - box.y) < 1 &&
+    player.x < box.x + box.width &&
+    player.x + player.width > box.x
+  );
+}
 
-    // Check for wall collisions
-    const monsterGridX = Math.floor(monster.x / TILE_SIZE);
-    const monsterGridY = Math.floor(monster.y / TILE_SIZE);
-    let hitWall = false;
+// Move powered platforms one step along their waypoints, taking a standing player along
+function updateMovingPlatforms(state: GameState, player: PlayerState): void {
+  state.movingPlatforms.forEach((platform) => {
+    if (!platform.powered || platform.waypoints.length < 2) return;
+
+    const riding = isStandingOn(player, platform);
+    const target = platform.waypoints[platform.target];
+    const distanceX = target.x - platform.x;
+    const distanceY = target.y - platform.y;
+    const distance = Math.hypot(distanceX, distanceY);
+
+    let dx = distanceX;
+    let dy = distanceY;
+    if (distance > platform.speed) {
+      dx = (distanceX / distance) * platform.speed;
+      dy = (distanceY / distance) * platform.speed;
+    } else {
+      // Arrived: head for the next waypoint, turning back at either end
+      if (platform.target + platform.step < 0 || platform.target + platform.step >= platform.waypoints.length) {
+        platform.step = platform.step === 1 ? -1 : 1;
+      }
+      platform.target += platform.step;
+    }
 
-    // Check tiles around monster for solid blocks
-    for (let dy = 0; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        const checkX = monsterGridX + dx;
-        const checkY = monsterGridY + dy;
+    platform.x += dx;
+    platform.y += dy;
+    if (riding) {
+      player.x += dx;
+      player.y += dy;
+    }
+  });
+}
 
-        if (
-          checkX >= 0 &&
-          checkX < state.grid[0].length &&
-          checkY >= 0 &&
-          checkY < state.grid.length
-        ) {
-          const tile = state.grid[checkY][checkX];
-          if (
-            tile === TileType.Wall ||
-            tile === TileType.Stone ||
-            tile === TileType.Platform ||
-            tile === TileType.GrassStone ||
-            tile === TileType.Grass ||
-            tile === TileType.Soil
-          ) {
-            const tileBox = {
-              x: checkX * TILE_SIZE,
-              y: checkY * TILE_SIZE,
-              width: TILE_SIZE,
-              height: TILE_SIZE
-            };
-            if (checkCollision(monster, tileBox)) {
-              hitWall = true;
-              break;
-            }
-          }
+// Crumbling platforms start to fall apart once stood on and come back after `respawn`
+// (but never inside the player)
+function updateCrumblingPlatforms(state: GameState, player: PlayerState): void {
+  state.crumblingPlatforms.forEach((platform) => {
+    const box = { x: platform.x * TILE_SIZE, y: platform.y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE };
+
+    switch (platform.phase) {
+      case "solid":
+        if (isStandingOn(player, box)) {
+          platform.phase = "crumbling";
+          platform.timer = platform.delay;
         }
-      }
-      if (hitWall) break;
+        break;
+      case "crumbling":
+        platform.timer -= 1;
+        if (platform.timer <= 0) {
+          platform.phase = "gone";
+          platform.timer = platform.respawn;
+        }
+        break;
+      case "gone":
+        if (platform.timer > 0) {
+          platform.timer -= 1;
+        } else if (!checkCollision(player, box)) {
+          platform.phase = "solid";
+        }
+        break;
     }
+  });
+}
+
+// Solid tiles and trap blocks stop walking monsters; one-way platforms and lava don't
+function isMonsterBlocked(state: GameState, monster: MonsterState): boolean {
+  const monsterGridX = Math.floor(monster.x / TILE_SIZE);
+  const monsterGridY = Math.floor(monster.y / TILE_SIZE);
 
-    // Check collision with fire trap blocks
-    if (!hitWall) {
-      state.firetraps.forEach((trap) => {
-        const trapBox = {
-          x: trap.x * TILE_SIZE,
-          y: trap.y * TILE_SIZE,
+  for (let dy = 0; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const checkX = monsterGridX + dx;
+      const checkY = monsterGridY + dy;
+
+      if (
+        checkX >= 0 &&
+        checkX < state.grid[0].length &&
+        checkY >= 0 &&
+        checkY < state.grid.length &&
+        isSolidTile(state.grid[checkY][checkX])
+      ) {
+        const tileBox = {
+          x: checkX * TILE_SIZE,
+          y: checkY * TILE_SIZE,
           width: TILE_SIZE,
           height: TILE_SIZE
         };
-        if (checkCollision(monster, trapBox)) {
-          hitWall = true;
+        if (checkCollision(monster, tileBox)) {
+          return true;
         }
-      });
+      }
     }
+  }
 
-    // Check collision with spike trap blocks
-    if (!hitWall) {
-      state.spiketraps.forEach((trap) => {
-        const trapBox = {
-          x: trap.x * TILE_SIZE,
-          y: trap.y * TILE_SIZE,
-          width: TILE_SIZE,
-          height: TILE_SIZE
-        };
-        if (checkCollision(monster, trapBox)) {
-          hitWall = true;
+  const hitsTrapBlock = (trap: GridPosition) =>
+    checkCollision(monster, { x: trap.x * TILE_SIZE, y: trap.y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE });
+  return state.firetraps.some(hitsTrapBlock) || state.spiketraps.some(hitsTrapBlock);
+}
+
+function isPastPatrolEnd(monster: MonsterState): boolean {
+  const gridX = Math.floor(monster.x / TILE_SIZE);
+  return monster.direction === -1 ? gridX <= monster.patrol[0] : gridX >= monster.patrol[1];
+}
+
+function turnAround(monster: MonsterState): void {
+  monster.direction = monster.direction === 1 ? -1 : 1;
+}
+
+// Walk one step, turning back at walls and at the end of the patrol it is heading for
+// (so a monster that has wandered outside its patrol walks back instead of getting stuck)
+function patrolStep(state: GameState, monster: MonsterState): void {
+  const originalX = monster.x;
+  monster.x += monster.speed * monster.direction;
+  if (isMonsterBlocked(state, monster) || isPastPatrolEnd(monster)) {
+    turnAround(monster);
+    monster.x = originalX;
+  }
+}
+
+// Ground under the monster's leading edge; the bottom of the map counts as ground
+function hasGroundAhead(state: GameState, monster: MonsterState): boolean {
+  const edgeX = monster.direction === 1 ? monster.x + monster.width : monster.x - 1;
+  const gridX = Math.floor(edgeX / TILE_SIZE);
+  const gridY = Math.floor((monster.y + monster.height) / TILE_SIZE) + 1;
+  if (gridY >= state.grid.length) return true;
+  const tile = state.grid[gridY]?.[gridX];
+  return isSolidTile(tile) || isOneWayTile(tile);
+}
+
+/**
+ * Whether the player is within `radius` tiles of the monster (centre to centre).
+ * Unless `throughWalls` is set, solid tiles and closed doors on the line between them block the view.
+ */
+function canSeePlayer(
+  state: GameState,
+  monster: MonsterState,
+  player: PlayerState,
+  radius: number,
+  throughWalls = false
+): boolean {
+  const fromX = monster.x + monster.width / 2;
+  const fromY = monster.y + monster.height / 2;
+  const toX = player.x + player.width / 2;
+  const toY = player.y + player.height / 2;
+  const distance = Math.hypot(toX - fromX, toY - fromY);
+  if (distance > radius * TILE_SIZE) return false;
+  if (throughWalls) return true;
+
+  // Sample the line a quarter tile at a time
+  const steps = Math.ceil(distance / (TILE_SIZE / 4));
+  for (let i = 1; i < steps; i++) {
+    const gridX = Math.floor((fromX + ((toX - fromX) * i) / steps) / TILE_SIZE);
+    const gridY = Math.floor((fromY + ((toY - fromY) * i) / steps) / TILE_SIZE);
+    if (isSolidTile(state.grid[gridY]?.[gridX])) return false;
+    if (state.doors.some((door) => !door.open && door.x === gridX && door.y === gridY)) return false;
+  }
+  return true;
+}
+
+// Chasers patrol until they spot the player, then run at them - but never off a ledge
+function updateChaser(state: GameState, monster: MonsterState, player: PlayerState): void {
+  monster.alert = canSeePlayer(state, monster, player, MONSTER_SIGHT_RADIUS);
+  if (!monster.alert) {
+    patrolStep(state, monster);
+    return;
+  }
+
+  const offset = player.x + player.width / 2 - (monster.x + monster.width / 2);
+  if (Math.abs(offset) < monster.speed) return;
+  monster.direction = offset > 0 ? 1 : -1;
+  if (!hasGroundAhead(state, monster)) return;
+
+  const originalX = monster.x;
+  monster.x += monster.speed * CHASER_SPEED_BOOST * monster.direction;
+  if (isMonsterBlocked(state, monster)) {
+    monster.x = originalX;
+  }
+}
+
+/**
+ * Vertical tile collision for monsters that fall. Lands on solid tiles and on one-way tiles
+ * it was above, bumps its head on solid tiles. Returns whether the monster is on the ground.
+ */
+function settleMonster(state: GameState, monster: MonsterState): boolean {
+  const left = Math.floor(monster.x / TILE_SIZE);
+  const right = Math.floor((monster.x + monster.width - 1) / TILE_SIZE);
+
+  if (monster.velocityY >= 0) {
+    const row = Math.floor((monster.y + monster.height) / TILE_SIZE);
+    const previousBottom = monster.y + monster.height - monster.velocityY;
+    for (let x = left; x <= right; x++) {
+      const tile = state.grid[row]?.[x];
+      const landed =
+        row >= state.grid.length || isSolidTile(tile) || (isOneWayTile(tile) && previousBottom <= row * TILE_SIZE);
+      if (landed) {
+        monster.y = row * TILE_SIZE - monster.height;
+        monster.velocityY = 0;
+        return true;
+      }
+    }
+  } else {
+    const row = Math.floor(monster.y / TILE_SIZE);
+    for (let x = left; x <= right; x++) {
+      if (row < 0 || isSolidTile(state.grid[row]?.[x])) {
+        monster.y = (row + 1) * TILE_SIZE;
+        monster.velocityY = 0;
+        break;
+      }
+    }
+  }
+  return false;
+}
+
+// Jumpers patrol under gravity and hop whenever they have been on the ground long enough
+function updateJumper(state: GameState, monster: MonsterState): void {
+  patrolStep(state, monster);
+
+  monster.velocityY = Math.min(monster.velocityY + GRAVITY, 15);
+  monster.y += monster.velocityY;
+  if (!settleMonster(state, monster)) return;
+
+  monster.timer -= 1;
+  if (monster.timer <= 0) {
+    monster.velocityY = JUMPER_JUMP_POWER;
+    monster.timer = JUMPER_HOP_INTERVAL;
+  }
+}
+
+// Flyers ignore tiles entirely: they drift along their patrol and home in on a nearby player
+function updateFlyer(state: GameState, monster: MonsterState, player: PlayerState): void {
+  monster.alert = canSeePlayer(state, monster, player, MONSTER_SIGHT_RADIUS, true);
+  if (!monster.alert) {
+    monster.x += monster.speed * monster.direction;
+    if (isPastPatrolEnd(monster)) {
+      turnAround(monster);
+    }
+    return;
+  }
+
+  const offsetX = player.x + player.width / 2 - (monster.x + monster.width / 2);
+  const offsetY = player.y + player.height / 2 - (monster.y + monster.height / 2);
+  const distance = Math.hypot(offsetX, offsetY);
+  if (distance > monster.speed) {
+    monster.x += (offsetX / distance) * monster.speed;
+    monster.y += (offsetY / distance) * monster.speed;
+  }
+  monster.direction = offsetX >= 0 ? 1 : -1;
+}
+
+// Turrets face the player and fire whenever they are loaded and have a clear shot
+function updateTurret(state: GameState, monster: MonsterState, player: PlayerState): boolean {
+  const targetX = player.x + player.width / 2;
+  const targetY = player.y + player.height / 2;
+  monster.direction = targetX >= monster.x + monster.width / 2 ? 1 : -1;
+
+  if (monster.timer > 0) {
+    monster.timer -= 1;
+    return false;
+  }
+  if (!canSeePlayer(state, monster, player, TURRET_RANGE)) {
+    return false;
+  }
+
+  state.projectiles.push(createTurretProjectile(monster, targetX, targetY));
+  monster.timer = TURRET_FIRE_INTERVAL;
+  return true;
+}
+
+function updateMonsters(
+  state: GameState,
+  player: PlayerState
+): { tookDamage: boolean; fired: boolean; stomped: boolean } {
+  let tookDamage = false;
+  let fired = false;
+  let stomped = false;
+
+  state.monsters.forEach((monster) => {
+    switch (monster.kind) {
+      case "chaser":
+        updateChaser(state, monster, player);
+        break;
+      case "jumper":
+        updateJumper(state, monster);
+        break;
+      case "flyer":
+        updateFlyer(state, monster, player);
+        break;
+      case "turret":
+        fired = updateTurret(state, monster, player) || fired;
+        break;
+      default:
+        patrolStep(state, monster);
+        break;
+    }
+
+    if (!checkCollision(player, monster)) return;
+
+    // Landing on a monster kills it outright and bounces the player back up
+    if (isStomp(player, monster)) {
+      monster.health = 0;
+      player.velocityY = STOMP_BOUNCE;
+      stomped = true;
+      return;
+    }
+
+    // Otherwise deal 1 damage with cooldown
+    if (state.damageTimer === 0) {
+      state.health -= 1;
+      state.damageTimer = 60; // 1 second cooldown (60 frames)
+      applyKnockback(player, monster);
+      tookDamage = true;
+    }
+  });
+
+  state.monsters = state.monsters.filter((monster) => monster.health > 0);
+  return { tookDamage, fired, stomped };
+}
+
+// Whether a box overlaps any solid tile (outside the grid counts as solid)
+function hitsSolidTile(state: GameState, box: Box): boolean {
+  const left = Math.floor(box.x / TILE_SIZE);
+  const right = Math.floor((box.x + box.width - 1) / TILE_SIZE);
+  const top = Math.floor(box.y / TILE_SIZE);
+  const bottom = Math.floor((box.y + box.height - 1) / TILE_SIZE);
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (y < 0 || y >= state.grid.length || x < 0 || x >= state.grid[0].length) return true;
+      if (isSolidTile(state.grid[y][x])) return true;
+    }
+  }
+  return false;
+}
+
+// Move a boss sideways, staying inside its arena and out of walls. Returns false if it was stopped
+function moveBoss(state: GameState, boss: BossState, distance: number): boolean {
+  const originalX = boss.x;
+  boss.x += distance;
+  const left = boss.arena[0] * TILE_SIZE;
+  const right = (boss.arena[1] + 1) * TILE_SIZE;
+  if (boss.x < left || boss.x + boss.width > right || hitsSolidTile(state, boss)) {
+    boss.x = originalX;
+    return false;
+  }
+  return true;
+}
+
+// Start the warning glow on every idle fire trap inside the boss's arena (they spray half a second later)
+function igniteArenaFireTraps(state: GameState, boss: BossState): void {
+  state.firetraps.forEach((trap) => {
+    if (trap.enabled && !trap.isActive && trap.x >= boss.arena[0] && trap.x <= boss.arena[1]) {
+      trap.timer = 31;
+    }
+  });
+}
+
+function startBossAttack(state: GameState, boss: BossState, pattern: BossPattern): void {
+  const interval = Math.max(60, BOSS_ATTACK_INTERVAL - getBossPhase(boss) * 30);
+  switch (pattern) {
+    case "charge":
+      boss.action = "windup";
+      boss.timer = 40;
+      return;
+    case "summon":
+      if (state.monsters.length < BOSS_MINION_CAP) {
+        state.monsters.push(createMinion(boss, -1), createMinion(boss, 1));
+      }
+      break;
+    case "firetraps":
+      igniteArenaFireTraps(state, boss);
+      break;
+  }
+  boss.timer = interval;
+}
+
+/**
+ * Bosses close in on the player and attack on a timer, rotating through the patterns their
+ * current phase allows. Returns whether one of them hurt the player.
+ */
+function updateBosses(state: GameState, player: PlayerState): boolean {
+  let tookDamage = false;
+
+  state.bosses.forEach((boss) => {
+    const offset = player.x + player.width / 2 - (boss.x + boss.width / 2);
+    if (boss.hurtTimer > 0) boss.hurtTimer -= 1;
+    boss.timer -= 1;
+
+    switch (boss.action) {
+      case "walk":
+        boss.direction = offset >= 0 ? 1 : -1;
+        if (Math.abs(offset) > BOSS_WALK_SPEED) {
+          moveBoss(state, boss, BOSS_WALK_SPEED * boss.direction);
+        }
+        if (boss.timer <= 0) {
+          const patterns = BOSS_PHASE_PATTERNS[Math.min(getBossPhase(boss), BOSS_PHASE_PATTERNS.length - 1)];
+          startBossAttack(state, boss, patterns[boss.attackCount % patterns.length]);
+          boss.attackCount += 1;
+        }
+        break;
+      case "windup":
+        boss.direction = offset >= 0 ? 1 : -1;
+        if (boss.timer <= 0) {
+          boss.action = "charge";
+          boss.timer = 180;
         }
-      });
+        break;
+      case "charge":
+        if (!moveBoss(state, boss, BOSS_CHARGE_SPEED * boss.direction) || boss.timer <= 0) {
+          boss.action = "stunned";
+          boss.timer = 45;
+        }
+        break;
+      case "stunned":
+        if (boss.timer <= 0) {
+          boss.action = "walk";
+          boss.timer = BOSS_ATTACK_INTERVAL / 2;
+        }
+        break;
     }
 
-    // If hit wall or reached patrol boundary, reverse direction
-    const gridX = Math.floor(monster.x / TILE_SIZE);
-    if (hitWall || gridX <= monster.patrol[0] || gridX >= monster.patrol[1]) {
-      monster.direction = monster.direction === 1 ? -1 : 1;
-      monster.x = originalX; // Reset to original position
+    // A charging boss hits twice as hard
+    if (checkCollision(player, boss) && state.damageTimer === 0) {
+      state.health -= boss.action === "charge" ? 2 : 1;
+      state.damageTimer = 60;
+      applyKnockback(player, boss);
+      tookDamage = true;
+    }
+  });
+
+  return tookDamage;
+}
+
+// Move turret shots; they stop at solid tiles, closed doors, the edge of the map and the player
+function updateProjectiles(state: GameState, player: PlayerState): boolean {
+  let tookDamage = false;
+
+  state.projectiles = state.projectiles.filter((shot) => {
+    shot.x += shot.velocityX;
+    shot.y += shot.velocityY;
+
+    const gridX = Math.floor((shot.x + shot.width / 2) / TILE_SIZE);
+    const gridY = Math.floor((shot.y + shot.height / 2) / TILE_SIZE);
+    if (gridY < 0 || gridY >= state.grid.length || gridX < 0 || gridX >= state.grid[0].length) {
+      return false;
+    }
+    if (isSolidTile(state.grid[gridY][gridX])) {
+      return false;
+    }
+    if (state.doors.some((door) => !door.open && door.x === gridX && door.y === gridY)) {
+      return false;
     }
 
-    // Check collision with player - deal 1 damage with cooldown
-    if (checkCollision(player, monster)) {
+    if (checkCollision(shot, player)) {
       if (state.damageTimer === 0) {
         state.health -= 1;
-        state.damageTimer = 60; // 1 second cooldown (60 frames)
+        state.damageTimer = 60;
+        applyKnockback(player, shot);
         tookDamage = true;
       }
+      return false;
     }
+    return true;
   });
 
   return tookDamage;
 }
 
-function handleLavaDamage(state: GameState, player: PlayerState): boolean {
+// Hazard tiles (lava) don't stop the player - touching one at all hurts
+function handleHazardDamage(state: GameState, player: PlayerState): boolean {
   if (state.damageTimer > 0) {
     state.damageTimer -= 1;
     return false;
   }
 
-  const playerBottomY = Math.floor((player.y + player.height) / TILE_SIZE);
-  const playerCenterX = Math.floor((player.x + player.width / 2) / TILE_SIZE);
-
-  if (
-    playerBottomY >= 0 &&
-    playerBottomY < state.grid.length &&
-    playerCenterX >= 0 &&
-    playerCenterX < state.grid[0].length
-  ) {
-    const tileBelow = state.grid[playerBottomY][playerCenterX];
-    if (tileBelow === TileType.Lava && player.onGround) {
-      state.health -= 1;
-      state.damageTimer = 60;
-      // Trigger shake effect
-      player.shaking = true;
-      player.shakeTimer = 30; // Shake for 30 frames (~0.5 seconds)
-      return true;
+  const left = Math.max(0, Math.floor(player.x / TILE_SIZE));
+  const right = Math.min(state.grid[0].length - 1, Math.floor((player.x + player.width - 1) / TILE_SIZE));
+  const top = Math.max(0, Math.floor(player.y / TILE_SIZE));
+  const bottom = Math.min(state.grid.length - 1, Math.floor((player.y + player.height - 1) / TILE_SIZE));
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (isHazardTile(state.grid[y][x])) {
+        state.health -= 1;
+        state.damageTimer = 60;
+        applyKnockback(player, { x: x * TILE_SIZE, width: TILE_SIZE });
+        // Trigger shake effect
+        player.shaking = true;
+        player.shakeTimer = 30; // Shake for 30 frames (~0.5 seconds)
+        return true;
+      }
     }
   }
   return false;
@@ -314,37 +812,130 @@ function handleTrapCollisions(state: GameState, player: PlayerState): void {
   });
 }
 
-// Open door when K is pressed (exported for use in GamePage)
-// Checks if player is within 1.5 blocks of the door center
-export function tryOpenDoor(state: GameState): boolean {
-  const player = state.player;
+// Whether the player's center is within 1.5 blocks (60 pixels) of a cell's center in both directions
+function isWithinReach(player: PlayerState, cell: GridPosition): boolean {
+  const cellCenterX = cell.x * TILE_SIZE + TILE_SIZE / 2;
+  const cellCenterY = cell.y * TILE_SIZE + TILE_SIZE / 2;
+  const playerCenterX = player.x + player.width / 2;
+  const playerCenterY = player.y + player.height / 2;
+
+  const maxDistance = TILE_SIZE * 1.5;
+  return Math.abs(playerCenterX - cellCenterX) <= maxDistance && Math.abs(playerCenterY - cellCenterY) <= maxDistance;
+}
+
+// Open door when the openDoor action is queued
+// Switch-linked doors ignore keys
+function tryOpenDoor(state: GameState): boolean {
   let openedDoor = false;
 
   state.doors.forEach((door) => {
-    if (!door.open && state.keys > 0) {
-      // Calculate center of door and player
-      const doorCenterX = door.x * TILE_SIZE + TILE_SIZE / 2;
-      const doorCenterY = door.y * TILE_SIZE + TILE_SIZE / 2;
-      const playerCenterX = player.x + player.width / 2;
-      const playerCenterY = player.y + player.height / 2;
-
-      // Calculate distance between player and door
-      const distanceX = Math.abs(playerCenterX - doorCenterX);
-      const distanceY = Math.abs(playerCenterY - doorCenterY);
-
-      // Check if player is within 1.5 blocks (60 pixels) in both directions
-      const maxDistance = TILE_SIZE * 1.5;
-      if (distanceX <= maxDistance && distanceY <= maxDistance) {
-        door.open = true;
-        state.keys -= 1;
-        openedDoor = true;
-      }
+    if (!door.open && !door.linked && state.keys[door.channel] > 0 && isWithinReach(state.player, door)) {
+      door.open = true;
+      state.keys[door.channel] -= 1;
+      openedDoor = true;
     }
   });
 
   return openedDoor;
 }
 
+// The openDoor (use) action also flips levers in reach
+function tryPullLever(state: GameState): boolean {
+  let pulled = false;
+
+  state.triggers.forEach((trigger) => {
+    if (trigger.kind === "lever" && isWithinReach(state.player, trigger)) {
+      trigger.active = !trigger.active;
+      pulled = true;
+    }
+  });
+
+  return pulled;
+}
+
+// Plates are held down by the player or a monster; buttons latch for their duration.
+// Returns true if any plate or button changed state.
+function updateTriggers(state: GameState, player: PlayerState): boolean {
+  let toggled = false;
+
+  state.triggers.forEach((trigger) => {
+    if (trigger.kind === "lever") return;
+
+    const box = {
+      x: trigger.x * TILE_SIZE,
+      y: trigger.y * TILE_SIZE,
+      width: TILE_SIZE,
+      height: TILE_SIZE
+    };
+    const wasActive = trigger.active;
+
+    if (trigger.kind === "plate") {
+      trigger.active = checkCollision(player, box) || state.monsters.some((monster) => checkCollision(monster, box));
+    } else if (checkCollision(player, box)) {
+      trigger.timer = trigger.duration;
+      trigger.active = true;
+    } else if (trigger.timer > 0) {
+      trigger.timer -= 1;
+      trigger.active = trigger.timer > 0;
+    }
+
+    if (trigger.active !== wasActive) {
+      toggled = true;
+    }
+  });
+
+  return toggled;
+}
+
+/**
+ * Drive linked doors and traps from the triggers. A cell is powered while any trigger
+ * linking to it is on; powered doors and traps are the opposite of their level-defined state.
+ */
+function applyTriggerLinks(state: GameState): void {
+  if (!state.triggers.length) return;
+
+  const powered = new Set<string>();
+  state.triggers.forEach((trigger) => {
+    if (trigger.active) {
+      trigger.links.forEach((link) => powered.add(`${link.x},${link.y}`));
+    }
+  });
+  const isPowered = (cell: GridPosition) => powered.has(`${cell.x},${cell.y}`);
+
+  state.doors.forEach((door) => {
+    if (door.linked) {
+      door.open = door.startsOpen !== isPowered(door);
+    }
+  });
+
+  state.firetraps.forEach((trap) => {
+    const enabled = trap.startsEnabled !== isPowered(trap);
+    if (enabled !== trap.enabled) {
+      trap.enabled = enabled;
+      trap.isActive = false;
+      trap.warning = false;
+      trap.fireBlocks = [];
+      trap.timer = trap.restTime;
+    }
+  });
+
+  state.spiketraps.forEach((trap) => {
+    const enabled = trap.startsEnabled !== isPowered(trap);
+    if (enabled !== trap.enabled) {
+      trap.enabled = enabled;
+      trap.isActive = false;
+      trap.warning = false;
+      trap.timer = trap.restTime;
+    }
+  });
+
+  state.movingPlatforms.forEach((platform) => {
+    if (platform.linked) {
+      platform.powered = isPowered(platform.origin);
+    }
+  });
+}
+
 function collectItems(state: GameState, player: PlayerState): boolean {
   let collected = false;
   state.collectibles.forEach((item) => {
@@ -352,26 +943,72 @@ function collectItems(state: GameState, player: PlayerState): boolean {
       item.collected = true;
       collected = true;
       if (item.type === "key") {
-        state.keys += 1;
+        state.keys[item.channel ?? DEFAULT_KEY_CHANNEL] += 1;
       } else if (item.type === "weapon") {
+        const kind = item.weapon ?? "pistol";
+        // A weapon the player didn't have yet goes straight into their hands
+        if (state.ammo[kind] === 0) {
+          state.currentWeapon = kind;
+        }
         player.hasWeapon = true;
-        state.ammo += 10;
+        state.ammo[kind] += WEAPON_PICKUP_AMMO[kind];
       } else if (item.type === "bomb") {
         state.bombCount += 3;
       } else if (item.type === "heart") {
         state.health = Math.min(state.maxHealth, state.health + 1);
       } else if (item.type === "coin") {
-        // Reserved for score tracking
+        state.coins += 1;
       }
     }
   });
   return collected;
 }
 
+// Touching a checkpoint flag for the first time makes it the respawn point; returns the flag reached, if any
+function reachCheckpoints(state: GameState, player: PlayerState): GridPosition | null {
+  const checkpoint = state.checkpoints.find(
+    (flag) =>
+      !flag.reached &&
+      checkCollision(player, { x: flag.x * TILE_SIZE, y: flag.y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE })
+  );
+  if (!checkpoint) return null;
+  checkpoint.reached = true;
+  return { x: checkpoint.x, y: checkpoint.y };
+}
+
+/**
+ * Put the world back the way it was when the last checkpoint was reached, with the player
+ * standing at the flag on full health. The clock and death count keep running.
+ */
+function respawnAtCheckpoint(state: GameState, checkpoint: CheckpointSnapshot): GameState {
+  const restored = cloneState(checkpoint.state);
+  restored.checkpoint = checkpoint;
+  restored.deaths = state.deaths;
+  // The tick still counts, so a replay never records two inputs for the same tick
+  restored.tick = state.tick + 1;
+  restored.time = Math.floor(restored.tick / TICKS_PER_SECOND);
+  restored.animationFrame = state.animationFrame;
+  restored.health = restored.maxHealth;
+  restored.damageTimer = 60;
+  restored.player = {
+    ...restored.player,
+    ...gridToPixel(checkpoint.position),
+    velocityX: 0,
+    velocityY: 0,
+    onGround: false,
+    shaking: false,
+    shakeTimer: 0,
+    knockbackTimer: 0,
+    meleeTimer: 0
+  };
+  return restored;
+}
+
 function updateFireTraps(state: GameState, player: PlayerState): boolean {
   let tookFireDamage = false;
 
   state.firetraps.forEach((trap) => {
+    if (!trap.enabled) return;
     trap.timer -= 1;
 
     // Handle timer reset and state transitions
@@ -453,6 +1090,7 @@ function updateFireTraps(state: GameState, player: PlayerState): boolean {
           if (checkCollision(player, fireBox)) {
             state.health -= 1;
             state.damageTimer = 60;  // 1 second invincibility
+            applyKnockback(player, fireBox);
             player.shaking = true;
             player.shakeTimer = 30;
             tookFireDamage = true;
@@ -470,6 +1108,7 @@ function updateSpikeTraps(state: GameState, player: PlayerState): boolean {
   let tookSpikeDamage = false;
 
   state.spiketraps.forEach((trap) => {
+    if (!trap.enabled) return;
     trap.timer -= 1;
 
     // Handle timer reset and state transitions
@@ -507,6 +1146,7 @@ function updateSpikeTraps(state: GameState, player: PlayerState): boolean {
       if (checkCollision(player, spikeBox)) {
         state.health -= 1;
         state.damageTimer = 60;  // 1 second invincibility
+        applyKnockback(player, spikeBox);
         player.shaking = true;
         player.shakeTimer = 30;
         tookSpikeDamage = true;
@@ -530,7 +1170,8 @@ function handleGoal(state: GameState, player: PlayerState): boolean {
     height: TILE_SIZE
   };
 
-  const collision = checkCollision(player, goalBox);
+  // The goal stays locked while any boss is alive
+  const collision = state.bosses.length === 0 && checkCollision(player, goalBox);
 
   if (collision) {
     logInfo("Goal reached", {
@@ -545,20 +1186,159 @@ function handleGoal(state: GameState, player: PlayerState): boolean {
   return collision;
 }
 
-export function updateGameFrame(state: GameState, keys: KeyMap): {
+/**
+ * Apply fresh explosions: they hurt monsters, bosses and the player, and destroy doors
+ * and trap blocks marked as bombable. Older blasts fade out. Returns whether the player was hurt.
+ */
+function applyBlasts(state: GameState, player: PlayerState, blasts: BlastState[]): boolean {
+  state.blasts = [
+    ...state.blasts.map((blast) => ({ ...blast, timer: blast.timer - 1 })).filter((blast) => blast.timer > 0),
+    ...blasts
+  ];
+  if (blasts.length === 0) return false;
+
+  const inAnyBlast = (cell: GridPosition) => blasts.some((blast) => isCellInBlast(blast, cell));
+
+  state.monsters.forEach((monster) => {
+    blasts.forEach((blast) => {
+      if (isBoxInBlast(blast, monster)) monster.health -= BOMB_DAMAGE;
+    });
+  });
+  state.monsters = state.monsters.filter((monster) => monster.health > 0);
+
+  state.bosses.forEach((boss) => {
+    blasts.forEach((blast) => {
+      if (isBoxInBlast(blast, boss)) {
+        boss.health -= BOMB_DAMAGE;
+        boss.hurtTimer = BOSS_HURT_FLASH;
+      }
+    });
+  });
+  state.bosses = state.bosses.filter((boss) => boss.health > 0);
+
+  state.doors = state.doors.filter((door) => !(door.bombable && inAnyBlast(door)));
+  state.firetraps = state.firetraps.filter((trap) => !(trap.bombable && inAnyBlast(trap)));
+  state.spiketraps = state.spiketraps.filter((trap) => !(trap.bombable && inAnyBlast(trap)));
+
+  const hit = blasts.find((blast) => isBoxInBlast(blast, player));
+  if (!hit || state.damageTimer > 0) return false;
+
+  state.health -= 1;
+  state.damageTimer = 60;
+  player.shaking = true;
+  player.shakeTimer = 30;
+  applyKnockback(player, { x: hit.x * TILE_SIZE, width: TILE_SIZE });
+  return true;
+}
+
+// Hit every monster and boss in front of the player for 1 damage
+function swingMelee(state: GameState): boolean {
+  const player = state.player;
+  if (player.meleeTimer) return false;
+  player.meleeTimer = MELEE_FRAMES;
+
+  const reach = getMeleeBox(player);
+  state.monsters.forEach((monster) => {
+    if (checkCollision(reach, monster)) monster.health -= 1;
+  });
+  state.bosses.forEach((boss) => {
+    if (checkCollision(reach, boss)) {
+      boss.health -= 1;
+      boss.hurtTimer = BOSS_HURT_FLASH;
+    }
+  });
+  state.monsters = state.monsters.filter((monster) => monster.health > 0);
+  state.bosses = state.bosses.filter((boss) => boss.health > 0);
+  return true;
+}
+
+// Next weapon after the current one that still has ammo, or null if there is none
+function getNextWeapon(state: GameState): WeaponKind | null {
+  const kinds = WEAPON_KIND_OPTIONS.map((option) => option.value);
+  const start = state.currentWeapon ? kinds.indexOf(state.currentWeapon) : -1;
+  for (let step = 1; step <= kinds.length; step++) {
+    const kind = kinds[(start + step) % kinds.length];
+    if (state.ammo[kind] > 0) return kind;
+  }
+  return null;
+}
+
+// Apply one queued action to an already-cloned state.
+// Returns the event it raised, or null if it had no effect.
+function performAction(state: GameState, action: PlayerAction): keyof GameUpdateEvents | null {
+  const player = state.player;
+
+  switch (action) {
+    case "jump":
+      if (!player.onGround) return null;
+      jump(player);
+      return ACTION_EVENTS[action];
+    case "fire": {
+      // Without a gun the fire button swings instead
+      const weapon = state.currentWeapon;
+      if (!player.hasWeapon || !weapon) return swingMelee(state) ? ACTION_EVENTS.melee : null;
+      if (state.ammo[weapon] <= 0) return null;
+      state.bullets.push(...createPlayerBullets(player, weapon));
+      state.ammo[weapon] -= 1;
+      // Out of ammo: move on to whatever still has some
+      if (state.ammo[weapon] === 0) {
+        state.currentWeapon = getNextWeapon(state) ?? weapon;
+      }
+      return ACTION_EVENTS[action];
+    }
+    case "switchWeapon": {
+      const next = getNextWeapon(state);
+      if (!next || next === state.currentWeapon) return null;
+      state.currentWeapon = next;
+      return ACTION_EVENTS[action];
+    }
+    case "melee":
+      return swingMelee(state) ? ACTION_EVENTS[action] : null;
+    case "bomb":
+      if (state.bombCount <= 0) return null;
+      state.placedBombs.push(createPlacedBomb(player));
+      state.bombCount -= 1;
+      return ACTION_EVENTS[action];
+    case "openDoor":
+      if (tryOpenDoor(state)) return ACTION_EVENTS[action];
+      return tryPullLever(state) ? "switchToggled" : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Advance the simulation by one tick.
+ * `actions` are the discrete inputs queued since the previous tick; they are applied
+ * before movement so a jump or shot lands on the same tick it was pressed.
+ */
+export function updateGameFrame(state: GameState, keys: KeyMap, actions: PlayerAction[] = []): {
   state: GameState;
   events: GameUpdateEvents;
 } {
+  const events = createEmptyEvents();
   if (!state.grid.length) {
-    return { state, events: { levelComplete: false, playerDied: false, doorOpened: false, tookDamage: false, itemCollected: false, bombExploded: false } };
+    return { state, events };
   }
 
   const nextState = cloneState(state);
   const player = nextState.player;
+  const bossCount = nextState.bosses.length;
+  const monsterCount = nextState.monsters.length;
+
+  actions.forEach((action) => {
+    const event = performAction(nextState, action);
+    if (event) {
+      events[event] = true;
+    }
+  });
+
+  // Platforms move before the player so anyone riding one is carried along first
+  updateMovingPlatforms(nextState, player);
 
   const horizontalDirection =
-    keys.ArrowLeft || keys.a || keys.A ? -1 :
-    keys.ArrowRight || keys.d || keys.D ? 1 : 0;
+    keys[MOVE_LEFT_KEY] || keys.a || keys.A ? -1 :
+    keys[MOVE_RIGHT_KEY] || keys.d || keys.D ? 1 : 0;
   movePlayerHorizontal(player, horizontalDirection as -1 | 0 | 1);
 
   applyGravity(player);
@@ -567,12 +1347,23 @@ export function updateGameFrame(state: GameState, keys: KeyMap): {
   player.y += player.velocityY;
 
   handleTileCollisions(nextState, player);
+  updateCrumblingPlatforms(nextState, player);
+
+  // Plates and buttons, then push every trigger's state out to its linked doors and traps
+  if (updateTriggers(nextState, player)) {
+    events.switchToggled = true;
+  }
+  applyTriggerLinks(nextState);
 
-  // Handle monster damage
-  const monsterDamage = updateMonsters(nextState, player);
+  // Handle monster damage and turret fire
+  const { tookDamage: monsterDamage, fired: enemyFired, stomped } = updateMonsters(nextState, player);
+  const projectileDamage = updateProjectiles(nextState, player);
+  const beforeSummons = nextState.monsters.length;
+  const bossDamage = updateBosses(nextState, player);
+  const summoned = nextState.monsters.length - beforeSummons;
 
-  // Handle lava damage
-  const lavaDamage = handleLavaDamage(nextState, player);
+  // Handle lava and other hazard tiles
+  const hazardDamage = handleHazardDamage(nextState, player);
 
   // Handle fire trap damage and animation
   const fireDamage = updateFireTraps(nextState, player);
@@ -580,16 +1371,30 @@ export function updateGameFrame(state: GameState, keys: KeyMap): {
   // Handle spike trap damage and animation
   const spikeDamage = updateSpikeTraps(nextState, player);
 
+  // Bombs go off before the death check, since their blasts hurt the player too
+  const { bombs, grid, exploded: bombExploded, blasts } = updatePlacedBombs(
+    nextState.placedBombs,
+    nextState.grid,
+    nextState.bombRadius
+  );
+  nextState.placedBombs = bombs;
+  nextState.grid = grid;
+  const blastDamage = applyBlasts(nextState, player, blasts);
+
   // Combine damage from all sources
-  const tookDamage = monsterDamage || lavaDamage || fireDamage || spikeDamage;
+  const tookDamage =
+    monsterDamage || projectileDamage || bossDamage || hazardDamage || fireDamage || spikeDamage || blastDamage;
 
   // Check if player died from damage
   if (tookDamage && nextState.health <= 0) {
     nextState.deaths += 1;
-    return {
-      state: nextState,
-      events: { levelComplete: false, playerDied: true, doorOpened: false, tookDamage: true, itemCollected: false, bombExploded: false }
-    };
+    events.tookDamage = true;
+    if (nextState.checkpoint) {
+      events.respawned = true;
+      return { state: respawnAtCheckpoint(nextState, nextState.checkpoint), events };
+    }
+    events.playerDied = true;
+    return { state: nextState, events };
   }
 
   // Handle door collisions (doors act as solid blocks when closed)
@@ -599,27 +1404,35 @@ export function updateGameFrame(state: GameState, keys: KeyMap): {
   handleTrapCollisions(nextState, player);
 
   const itemCollected = collectItems(nextState, player);
+  const checkpointReached = reachCheckpoints(nextState, player);
 
-  const { bullets, monsters } = updateBullets(
+  const { bullets, monsters, bosses, explosions } = updateBullets(
     nextState.bullets,
     nextState.grid,
     nextState.monsters,
     nextState.doors,
     nextState.firetraps,
-    nextState.spiketraps
+    nextState.spiketraps,
+    nextState.bosses
   );
   nextState.bullets = bullets;
   nextState.monsters = monsters;
-
-  const { bombs, grid, exploded: bombExploded } = updatePlacedBombs(nextState.placedBombs, nextState.grid);
-  nextState.placedBombs = bombs;
-  nextState.grid = grid;
+  nextState.bosses = bosses;
+  // Grenades that went off become bombs with no fuse left, which explode next tick
+  explosions.forEach((cell) => {
+    nextState.placedBombs.push({ ...cell, timer: 1 });
+  });
 
   const levelComplete = handleGoal(nextState, player);
 
-  nextState.time = Math.floor((Date.now() - nextState.startTime) / 1000);
+  nextState.tick += 1;
+  nextState.time = Math.floor(nextState.tick / TICKS_PER_SECOND);
   nextState.animationFrame = (nextState.animationFrame + 1) % 1000;
 
+  if (player.meleeTimer) {
+    player.meleeTimer -= 1;
+  }
+
   // Update shake timer
   if (player.shakeTimer !== undefined && player.shakeTimer > 0) {
     player.shakeTimer -= 1;
@@ -629,16 +1442,34 @@ export function updateGameFrame(state: GameState, keys: KeyMap): {
     }
   }
 
-  return {
-    state: nextState,
-    events: {
-      levelComplete,
-      playerDied: false,
-      doorOpened: false, // Doors only open when K is pressed (handled in GamePage)
-      tookDamage,
-      itemCollected,
-      bombExploded
-    }
-  };
+  events.levelComplete = levelComplete;
+  events.tookDamage = tookDamage;
+  events.itemCollected = itemCollected;
+  events.bombExploded = bombExploded;
+  events.enemyFired = enemyFired;
+  events.bossDefeated = nextState.bosses.length < bossCount;
+  // Monsters can only leave the list by dying, so whatever is missing (boss summons included) was killed
+  nextState.monstersKilled +=
+    monsterCount + summoned - nextState.monsters.length + (bossCount - nextState.bosses.length);
+
+  // Snapshot last, so the saved world includes everything that happened this tick
+  if (checkpointReached) {
+    events.checkpointReached = true;
+    nextState.checkpoint = {
+      position: checkpointReached,
+      state: cloneState({ ...nextState, checkpoint: null })
+    };
+  }
+  events.monsterStomped = stomped;
+
+  return { state: nextState, events };
 }
 
+/**
+ * Whether `action` would do anything right now (jumping mid-air, firing without ammo,
+ * no bombs or no door or lever in reach all do nothing). Lets UI pick between actions without
+ * touching the real state.
+ */
+export function canPerformAction(state: GameState, action: PlayerAction): boolean {
+  return performAction(cloneState(state), action) !== null;
+}
@@ -4,27 +4,93 @@ import {
   GRAVITY,
   JUMP_POWER,
   MOVE_SPEED,
-  TileType,
   TILE_SIZE
 } from "../types";
+import { DEFAULT_KEY_CHANNEL } from "../constants";
+import { EMPTY_TILE } from "../tileset";
+import { isBreakableTile, isSolidTile } from "./tileBehavior";
 import type {
+  AmmoInventory,
+  BlastState,
+  BossPattern,
+  BossState,
   BulletState,
+  CheckpointState,
   CollectibleState,
+  CrumblingPlatformState,
   DoorState,
   GameState,
   GridPosition,
+  KeyInventory,
   LevelData,
   MonsterState,
+  MovingPlatformState,
   PlacedBomb,
-  PlayerState
+  PlayerState,
+  ProjectileState,
+  TriggerState,
+  WeaponKind
 } from "../types";
 
+export const DEFAULT_MONSTER_SPEED = 1.5;
+export const DEFAULT_MONSTER_HEALTH = 3;
+export const MONSTER_SIGHT_RADIUS = 6;    // Tiles: how close the player must be for chasers and flyers to notice
+export const CHASER_SPEED_BOOST = 1.75;   // Speed multiplier while a chaser is running at the player
+export const JUMPER_HOP_INTERVAL = 90;    // Frames a jumper waits on the ground between hops
+export const JUMPER_JUMP_POWER = -8;
+export const TURRET_RANGE = 8;            // Tiles
+export const TURRET_FIRE_INTERVAL = 120;  // Frames between turret shots
+export const PROJECTILE_SPEED = 4;
+export const DEFAULT_BOSS_HEALTH = 30;
+export const DEFAULT_BOSS_PHASES = 3;
+export const BOSS_SIZE = 70;              // Pixels - a boss fills most of a 2x2 tile square
+export const BOSS_WALK_SPEED = 1;
+export const BOSS_CHARGE_SPEED = 6;
+export const BOSS_ATTACK_INTERVAL = 150;  // Frames between attacks in the first phase
+export const BOSS_MINION_CAP = 6;         // Summoning stops while this many monsters are alive
+export const BOSS_HURT_FLASH = 10;
+// Attacks available in each phase; phases past the end of the list use the last entry
+export const BOSS_PHASE_PATTERNS: BossPattern[][] = [
+  ["charge"],
+  ["charge", "summon"],
+  ["charge", "summon", "firetraps"]
+];
+export const STOMP_BOUNCE = -7;           // Upward speed after landing on a monster
+export const STOMP_TOLERANCE = 10;        // Pixels the player's feet may already be inside a monster and still count as from above
+export const KNOCKBACK_SPEED = 5;
+export const KNOCKBACK_LIFT = -4;
+export const KNOCKBACK_FRAMES = 12;
+export const MELEE_RANGE = 26;            // Pixels in front of the player
+export const MELEE_FRAMES = 18;           // Length of a swing, which is also the cooldown between swings
+export const WEAPON_PICKUP_AMMO: AmmoInventory = { pistol: 10, spread: 8, piercing: 6, grenade: 3 };
+export const SPREAD_SHOT_DRIFT = 0.8;     // Vertical speed of the outer spread shots
+export const GRENADE_THROW_SPEED = 5;
+export const GRENADE_LIFT = -6;
+export const BOMB_DAMAGE = 3;             // To monsters and bosses in a blast; the player loses 1 health
+export const BLAST_FRAMES = 24;           // How long an explosion stays on screen
+export const DEFAULT_BUTTON_DURATION = 3;  // Seconds a timed button stays pressed
+export const DEFAULT_PLATFORM_SPEED = 1;
+export const DEFAULT_CRUMBLE_DELAY = 0.5;
+export const DEFAULT_CRUMBLE_RESPAWN = 3;
+export const MOVING_PLATFORM_HEIGHT = 16;  // Moving platforms are slabs across the top of their cell
+
+export function createEmptyKeyInventory(): KeyInventory {
+  return { gold: 0, red: 0, blue: 0, green: 0 };
+}
+
+export function createEmptyAmmoInventory(): AmmoInventory {
+  return { pistol: 0, spread: 0, piercing: 0, grenade: 0 };
+}
+
 export function createInitialGameState(): GameState {
   return {
     level: 1,
-    keys: 0,
-    ammo: 0,
+    keys: createEmptyKeyInventory(),
+    ammo: createEmptyAmmoInventory(),
+    currentWeapon: null,
     bombCount: 0,
+    coins: 0,
+    monstersKilled: 0,
     time: 0,
     deaths: 0,
     health: 6,
@@ -35,10 +101,19 @@ export function createInitialGameState(): GameState {
     monsters: [],
     collectibles: [],
     doors: [],
+    bosses: [],
     bullets: [],
+    projectiles: [],
     placedBombs: [],
+    blasts: [],
+    bombRadius: BOMB_BLAST_RADIUS,
     firetraps: [],
     spiketraps: [],
+    triggers: [],
+    movingPlatforms: [],
+    crumblingPlatforms: [],
+    checkpoints: [],
+    checkpoint: null,
     goalPos: null,
     theme: "sky",
     player: {
@@ -52,7 +127,7 @@ export function createInitialGameState(): GameState {
       hasWeapon: false,
       facingRight: true
     },
-    startTime: Date.now(),
+    tick: 0,
     animationFrame: 0
   };
 }
@@ -75,6 +150,7 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
   state.theme = levelData.theme ?? "sky";
   state.background = levelData.background ?? "none";
   state.goalPos = levelData.goal ?? null;
+  state.bombRadius = levelData.bombRadius ?? BOMB_BLAST_RADIUS;
 
   if (levelData.playerStart) {
     const pixel = gridToPixel(levelData.playerStart);
@@ -83,18 +159,44 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
   }
 
   state.monsters = (levelData.monsters ?? []).map(
-    (monster): MonsterState => ({
-      x: monster.x * TILE_SIZE + 5,
-      y: monster.y * TILE_SIZE + 5,
-      patrol: monster.patrol ?? [monster.x - 3, monster.x + 3],
-      direction: 1,
-      speed: 1.5,
-      width: 30,
-      height: 30,
-      health: 3
-    })
+    (monster): MonsterState => {
+      const kind = monster.kind ?? "patrol";
+      return {
+        x: monster.x * TILE_SIZE + 5,
+        y: monster.y * TILE_SIZE + 5,
+        kind,
+        patrol: monster.patrol ?? [monster.x - 3, monster.x + 3],
+        direction: 1,
+        speed: monster.speed ?? DEFAULT_MONSTER_SPEED,
+        width: 30,
+        height: 30,
+        health: monster.health ?? DEFAULT_MONSTER_HEALTH,
+        velocityY: 0,
+        timer: kind === "turret" ? TURRET_FIRE_INTERVAL / 2 : JUMPER_HOP_INTERVAL,
+        alert: false
+      };
+    }
   );
 
+  state.bosses = (levelData.bosses ?? []).map((boss): BossState => {
+    const health = boss.health ?? DEFAULT_BOSS_HEALTH;
+    return {
+      x: boss.x * TILE_SIZE + 5,
+      y: (boss.y + 1) * TILE_SIZE - BOSS_SIZE,
+      width: BOSS_SIZE,
+      height: BOSS_SIZE,
+      arena: boss.arena,
+      health,
+      maxHealth: health,
+      phases: boss.phases ?? DEFAULT_BOSS_PHASES,
+      direction: -1,
+      action: "walk",
+      timer: BOSS_ATTACK_INTERVAL,
+      attackCount: 0,
+      hurtTimer: 0
+    };
+  });
+
   const collectibles: CollectibleState[] = [];
   (levelData.keys ?? []).forEach((key) => {
     const pixel = gridToPixel(key);
@@ -103,6 +205,7 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
       width: 30,
       height: 30,
       type: "key",
+      channel: key.channel ?? DEFAULT_KEY_CHANNEL,
       collected: false
     });
   });
@@ -113,6 +216,7 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
       width: 30,
       height: 30,
       type: "weapon",
+      weapon: weapon.kind ?? "pistol",
       collected: false
     });
   });
@@ -148,11 +252,20 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
   });
   state.collectibles = collectibles;
 
+  // Cells some trigger links to; doors there are switch-driven instead of locked
+  const linkedCells = new Set(
+    (levelData.triggers ?? []).flatMap((trigger) => trigger.links.map((link) => `${link.x},${link.y}`))
+  );
+
   state.doors = (levelData.doors ?? []).map(
     (door): DoorState => ({
       x: door.x,
       y: door.y,
-      open: Boolean(door.open)
+      open: Boolean(door.open),
+      channel: door.channel ?? DEFAULT_KEY_CHANNEL,
+      linked: linkedCells.has(`${door.x},${door.y}`),
+      startsOpen: Boolean(door.open),
+      bombable: Boolean(door.bombable)
     })
   );
 
@@ -168,7 +281,10 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
       timer: trap.restTime * 60 - 30,   // Start with warning phase (0.5s before)
       isActive: false,
       warning: false,
-      fireBlocks: []
+      fireBlocks: [],
+      enabled: trap.enabled ?? true,
+      startsEnabled: trap.enabled ?? true,
+      bombable: Boolean(trap.bombable)
     })
   );
 
@@ -181,11 +297,62 @@ export function buildGameStateFromLevel(levelData: LevelData, currentLevel: numb
       restTime: trap.restTime * 60,       // Convert seconds to frames
       timer: trap.restTime * 60 - 30,     // Start with warning phase (0.5s before)
       isActive: false,
-      warning: false
+      warning: false,
+      enabled: trap.enabled ?? true,
+      startsEnabled: trap.enabled ?? true,
+      bombable: Boolean(trap.bombable)
+    })
+  );
+
+  state.triggers = (levelData.triggers ?? []).map(
+    (trigger): TriggerState => ({
+      x: trigger.x,
+      y: trigger.y,
+      kind: trigger.kind,
+      links: trigger.links.map((link) => ({ x: link.x, y: link.y })),
+      duration: (trigger.duration ?? DEFAULT_BUTTON_DURATION) * 60,
+      timer: 0,
+      active: false
+    })
+  );
+
+  state.movingPlatforms = (levelData.movingPlatforms ?? []).map(
+    (platform): MovingPlatformState => {
+      const waypoints = [platform, ...platform.path].map((cell) => ({
+        x: cell.x * TILE_SIZE,
+        y: cell.y * TILE_SIZE
+      }));
+      const linked = linkedCells.has(`${platform.x},${platform.y}`);
+      return {
+        ...waypoints[0],
+        width: TILE_SIZE,
+        height: MOVING_PLATFORM_HEIGHT,
+        origin: { x: platform.x, y: platform.y },
+        waypoints,
+        target: waypoints.length > 1 ? 1 : 0,
+        step: 1,
+        speed: platform.speed ?? DEFAULT_PLATFORM_SPEED,
+        linked,
+        powered: !linked
+      };
+    }
+  );
+
+  state.crumblingPlatforms = (levelData.crumblingPlatforms ?? []).map(
+    (platform): CrumblingPlatformState => ({
+      x: platform.x,
+      y: platform.y,
+      delay: (platform.delay ?? DEFAULT_CRUMBLE_DELAY) * 60,
+      respawn: (platform.respawn ?? DEFAULT_CRUMBLE_RESPAWN) * 60,
+      timer: 0,
+      phase: "solid"
     })
   );
 
-  state.startTime = Date.now();
+  state.checkpoints = (levelData.checkpoints ?? []).map(
+    (checkpoint): CheckpointState => ({ x: checkpoint.x, y: checkpoint.y, reached: false })
+  );
+
   return state;
 }
 
@@ -232,174 +399,268 @@ export function resolveCollision(player: PlayerState, box: {
   }
 }
 
+// One-way boxes only catch a body that was above their top edge before this step's fall
+export function resolveOneWayCollision(player: PlayerState, box: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}): void {
+  const previousBottom = player.y + player.height - player.velocityY;
+  if (player.velocityY >= 0 && previousBottom <= box.y) {
+    player.y = box.y - player.height;
+    player.velocityY = 0;
+    player.onGround = true;
+  }
+}
+
 export function updateBullets(
   bullets: BulletState[],
   grid: number[][],
   monsters: MonsterState[],
   doors: DoorState[],
   firetraps: import("../types").FireTrapState[],
-  spiketraps: import("../types").SpikeTrapState[]
+  spiketraps: import("../types").SpikeTrapState[],
+  bosses: BossState[] = []
 ): {
   bullets: BulletState[];
   monsters: MonsterState[];
+  bosses: BossState[];
+  explosions: GridPosition[];
 } {
   const nextBullets: BulletState[] = [];
   const nextMonsters = monsters.map((monster) => ({ ...monster }));
+  const nextBosses = bosses.map((boss) => ({ ...boss }));
+  const explosions: GridPosition[] = [];
 
-  bullets.forEach((bullet) => {
-    const nextBullet = { ...bullet, x: bullet.x + bullet.velocityX };
+  const hurtBoss = (boss: BossState, damage: number) => {
+    boss.health -= damage;
+    boss.hurtTimer = BOSS_HURT_FLASH;
+  };
 
-    let hitMonster = false;
-    nextMonsters.forEach((monster) => {
-      if (monster.health > 0 && checkCollision(nextBullet, monster)) {
-        monster.health -= 1;
-        hitMonster = true;
-      }
-    });
+  // Everything other than monsters and bosses that stops a shot
+  const hitsObstacle = (bullet: BulletState): boolean => {
+    const gridX = Math.floor(bullet.x / TILE_SIZE);
+    const gridY = Math.floor(bullet.y / TILE_SIZE);
 
-    if (hitMonster) {
-      return;
+    // Off the map
+    if (gridY < 0 || gridY >= grid.length || gridX < 0 || gridX >= grid[0].length) {
+      return true;
     }
 
-    const gridX = Math.floor(nextBullet.x / TILE_SIZE);
-    const gridY = Math.floor(nextBullet.y / TILE_SIZE);
+    // Solid tiles (one-way platforms and lava let it through)
+    if (isSolidTile(grid[gridY][gridX])) {
+      return true;
+    }
 
-    // Check if bullet is out of bounds or hits a solid block
-    const outOfBounds =
-      gridY < 0 ||
-      gridY >= grid.length ||
-      gridX < 0 ||
-      gridX >= grid[0].length;
+    const cellBox = (cell: GridPosition) => ({
+      x: cell.x * TILE_SIZE,
+      y: cell.y * TILE_SIZE,
+      width: TILE_SIZE,
+      height: TILE_SIZE
+    });
 
-    if (outOfBounds) {
-      return; // Bullet is off the map
-    }
+    // Closed doors and trap blocks
+    return (
+      doors.some((door) => !door.open && checkCollision(bullet, cellBox(door))) ||
+      firetraps.some((trap) => checkCollision(bullet, cellBox(trap))) ||
+      spiketraps.some((trap) => checkCollision(bullet, cellBox(trap)))
+    );
+  };
 
-    // Check if bullet hits any solid tile (Wall, Stone, Platform, or decorative blocks)
-    const tile = grid[gridY][gridX];
-    const hitSolidBlock =
-      tile === TileType.Wall ||
-      tile === TileType.Stone ||
-      tile === TileType.Platform ||
-      tile === TileType.GrassStone ||
-      tile === TileType.Grass ||
-      tile === TileType.Soil;
-
-    if (hitSolidBlock) {
-      return; // Bullet hit a solid block
-    }
+  // Grenades go off like a placed bomb (the game loop turns these cells into bombs)
+  const explode = (bullet: BulletState) => {
+    explosions.push({
+      x: Math.floor((bullet.x + bullet.width / 2) / TILE_SIZE),
+      y: Math.floor((bullet.y + bullet.height / 2) / TILE_SIZE)
+    });
+  };
 
-    // Check if bullet hits a closed door
-    let hitClosedDoor = false;
-    doors.forEach((door) => {
-      if (!door.open) {
-        const doorBox = {
-          x: door.x * TILE_SIZE,
-          y: door.y * TILE_SIZE,
-          width: TILE_SIZE,
-          height: TILE_SIZE
-        };
-        if (checkCollision(nextBullet, doorBox)) {
-          hitClosedDoor = true;
+  bullets.forEach((bullet) => {
+    const velocityY = bullet.kind === "grenade" ? Math.min(12, bullet.velocityY + GRAVITY) : bullet.velocityY;
+    const nextBullet = { ...bullet, x: bullet.x + bullet.velocityX, y: bullet.y + velocityY, velocityY };
+
+    // Piercing shots hurt each monster once, as they enter it, and keep going
+    if (bullet.kind === "piercing") {
+      nextMonsters.forEach((monster) => {
+        if (monster.health > 0 && checkCollision(nextBullet, monster) && !checkCollision(bullet, monster)) {
+          monster.health -= 1;
         }
+      });
+      nextBosses.forEach((boss) => {
+        if (boss.health > 0 && checkCollision(nextBullet, boss) && !checkCollision(bullet, boss)) {
+          hurtBoss(boss, 1);
+        }
+      });
+      if (!hitsObstacle(nextBullet)) {
+        nextBullets.push(nextBullet);
       }
-    });
-
-    if (hitClosedDoor) {
-      return; // Bullet hit a closed door
+      return;
     }
 
-    // Check if bullet hits a fire trap block
-    let hitFireTrap = false;
-    firetraps.forEach((trap) => {
-      const trapBox = {
-        x: trap.x * TILE_SIZE,
-        y: trap.y * TILE_SIZE,
-        width: TILE_SIZE,
-        height: TILE_SIZE
-      };
-      if (checkCollision(nextBullet, trapBox)) {
-        hitFireTrap = true;
+    const hitMonsters = nextMonsters.filter((monster) => monster.health > 0 && checkCollision(nextBullet, monster));
+    const hitBoss = nextBosses.find((boss) => boss.health > 0 && checkCollision(nextBullet, boss));
+
+    if (bullet.kind === "grenade") {
+      if (hitMonsters.length > 0 || hitBoss || hitsObstacle(nextBullet)) {
+        explode(nextBullet);
+      } else {
+        nextBullets.push(nextBullet);
       }
-    });
+      return;
+    }
 
-    if (hitFireTrap) {
-      return; // Bullet hit a fire trap
+    if (hitMonsters.length > 0) {
+      hitMonsters.forEach((monster) => {
+        monster.health -= 1;
+      });
+      return;
     }
 
-    // Check if bullet hits a spike trap block
-    let hitSpikeTrap = false;
-    spiketraps.forEach((trap) => {
-      const trapBox = {
-        x: trap.x * TILE_SIZE,
-        y: trap.y * TILE_SIZE,
-        width: TILE_SIZE,
-        height: TILE_SIZE
-      };
-      if (checkCollision(nextBullet, trapBox)) {
-        hitSpikeTrap = true;
-      }
-    });
+    if (hitBoss) {
+      hurtBoss(hitBoss, 1);
+      return;
+    }
 
     // Only keep bullet if it didn't hit anything
-    if (!hitSpikeTrap) {
+    if (!hitsObstacle(nextBullet)) {
       nextBullets.push(nextBullet);
     }
   });
 
   return {
     bullets: nextBullets,
-    monsters: nextMonsters.filter((monster) => monster.health > 0)
+    monsters: nextMonsters.filter((monster) => monster.health > 0),
+    bosses: nextBosses.filter((boss) => boss.health > 0),
+    explosions
   };
 }
 
-export function updatePlacedBombs(placedBombs: PlacedBomb[], grid: number[][]): {
+// Whether a grid cell lies within a blast (blasts cover a square, like the tiles they clear)
+export function isCellInBlast(blast: { x: number; y: number; radius: number }, cell: GridPosition): boolean {
+  return Math.abs(cell.x - blast.x) <= blast.radius && Math.abs(cell.y - blast.y) <= blast.radius;
+}
+
+// Same for a pixel box, going by the cell its centre is in
+export function isBoxInBlast(
+  blast: { x: number; y: number; radius: number },
+  box: { x: number; y: number; width: number; height: number }
+): boolean {
+  return isCellInBlast(blast, {
+    x: Math.floor((box.x + box.width / 2) / TILE_SIZE),
+    y: Math.floor((box.y + box.height / 2) / TILE_SIZE)
+  });
+}
+
+/**
+ * Count down bomb fuses. A bomb that goes off clears breakable tiles within `radius` and sets off
+ * every other bomb caught in its blast on the same tick. The blasts are returned so the game loop
+ * can apply them to monsters, the player, doors and traps.
+ */
+export function updatePlacedBombs(placedBombs: PlacedBomb[], grid: number[][], radius = BOMB_BLAST_RADIUS): {
   bombs: PlacedBomb[];
   grid: number[][];
   exploded: boolean;
+  blasts: BlastState[];
 } {
   const nextGrid = grid.map((row) => [...row]);
-  const activeBombs: PlacedBomb[] = [];
-  let exploded = false;
-
-  placedBombs.forEach((bomb) => {
-    const nextTimer = bomb.timer - 1;
-    if (nextTimer <= 0) {
-      exploded = true;
-      for (let dy = -BOMB_BLAST_RADIUS; dy <= BOMB_BLAST_RADIUS; dy++) {
-        for (let dx = -BOMB_BLAST_RADIUS; dx <= BOMB_BLAST_RADIUS; dx++) {
-          const x = bomb.x + dx;
-          const y = bomb.y + dy;
-          if (
-            y >= 0 &&
-            y < nextGrid.length &&
-            x >= 0 &&
-            x < nextGrid[0].length &&
-            nextGrid[y][x] === TileType.Stone
-          ) {
-            nextGrid[y][x] = TileType.Empty;
-          }
+  const ticking = placedBombs.map((bomb) => ({ ...bomb, timer: bomb.timer - 1 }));
+  const detonating = ticking.filter((bomb) => bomb.timer <= 0);
+  let activeBombs = ticking.filter((bomb) => bomb.timer > 0);
+  const blasts: BlastState[] = [];
+
+  while (detonating.length > 0) {
+    const bomb = detonating.shift() as PlacedBomb;
+    const blast: BlastState = { x: bomb.x, y: bomb.y, radius, timer: BLAST_FRAMES };
+    blasts.push(blast);
+
+    for (let y = bomb.y - radius; y <= bomb.y + radius; y++) {
+      for (let x = bomb.x - radius; x <= bomb.x + radius; x++) {
+        if (y >= 0 && y < nextGrid.length && x >= 0 && x < nextGrid[0].length && isBreakableTile(nextGrid[y][x])) {
+          nextGrid[y][x] = EMPTY_TILE;
         }
       }
-    } else {
-      activeBombs.push({ ...bomb, timer: nextTimer });
     }
-  });
+
+    // Chain reaction
+    const caught = activeBombs.filter((other) => isCellInBlast(blast, other));
+    activeBombs = activeBombs.filter((other) => !caught.includes(other));
+    detonating.push(...caught);
+  }
 
   return {
     bombs: activeBombs,
     grid: nextGrid,
-    exploded
+    exploded: blasts.length > 0,
+    blasts
+  };
+}
+
+// The shots one pull of the trigger fires with the given weapon
+export function createPlayerBullets(player: PlayerState, kind: WeaponKind): BulletState[] {
+  const direction = player.facingRight ? 1 : -1;
+  const x = player.x + (player.facingRight ? 30 : 0);
+  const y = player.y + 15;
+
+  switch (kind) {
+    case "spread":
+      return [-SPREAD_SHOT_DRIFT, 0, SPREAD_SHOT_DRIFT].map((velocityY) => ({
+        x,
+        y,
+        velocityX: BULLET_SPEED * direction,
+        velocityY,
+        kind,
+        width: 6,
+        height: 6
+      }));
+    case "piercing":
+      return [{ x, y, velocityX: BULLET_SPEED * 1.5 * direction, velocityY: 0, kind, width: 14, height: 3 }];
+    case "grenade":
+      return [{ x, y: y - 5, velocityX: GRENADE_THROW_SPEED * direction, velocityY: GRENADE_LIFT, kind, width: 10, height: 10 }];
+    default:
+      return [{ x, y, velocityX: BULLET_SPEED * direction, velocityY: 0, kind, width: 8, height: 4 }];
+  }
+}
+
+// 0-based phase: the health bar is split into `phases` equal segments
+export function getBossPhase(boss: BossState): number {
+  const lost = boss.maxHealth - boss.health;
+  return Math.min(boss.phases - 1, Math.floor((lost * boss.phases) / boss.maxHealth));
+}
+
+// Chaser minion standing on the floor beside a boss, roaming the boss's arena
+export function createMinion(boss: BossState, side: 1 | -1): MonsterState {
+  const x = side === 1 ? boss.x + boss.width + 5 : boss.x - 35;
+  const arenaLeft = boss.arena[0] * TILE_SIZE + 5;
+  const arenaRight = (boss.arena[1] + 1) * TILE_SIZE - 35;
+  return {
+    x: Math.max(arenaLeft, Math.min(arenaRight, x)),
+    y: boss.y + boss.height - 35,
+    kind: "chaser",
+    patrol: [boss.arena[0], boss.arena[1]],
+    direction: side,
+    speed: DEFAULT_MONSTER_SPEED,
+    width: 30,
+    height: 30,
+    health: 1,
+    velocityY: 0,
+    timer: 0,
+    alert: false
   };
 }
 
-export function createPlayerBullet(player: PlayerState): BulletState {
+// Turret shot from the monster's centre towards a point (usually the player's centre)
+export function createTurretProjectile(monster: MonsterState, targetX: number, targetY: number): ProjectileState {
+  const startX = monster.x + monster.width / 2;
+  const startY = monster.y + monster.height / 2;
+  const distance = Math.hypot(targetX - startX, targetY - startY) || 1;
   return {
-    x: player.x + (player.facingRight ? 30 : 0),
-    y: player.y + 15,
-    velocityX: player.facingRight ? BULLET_SPEED : -BULLET_SPEED,
+    x: startX - 4,
+    y: startY - 4,
+    velocityX: ((targetX - startX) / distance) * PROJECTILE_SPEED,
+    velocityY: ((targetY - startY) / distance) * PROJECTILE_SPEED,
     width: 8,
-    height: 4
+    height: 8
   };
 }
 
@@ -424,7 +685,37 @@ export function jump(player: PlayerState): void {
   player.velocityY = JUMP_POWER;
 }
 
+// Falling onto the top of a box rather than walking into its side
+export function isStomp(player: PlayerState, target: { y: number }): boolean {
+  const previousBottom = player.y + player.height - player.velocityY;
+  return player.velocityY > 0 && previousBottom <= target.y + STOMP_TOLERANCE;
+}
+
+// Throw the player up and away from whatever hurt them
+export function applyKnockback(player: PlayerState, source: { x: number; width: number }): void {
+  const away = player.x + player.width / 2 < source.x + source.width / 2 ? -1 : 1;
+  player.velocityX = KNOCKBACK_SPEED * away;
+  player.velocityY = Math.min(player.velocityY, KNOCKBACK_LIFT);
+  player.knockbackTimer = KNOCKBACK_FRAMES;
+}
+
+// Area hit by a melee swing, just in front of the player
+export function getMeleeBox(player: PlayerState): { x: number; y: number; width: number; height: number } {
+  return {
+    x: player.facingRight ? player.x + player.width : player.x - MELEE_RANGE,
+    y: player.y - 4,
+    width: MELEE_RANGE,
+    height: player.height + 8
+  };
+}
+
 export function movePlayerHorizontal(player: PlayerState, direction: -1 | 0 | 1): void {
+  // Being knocked back takes control away until it wears off
+  if (player.knockbackTimer) {
+    player.knockbackTimer -= 1;
+    player.velocityX *= 0.9;
+    return;
+  }
   if (direction === 0) {
     player.velocityX *= 0.85;
     return;
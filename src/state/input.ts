@@ -0,0 +1,222 @@
+import { MOVE_LEFT_KEY, MOVE_RIGHT_KEY, type KeyMap, type PlayerAction } from "./gameLoop";
+
+// Everything the player can bind: held movement plus the discrete actions
+export type MoveControl = "moveLeft" | "moveRight";
+export type InputControl = MoveControl | PlayerAction;
+
+// Keyboard keys per control (a primary and an optional alternate)
+export type KeyBindings = Record<InputControl, string[]>;
+
+export const MAX_KEYS_PER_CONTROL = 2;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  moveLeft: ["ArrowLeft", "a"],
+  moveRight: ["ArrowRight", "d"],
+  jump: [" "],
+  fire: ["f"],
+  melee: ["v"],
+  switchWeapon: ["q"],
+  bomb: ["b"],
+  openDoor: ["k"]
+};
+
+// Always pause the game and can't be bound to anything else
+export const PAUSE_KEYS = ["Escape", "p"];
+
+// Stick travel ignored around the centre, so a worn stick doesn't drift the player
+export const GAMEPAD_DEADZONE = 0.3;
+
+// Standard gamepad mapping (Xbox layout names): A jump, X shoot, B melee, Y switch weapon,
+// bumpers/triggers for doors and bombs, d-pad or left stick to move, Start to pause
+const GAMEPAD_ACTION_BUTTONS: Record<PlayerAction, number[]> = {
+  jump: [0],
+  fire: [2],
+  melee: [1],
+  switchWeapon: [3],
+  openDoor: [4, 6],
+  bomb: [5, 7]
+};
+const GAMEPAD_PAUSE_BUTTON = 9;
+const GAMEPAD_DPAD_LEFT = 14;
+const GAMEPAD_DPAD_RIGHT = 15;
+
+// The parts of the browser's Gamepad this reads, so it can be fed anything shaped like one
+export interface GamepadSnapshot {
+  axes: readonly number[];
+  buttons: readonly { pressed: boolean }[];
+}
+
+/**
+ * Input from every source merged into one place. Held movement is tracked per source
+ * so letting go of a touch button doesn't cancel a key still held down (and vice versa).
+ */
+export interface InputState {
+  keys: KeyMap;                          // Physical keyboard keys held (normalised)
+  touch: Record<MoveControl, boolean>;
+  gamepad: Record<MoveControl, boolean>;
+  gamepadButtons: boolean[];             // Buttons held at the last poll, to spot new presses
+  actions: PlayerAction[];               // Queued for the next simulation tick
+}
+
+export function createInputState(): InputState {
+  return {
+    keys: {},
+    touch: { moveLeft: false, moveRight: false },
+    gamepad: { moveLeft: false, moveRight: false },
+    gamepadButtons: [],
+    actions: []
+  };
+}
+
+// Letters are bound case-insensitively so Shift or Caps Lock don't change what a key does
+export function normalizeBindingKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function isPauseKey(key: string): boolean {
+  return PAUSE_KEYS.includes(normalizeBindingKey(key));
+}
+
+function isMoveControl(control: InputControl): control is MoveControl {
+  return control === "moveLeft" || control === "moveRight";
+}
+
+export function getControlForKey(key: string, bindings: KeyBindings): InputControl | null {
+  const normalized = normalizeBindingKey(key);
+  const controls = Object.keys(bindings) as InputControl[];
+  return controls.find((control) => bindings[control].includes(normalized)) ?? null;
+}
+
+/**
+ * Bind `key` to a control's `slot` (0 primary, 1 alternate). If another control already
+ * used the key, that control gets this slot's old key in its place (or loses it if there was none).
+ */
+export function rebindKey(bindings: KeyBindings, control: InputControl, slot: number, key: string): KeyBindings {
+  const normalized = normalizeBindingKey(key);
+  const replaced = bindings[control][slot];
+  const next = { ...bindings };
+
+  (Object.keys(next) as InputControl[]).forEach((other) => {
+    if (other === control || !next[other].includes(normalized)) return;
+    next[other] = replaced
+      ? next[other].map((bound) => (bound === normalized ? replaced : bound))
+      : next[other].filter((bound) => bound !== normalized);
+  });
+
+  const keys = [...bindings[control]];
+  const existing = keys.indexOf(normalized);
+  if (existing < 0) {
+    keys[Math.min(slot, keys.length)] = normalized;
+  } else if (slot < keys.length) {
+    // Already bound to this control: swap its two slots
+    keys[existing] = keys[slot];
+    keys[slot] = normalized;
+  }
+  next[control] = keys.slice(0, MAX_KEYS_PER_CONTROL);
+  return next;
+}
+
+// How a bound key is shown to the player
+export function formatKeyLabel(key: string): string {
+  if (key === " ") return "SPACE";
+  if (key.startsWith("Arrow")) return key.slice(5).toUpperCase();
+  return key.toUpperCase();
+}
+
+// All of a control's keys, e.g. "LEFT / A"
+export function formatBindingLabel(keys: string[]): string {
+  return keys.length > 0 ? keys.map(formatKeyLabel).join(" / ") : "—";
+}
+
+// Keyboard key went down. Returns the control it maps to (null for unbound keys)
+export function pressKey(input: InputState, key: string, bindings: KeyBindings): InputControl | null {
+  const normalized = normalizeBindingKey(key);
+  input.keys[normalized] = true;
+
+  const control = getControlForKey(normalized, bindings);
+  if (control && !isMoveControl(control)) {
+    input.actions.push(control);
+  }
+  return control;
+}
+
+export function releaseKey(input: InputState, key: string): void {
+  input.keys[normalizeBindingKey(key)] = false;
+}
+
+// On-screen buttons: movement is held until released, actions fire once per press
+export function pressControl(input: InputState, control: InputControl): void {
+  if (isMoveControl(control)) {
+    input.touch[control] = true;
+  } else {
+    input.actions.push(control);
+  }
+}
+
+export function releaseControl(input: InputState, control: InputControl): void {
+  if (isMoveControl(control)) {
+    input.touch[control] = false;
+  }
+}
+
+// Stick position to a direction, ignoring anything inside the deadzone
+export function readStickDirection(x: number, deadzone: number = GAMEPAD_DEADZONE): -1 | 0 | 1 {
+  if (Math.abs(x) < deadzone) return 0;
+  return x < 0 ? -1 : 1;
+}
+
+/**
+ * Read a gamepad once per frame: update held movement and queue actions for buttons
+ * pressed since the last poll. Returns whether Start was just pressed.
+ */
+export function pollGamepad(input: InputState, pad: GamepadSnapshot | null): { pausePressed: boolean } {
+  if (!pad) {
+    input.gamepad = { moveLeft: false, moveRight: false };
+    input.gamepadButtons = [];
+    return { pausePressed: false };
+  }
+
+  const held = pad.buttons.map((button) => button.pressed);
+  const justPressed = (index: number) => held[index] === true && input.gamepadButtons[index] !== true;
+
+  const stick = readStickDirection(pad.axes[0] ?? 0);
+  input.gamepad = {
+    moveLeft: stick < 0 || held[GAMEPAD_DPAD_LEFT] === true,
+    moveRight: stick > 0 || held[GAMEPAD_DPAD_RIGHT] === true
+  };
+
+  (Object.keys(GAMEPAD_ACTION_BUTTONS) as PlayerAction[]).forEach((action) => {
+    if (GAMEPAD_ACTION_BUTTONS[action].some(justPressed)) {
+      input.actions.push(action);
+    }
+  });
+
+  const pausePressed = justPressed(GAMEPAD_PAUSE_BUTTON);
+  input.gamepadButtons = held;
+  return { pausePressed };
+}
+
+// Held movement from every source, as the keys the simulation reads
+export function getMovementKeys(input: InputState, bindings: KeyBindings): KeyMap {
+  const held = (control: MoveControl) =>
+    input.touch[control] || input.gamepad[control] || bindings[control].some((key) => input.keys[key]);
+
+  return {
+    [MOVE_LEFT_KEY]: held("moveLeft"),
+    [MOVE_RIGHT_KEY]: held("moveRight")
+  };
+}
+
+// Actions queued since the last call, in the order they were pressed
+export function takeInputActions(input: InputState): PlayerAction[] {
+  const actions = input.actions;
+  input.actions = [];
+  return actions;
+}
+
+// Forget everything held or queued (pausing, leaving test mode)
+export function clearInput(input: InputState): void {
+  input.keys = {};
+  input.touch = { moveLeft: false, moveRight: false };
+  input.actions = [];
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createReplayRecorder, finishReplay, parseReplay, recordReplayTick, verifyReplay } from "./replay";
+import { scriptToInput, simulateLevel } from "./simulator";
+import { EMPTY_TILE, TILE_IDS } from "../tileset";
+import type { LevelData } from "../types";
+
+const WIDTH = 12;
+const HEIGHT = 6;
+
+function makeLevel(): LevelData {
+  const grid = Array.from({ length: HEIGHT }, (_, y) =>
+    Array.from({ length: WIDTH }, (_, x) =>
+      y === HEIGHT - 1 || x === 0 || x === WIDTH - 1 ? TILE_IDS.wall : EMPTY_TILE
+    )
+  );
+
+  return {
+    name: "Replay",
+    gridWidth: WIDTH,
+    gridHeight: HEIGHT,
+    grid,
+    monsters: [],
+    weapons: [],
+    bombs: [],
+    keys: [],
+    doors: [],
+    playerStart: { x: 2, y: HEIGHT - 2 },
+    goal: { x: 9, y: HEIGHT - 2 },
+    background: "none"
+  };
+}
+
+// Play the level with a scripted walk to the goal, recording it like the game does
+function recordRun(level: LevelData) {
+  const recorder = createReplayRecorder();
+  const readScript = scriptToInput([{ keys: ["ArrowRight"], actions: ["jump"] }, { keys: ["ArrowRight"], ticks: 300 }]);
+  const result = simulateLevel(level, (tick) => {
+    const input = readScript(tick);
+    recordReplayTick(recorder, tick, input);
+    return input;
+  }, { maxTicks: 300 });
+  return { result, replay: finishReplay(recorder, "level-1", 1, result.state) };
+}
+
+describe("verifyReplay", () => {
+  it("accepts a recorded run and times it from the simulation", () => {
+    const level = makeLevel();
+    const { result, replay } = recordRun(level);
+
+    expect(result.outcome).toBe("complete");
+    expect(verifyReplay(level, replay)).toEqual({ valid: true, time: result.state.time });
+  });
+
+  it("rejects a run whose input doesn't reach the goal", () => {
+    const level = makeLevel();
+    const { replay } = recordRun(level);
+    const verification = verifyReplay(level, { ...replay, frames: replay.frames.slice(0, 1), finalTick: 20 });
+
+    expect(verification.valid).toBe(false);
+  });
+});
+
+describe("parseReplay", () => {
+  it("round-trips a replay through JSON", () => {
+    const { replay } = recordRun(makeLevel());
+    expect(parseReplay(JSON.parse(JSON.stringify(replay)))).toEqual(replay);
+  });
+
+  it("rejects unknown actions and out-of-order frames", () => {
+    const base = { version: 1, levelId: "level-1", levelNumber: 1, finalTick: 10 };
+
+    expect(parseReplay({ ...base, frames: [{ tick: 0, keys: [], actions: ["teleport"] }] })).toBeNull();
+    expect(parseReplay({
+      ...base,
+      frames: [{ tick: 5, keys: ["ArrowRight"], actions: [] }, { tick: 5, keys: [], actions: [] }]
+    })).toBeNull();
+    expect(parseReplay({ ...base, levelId: 7, frames: [] })).toBeNull();
+    expect(parseReplay(null)).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import { buildGameStateFromLevel } from "./gameState";
+import { simulate } from "./simulator";
+import { TICKS_PER_SECOND, type KeyMap, type PlayerAction, type TickInput } from "./gameLoop";
+import type { GameState, LevelData } from "../types";
+import { logWarning } from "../utils/logger";
+
+export const REPLAY_VERSION = 1;
+
+// Safety net for verification: no legitimate run is longer than this
+const MAX_REPLAY_TICKS = TICKS_PER_SECOND * 60 * 30;
+
+const PLAYER_ACTIONS: PlayerAction[] = ["jump", "fire", "melee", "switchWeapon", "bomb", "openDoor"];
+
+/**
+ * Input for one tick. Frames are only stored when the held keys change
+ * or an action happens; keys stay held until the next frame.
+ */
+export interface ReplayFrame {
+  tick: number;
+  keys: string[];
+  actions: PlayerAction[];
+}
+
+export interface Replay {
+  version: number;
+  levelId: string;
+  levelNumber: number;
+  finalTick: number;   // Tick on which the goal was reached
+  frames: ReplayFrame[];
+}
+
+export interface ReplayRecorder {
+  frames: ReplayFrame[];
+}
+
+export interface ReplayVerification {
+  valid: boolean;
+  time: number;        // Seconds, derived from the simulation rather than the client clock
+  reason?: string;
+}
+
+export function createReplayRecorder(): ReplayRecorder {
+  return { frames: [] };
+}
+
+function heldKeys(keys: KeyMap): string[] {
+  return Object.keys(keys)
+    .filter((key) => keys[key])
+    .sort();
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, index) => key === b[index]);
+}
+
+/**
+ * Record the input used for `tick`. Recording the same tick again replaces it,
+ * so re-running a tick (e.g. React StrictMode double-invoking a state updater) is harmless.
+ */
+export function recordReplayTick(recorder: ReplayRecorder, tick: number, input: TickInput): void {
+  while (recorder.frames.length && recorder.frames[recorder.frames.length - 1].tick >= tick) {
+    recorder.frames.pop();
+  }
+
+  const keys = heldKeys(input.keys);
+  const lastFrame = recorder.frames[recorder.frames.length - 1];
+  const keysChanged = lastFrame ? !sameKeys(lastFrame.keys, keys) : keys.length > 0;
+
+  if (keysChanged || input.actions.length > 0) {
+    recorder.frames.push({ tick, keys, actions: [...input.actions] });
+  }
+}
+
+export function finishReplay(
+  recorder: ReplayRecorder,
+  levelId: string,
+  levelNumber: number,
+  finalState: GameState
+): Replay {
+  return {
+    version: REPLAY_VERSION,
+    levelId,
+    levelNumber,
+    finalTick: finalState.tick,
+    frames: recorder.frames.map((frame) => ({ ...frame, keys: [...frame.keys], actions: [...frame.actions] }))
+  };
+}
+
+/**
+ * Input for `tick` during playback. Pure: looks up the last frame at or before the tick.
+ */
+export function getReplayInput(replay: Replay, tick: number): TickInput {
+  let low = 0;
+  let high = replay.frames.length - 1;
+  let index = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (replay.frames[mid].tick <= tick) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  if (index === -1) {
+    return { keys: {}, actions: [] };
+  }
+
+  const frame = replay.frames[index];
+  const keys: KeyMap = {};
+  frame.keys.forEach((key) => {
+    keys[key] = true;
+  });
+
+  return {
+    keys,
+    actions: frame.tick === tick ? frame.actions : []
+  };
+}
+
+/**
+ * Re-simulate a replay from a fresh level and check it actually reaches the goal.
+ * Has no browser dependencies, so the same code can verify leaderboard submissions server-side.
+ */
+export function verifyReplay(levelData: LevelData, replay: Replay): ReplayVerification {
+  if (replay.version !== REPLAY_VERSION) {
+    return { valid: false, time: 0, reason: `Unsupported replay version ${replay.version}` };
+  }
+  if (replay.finalTick > MAX_REPLAY_TICKS) {
+    return { valid: false, time: 0, reason: "Replay is too long" };
+  }
+
+  const state = buildGameStateFromLevel(levelData, replay.levelNumber);
+  if (!state.grid.length) {
+    return { valid: false, time: 0, reason: "Level has no grid" };
+  }
+
+  const result = simulate(state, (tick) => getReplayInput(replay, tick), {
+    maxTicks: replay.finalTick + 1
+  });
+
+  switch (result.outcome) {
+    case "complete":
+      return { valid: true, time: result.state.time };
+    case "died":
+      return { valid: false, time: result.state.time, reason: "Player died during replay" };
+    default:
+      return { valid: false, time: result.state.time, reason: "Replay ended before reaching the goal" };
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function isPlayerAction(value: unknown): value is PlayerAction {
+  return PLAYER_ACTIONS.some((action) => action === value);
+}
+
+function isReplayFrame(value: unknown): value is ReplayFrame {
+  return (
+    isRecord(value) &&
+    typeof value.tick === "number" &&
+    Array.isArray(value.keys) &&
+    value.keys.every((key) => typeof key === "string") &&
+    Array.isArray(value.actions) &&
+    value.actions.every(isPlayerAction)
+  );
+}
+
+/**
+ * Validate replay JSON loaded from the database
+ * Returns null (and logs) if the data is malformed
+ */
+export function parseReplay(data: unknown): Replay | null {
+  if (!isRecord(data)) {
+    return null;
+  }
+
+  const { version, levelId, levelNumber, finalTick, frames } = data;
+  if (
+    typeof version !== "number" ||
+    typeof levelId !== "string" ||
+    typeof levelNumber !== "number" ||
+    typeof finalTick !== "number" ||
+    !Array.isArray(frames) ||
+    !frames.every(isReplayFrame) ||
+    frames.some((frame, index) => index > 0 && frame.tick <= frames[index - 1].tick)
+  ) {
+    logWarning("Ignoring malformed replay data");
+    return null;
+  }
+
+  return { version, levelId, levelNumber, finalTick, frames };
+}
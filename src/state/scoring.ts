@@ -0,0 +1,40 @@
+import type { GameState, ScoreBreakdown, StarThresholds } from "../types";
+
+export const POINTS_PER_COIN = 100;
+export const POINTS_PER_KILL = 50;
+export const POINTS_PER_HEART = 200;
+export const DEATH_PENALTY = 250;
+
+// Finishing straight away earns the full time bonus; it drains by TIME_BONUS_DECAY per second
+export const MAX_TIME_BONUS = 3000;
+export const TIME_BONUS_DECAY = 10;
+
+// Used by levels whose designer hasn't set their own star scores
+export const DEFAULT_STAR_THRESHOLDS: StarThresholds = [1000, 3000, 4500];
+export const MAX_STARS = 3;
+
+/**
+ * Score a finished run from the state it ended in. Every part is a whole number of points
+ * and the total never drops below zero, however many deaths it took.
+ */
+export function calculateScore(state: GameState): ScoreBreakdown {
+  const coins = state.coins * POINTS_PER_COIN;
+  const monsters = state.monstersKilled * POINTS_PER_KILL;
+  const health = Math.max(0, state.health) * POINTS_PER_HEART;
+  const time = Math.max(0, MAX_TIME_BONUS - state.time * TIME_BONUS_DECAY);
+  const deaths = state.deaths > 0 ? -state.deaths * DEATH_PENALTY : 0;
+
+  return {
+    coins,
+    monsters,
+    health,
+    time,
+    deaths,
+    total: Math.max(0, coins + monsters + health + time + deaths)
+  };
+}
+
+// Stars earned for a score: one for each threshold it reaches
+export function getStarRating(total: number, thresholds: StarThresholds = DEFAULT_STAR_THRESHOLDS): number {
+  return thresholds.filter((threshold) => total >= threshold).length;
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import { simulate, simulateLevel, type ScriptStep } from "./simulator";
+import { buildGameStateFromLevel } from "./gameState";
+import { EMPTY_TILE, TILE_IDS } from "../tileset";
+import { TILE_SIZE, type LevelData } from "../types";
+
+const WIDTH = 20;
+const HEIGHT = 8;
+const FLOOR_Y = HEIGHT - 1;
+const STAND_Y = FLOOR_Y - 1;
+
+// Walled box with a solid floor; the player starts on the left and the goal sits out of reach up top
+function makeLevel(overrides: Partial<LevelData> = {}): LevelData {
+  const grid = Array.from({ length: HEIGHT }, (_, y) =>
+    Array.from({ length: WIDTH }, (_, x) =>
+      y === FLOOR_Y || x === 0 || x === WIDTH - 1 ? TILE_IDS.wall : EMPTY_TILE
+    )
+  );
+
+  return {
+    name: "Test",
+    gridWidth: WIDTH,
+    gridHeight: HEIGHT,
+    grid,
+    monsters: [],
+    weapons: [],
+    bombs: [],
+    keys: [],
+    doors: [],
+    playerStart: { x: 2, y: STAND_Y },
+    goal: { x: WIDTH - 2, y: 1 },
+    background: "none",
+    ...overrides
+  };
+}
+
+const wait = (ticks: number): ScriptStep => ({ ticks });
+const right = (ticks: number): ScriptStep => ({ keys: ["ArrowRight"], ticks });
+const left = (ticks: number): ScriptStep => ({ keys: ["ArrowLeft"], ticks });
+
+describe("collision", () => {
+  it("lands the player on the floor", () => {
+    const level = makeLevel({ playerStart: { x: 5, y: 1 } });
+    const result = simulateLevel(level, [wait(120)], { maxTicks: 120 });
+
+    expect(result.outcome).toBe("timeout");
+    expect(result.state.player.onGround).toBe(true);
+    expect(result.state.player.y + result.state.player.height).toBeCloseTo(FLOOR_Y * TILE_SIZE, 0);
+  });
+
+  it("stops the player at a wall", () => {
+    const level = makeLevel();
+    level.grid[STAND_Y][6] = TILE_IDS.wall;
+    const result = simulateLevel(level, [right(200)], { maxTicks: 200 });
+
+    expect(result.state.player.x + result.state.player.width).toBeLessThanOrEqual(6 * TILE_SIZE);
+    expect(result.state.player.x).toBeGreaterThan(4 * TILE_SIZE);
+  });
+});
+
+describe("bullets", () => {
+  it("kills a monster after enough hits and removes spent bullets", () => {
+    const level = makeLevel({
+      weapons: [{ x: 2, y: STAND_Y }],
+      monsters: [{ x: 8, y: STAND_Y, kind: "turret", patrol: [8, 8], health: 2 }]
+    });
+    const script: ScriptStep[] = [
+      wait(2),
+      { actions: ["fire"] },
+      wait(40),
+      { actions: ["fire"] },
+      wait(60)
+    ];
+    const result = simulateLevel(level, script, {
+      maxTicks: 104,
+      // Keep the turret's own shots out of it: only the player's bullets matter here
+      stopWhen: (state) => state.monsters.length === 0 && state.bullets.length === 0
+    });
+
+    expect(result.state.monsters).toHaveLength(0);
+    expect(result.state.monstersKilled).toBe(1);
+    expect(result.state.bullets).toHaveLength(0);
+  });
+
+  it("can't fire without a weapon", () => {
+    const result = simulateLevel(makeLevel(), [wait(2), { actions: ["fire"] }, wait(2)], { maxTicks: 5 });
+    const fired = result.eventLog.some((entry) => entry.events.includes("shotFired"));
+
+    expect(fired).toBe(false);
+    expect(result.state.bullets).toHaveLength(0);
+  });
+});
+
+describe("bombs", () => {
+  it("blows up stone near the bomb once the fuse runs out", () => {
+    const level = makeLevel({ bombs: [{ x: 2, y: STAND_Y }] });
+    level.grid[STAND_Y][4] = TILE_IDS.stone;
+    // Drop the bomb next to the stone, then walk clear of the blast
+    const script: ScriptStep[] = [right(20), { actions: ["bomb"] }, left(60), wait(120)];
+    const result = simulateLevel(level, script, { maxTicks: 200 });
+
+    const exploded = result.eventLog.some((entry) => entry.events.includes("bombExploded"));
+    expect(exploded).toBe(true);
+    expect(result.state.grid[STAND_Y][4]).toBe(EMPTY_TILE);
+    expect(result.state.bombCount).toBe(2);   // A pickup is worth three
+  });
+
+  it("does nothing without a bomb in hand", () => {
+    const result = simulateLevel(makeLevel(), [wait(2), { actions: ["bomb"] }, wait(5)], { maxTicks: 8 });
+    expect(result.state.placedBombs).toHaveLength(0);
+  });
+});
+
+describe("trap timers", () => {
+  it("cycles spikes between rest and active phases", () => {
+    // Out of the player's way, so only the timer is under test
+    const level = makeLevel({ spiketraps: [{ x: 15, y: FLOOR_Y, activeTime: 1, restTime: 2 }] });
+    const state = buildGameStateFromLevel(level, 1);
+    const trap = state.spiketraps[0];
+    const firstActive = trap.timer;
+
+    const phases: boolean[] = [];
+    simulate(state, () => ({ keys: {}, actions: [] }), {
+      maxTicks: firstActive + 60 + 120 + 1,
+      stopWhen: (next) => {
+        phases.push(next.spiketraps[0].isActive);
+        return false;
+      }
+    });
+
+    expect(phases[firstActive - 2]).toBe(false);
+    expect(phases[firstActive - 1]).toBe(true);           // Rest ends: spikes out for 1s
+    expect(phases[firstActive + 59]).toBe(false);         // Then back to a 2s rest
+    expect(phases[firstActive + 60 + 119]).toBe(true);
+  });
+});
+
+describe("damage cooldown", () => {
+  it("only hurts once per second while standing on spikes", () => {
+    const level = makeLevel({ spiketraps: [{ x: 2, y: FLOOR_Y, activeTime: 10, restTime: 1 }] });
+    const start = buildGameStateFromLevel(level, 1);
+    // Spikes come out half a second in; a second and a half later only one more hit may land
+    const result = simulate(start, () => ({ keys: {}, actions: [] }), { maxTicks: 30 + 50 });
+
+    expect(result.state.health).toBe(start.health - 1);
+    expect(result.state.damageTimer).toBeGreaterThan(0);
+  });
+});
+
+describe("door keys", () => {
+  const doorLevel = (withKey: boolean) =>
+    makeLevel({
+      keys: withKey ? [{ x: 3, y: STAND_Y }] : [],
+      doors: [{ x: 5, y: STAND_Y }],
+      goal: { x: 8, y: STAND_Y }
+    });
+  const script: ScriptStep[] = [right(25), { actions: ["openDoor"] }, right(120)];
+
+  it("keeps a locked door shut without a key", () => {
+    const result = simulateLevel(doorLevel(false), script, { maxTicks: 150 });
+
+    expect(result.outcome).toBe("timeout");
+    expect(result.state.doors[0].open).toBe(false);
+  });
+
+  it("spends a key to open the door", () => {
+    const result = simulateLevel(doorLevel(true), script, { maxTicks: 150 });
+
+    expect(result.state.doors[0].open).toBe(true);
+    expect(result.state.keys.gold).toBe(0);
+    expect(result.outcome).toBe("complete");
+  });
+});
+
+describe("handleGoal", () => {
+  it("completes the level when the player reaches the goal", () => {
+    const level = makeLevel({ goal: { x: 6, y: STAND_Y } });
+    const result = simulateLevel(level, [right(200)], { maxTicks: 200 });
+
+    expect(result.outcome).toBe("complete");
+    expect(result.eventLog[result.eventLog.length - 1].events).toContain("levelComplete");
+  });
+
+  it("keeps the goal locked while a boss is alive", () => {
+    const level = makeLevel({
+      goal: { x: 6, y: STAND_Y },
+      bosses: [{ x: 15, y: STAND_Y - 1, arena: [14, 17] }]
+    });
+    const result = simulateLevel(level, [right(120)], { maxTicks: 120 });
+
+    expect(result.outcome).not.toBe("complete");
+  });
+});
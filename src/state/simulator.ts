@@ -0,0 +1,110 @@
+import { buildGameStateFromLevel } from "./gameState";
+import { updateGameFrame, type GameUpdateEvents, type KeyMap, type PlayerAction, type TickInput } from "./gameLoop";
+import type { GameState, LevelData } from "../types";
+
+// Headless level runner: drives updateGameFrame without a canvas, clock or React,
+// so levels can be played from scripts (replay verification, tests, tooling)
+
+export type SimulationOutcome = "complete" | "died" | "timeout";
+
+// One scripted segment: hold `keys` for `ticks` ticks, firing `actions` on the first one
+export interface ScriptStep {
+  keys?: string[];
+  actions?: PlayerAction[];
+  ticks?: number;      // Default 1
+}
+
+export interface SimulationEvent {
+  tick: number;        // Tick the events were raised on
+  events: (keyof GameUpdateEvents)[];
+}
+
+export interface SimulationResult {
+  outcome: SimulationOutcome;
+  state: GameState;
+  ticks: number;       // Ticks simulated
+  eventLog: SimulationEvent[];
+}
+
+export interface SimulationOptions {
+  levelNumber?: number;
+  maxTicks?: number;
+  // Called after every tick; return true to stop early (outcome stays "timeout")
+  stopWhen?: (state: GameState, events: GameUpdateEvents) => boolean;
+}
+
+const DEFAULT_MAX_TICKS = 60 * 60 * 5; // 5 minutes of game time
+
+/**
+ * Turn a list of script steps into a per-tick input function.
+ * Ticks past the end of the script have no keys held.
+ */
+export function scriptToInput(script: ScriptStep[]): (tick: number) => TickInput {
+  const inputs: TickInput[] = [];
+
+  script.forEach((step) => {
+    const keys: KeyMap = {};
+    (step.keys ?? []).forEach((key) => {
+      keys[key] = true;
+    });
+
+    const ticks = Math.max(1, step.ticks ?? 1);
+    for (let i = 0; i < ticks; i++) {
+      inputs.push({ keys, actions: i === 0 ? step.actions ?? [] : [] });
+    }
+  });
+
+  return (tick) => inputs[tick] ?? { keys: {}, actions: [] };
+}
+
+/**
+ * Run a state tick by tick until the goal is reached, the player dies or `maxTicks` pass.
+ * `readInput` receives the number of ticks simulated so far (0 on the first call).
+ */
+export function simulate(
+  initialState: GameState,
+  readInput: (tick: number) => TickInput,
+  options: SimulationOptions = {}
+): SimulationResult {
+  const maxTicks = options.maxTicks ?? DEFAULT_MAX_TICKS;
+  const eventLog: SimulationEvent[] = [];
+  let state = initialState;
+
+  for (let tick = 0; tick < maxTicks; tick++) {
+    const input = readInput(tick);
+    const result = updateGameFrame(state, input.keys, input.actions);
+    state = result.state;
+
+    const raised = (Object.keys(result.events) as (keyof GameUpdateEvents)[]).filter(
+      (key) => result.events[key]
+    );
+    if (raised.length) {
+      eventLog.push({ tick, events: raised });
+    }
+
+    if (result.events.levelComplete) {
+      return { outcome: "complete", state, ticks: tick + 1, eventLog };
+    }
+    if (result.events.playerDied) {
+      return { outcome: "died", state, ticks: tick + 1, eventLog };
+    }
+    if (options.stopWhen?.(state, result.events)) {
+      return { outcome: "timeout", state, ticks: tick + 1, eventLog };
+    }
+  }
+
+  return { outcome: "timeout", state, ticks: maxTicks, eventLog };
+}
+
+/**
+ * Load a level fresh and play it with scripted input.
+ */
+export function simulateLevel(
+  levelData: LevelData,
+  input: ScriptStep[] | ((tick: number) => TickInput),
+  options: SimulationOptions = {}
+): SimulationResult {
+  const state = buildGameStateFromLevel(levelData, options.levelNumber ?? 1);
+  const readInput = Array.isArray(input) ? scriptToInput(input) : input;
+  return simulate(state, readInput, options);
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { checkLevelSolvability } from "./solvability";
+import { simulateLevel } from "./simulator";
+import { EMPTY_TILE, TILE_IDS } from "../tileset";
+import type { LevelData } from "../types";
+
+const WIDTH = 20;
+const HEIGHT = 8;
+const FLOOR_Y = HEIGHT - 1;
+const STAND_Y = FLOOR_Y - 1;
+
+// Flat floor with a lava pit `gap` tiles wide starting at column 6
+function makeGapLevel(gap: number): LevelData {
+  const grid = Array.from({ length: HEIGHT }, (_, y) =>
+    Array.from({ length: WIDTH }, (_, x) => {
+      if (y === FLOOR_Y && x >= 6 && x < 6 + gap) return TILE_IDS.lava;
+      return y === FLOOR_Y || x === 0 || x === WIDTH - 1 ? TILE_IDS.wall : EMPTY_TILE;
+    })
+  );
+
+  return {
+    name: "Gap",
+    gridWidth: WIDTH,
+    gridHeight: HEIGHT,
+    grid,
+    monsters: [],
+    weapons: [],
+    bombs: [],
+    keys: [],
+    doors: [],
+    playerStart: { x: 2, y: STAND_Y },
+    goal: { x: 16, y: STAND_Y },
+    background: "none"
+  };
+}
+
+describe("checkLevelSolvability", () => {
+  it("finds running jumps that take off from the edge of a ledge", () => {
+    const level = makeGapLevel(4);
+    // Run at the pit and jump off the last pixel of the ledge
+    const cleared = simulateLevel(level, [
+      { keys: ["ArrowRight"], ticks: 37 },
+      { keys: ["ArrowRight"], actions: ["jump"] },
+      { keys: ["ArrowRight"], ticks: 200 }
+    ], { maxTicks: 300 });
+
+    expect(cleared.outcome).toBe("complete");
+    expect(cleared.eventLog.some((entry) => entry.events.includes("tookDamage"))).toBe(false);
+    expect(checkLevelSolvability(level).solvable).toBe(true);
+  });
+
+  it("reports a pit too wide to jump", () => {
+    const result = checkLevelSolvability(makeGapLevel(8));
+
+    expect(result.solvable).toBe(false);
+    expect(result.blockers.some((cell) => cell.y === FLOOR_Y && cell.x === 6)).toBe(true);
+  });
+});
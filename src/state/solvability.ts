@@ -0,0 +1,501 @@
+import {
+  applyGravity,
+  checkCollision,
+  createEmptyKeyInventory,
+  jump,
+  movePlayerHorizontal,
+  resolveCollision,
+  resolveOneWayCollision
+} from "./gameState";
+import { getTileBehavior, isBreakableTile, isHazardTile, isOneWayTile } from "./tileBehavior";
+import { DEFAULT_KEY_CHANNEL } from "../constants";
+import { EMPTY_TILE } from "../tileset";
+import { BOMB_BLAST_RADIUS, MOVE_SPEED, TILE_SIZE } from "../types";
+import type { GridPosition, LevelData, PlayerState } from "../types";
+
+/**
+ * Reachability analysis used by the editor before publishing.
+ *
+ * Jump and fall arcs are stepped with the same physics helpers as the game
+ * (JUMP_POWER, GRAVITY, MOVE_SPEED), so "reachable" means the real player can get there.
+ * Running jumps take off from the very edge of a ledge: the player reaches full speed at once,
+ * so a run-up only matters for where the jump starts.
+ * Keys (matched to doors by color), doors and bombs are resolved greedily: each round opens the door or blasts the
+ * stone that grows the reachable area the most, until the goal is reached or nothing helps.
+ * Blasts use the level's bomb radius and also clear doors and traps marked bombable.
+ * Switch-linked doors open for free once one of their triggers can be reached.
+ * Monsters, bosses and trap timing are ignored - a level can still be hard, just not impossible.
+ * Hazard tiles are treated as walls the player can't stand on, so no route ever goes through lava.
+ */
+
+export interface SolvabilityResult {
+  solvable: boolean;
+  reason?: string;
+  reachable: GridPosition[];   // Cells the player can touch
+  blockers: GridPosition[];    // Closed doors, stone and lava bordering the reachable area
+}
+
+interface Region {
+  standing: Set<number>;       // Cells the player can stand in (cell index y * width + x)
+  touched: Set<number>;        // Every cell the player's box overlapped on the way
+}
+
+// Hold a direction for this many ticks after jumping, then let go (Infinity = hold the whole arc)
+const JUMP_HOLD_TICKS = [6, 12, 18, 24, 36, Infinity];
+// Jump straight up and only start drifting after this many ticks (stepping onto a ledge above)
+const JUMP_DRIFT_DELAY_TICKS = 14;
+const MAX_ARC_TICKS = 180;
+// Jump from where the player stands, or run that way and jump on the last tick there's ground underfoot
+type TakeOff = "none" | "standing" | { runUp: -1 | 1 };
+const MAX_ROUNDS = 50;
+
+interface Terrain {
+  width: number;
+  height: number;
+  grid: number[][];
+  blocked: boolean[][];        // Solid, breakable and hazard tiles plus doors and solid objects
+}
+
+function createTerrain(grid: number[][], closedDoors: GridPosition[], solidObjects: GridPosition[]): Terrain {
+  const terrain: Terrain = {
+    width: grid[0]?.length ?? 0,
+    height: grid.length,
+    grid,
+    blocked: grid.map((row) =>
+      row.map((tile) => getTileBehavior(tile) !== "passable" && !isOneWayTile(tile))
+    )
+  };
+  [...closedDoors, ...solidObjects].forEach(({ x, y }) => {
+    if (inBounds(terrain, x, y)) terrain.blocked[y][x] = true;
+  });
+  return terrain;
+}
+
+function inBounds(terrain: Terrain, x: number, y: number): boolean {
+  return x >= 0 && x < terrain.width && y >= 0 && y < terrain.height;
+}
+
+// Outside the grid counts as solid, matching the invisible boundary walls in the game loop
+function isBlocked(terrain: Terrain, x: number, y: number): boolean {
+  return !inBounds(terrain, x, y) || terrain.blocked[y][x];
+}
+
+function isStandable(terrain: Terrain, x: number, y: number): boolean {
+  if (isBlocked(terrain, x, y)) return false;
+  if (y + 1 >= terrain.height) return true;
+  const below = terrain.grid[y + 1][x];
+  return (terrain.blocked[y + 1][x] || isOneWayTile(below)) && !isHazardTile(below);
+}
+
+function createArcPlayer(cellX: number, cellY: number): PlayerState {
+  return {
+    x: cellX * TILE_SIZE + 5,
+    y: (cellY + 1) * TILE_SIZE - 30,
+    width: 30,
+    height: 30,
+    velocityX: 0,
+    velocityY: 0,
+    onGround: true,
+    hasWeapon: false,
+    facingRight: true
+  };
+}
+
+function collideWithTerrain(terrain: Terrain, player: PlayerState): void {
+  player.onGround = false;
+  const gridX = Math.floor(player.x / TILE_SIZE);
+  const gridY = Math.floor(player.y / TILE_SIZE);
+
+  for (let dy = -1; dy <= 2; dy++) {
+    for (let dx = -1; dx <= 2; dx++) {
+      const x = gridX + dx;
+      const y = gridY + dy;
+      const box = { x: x * TILE_SIZE, y: y * TILE_SIZE, width: TILE_SIZE, height: TILE_SIZE };
+      if (!checkCollision(player, box)) continue;
+      if (isBlocked(terrain, x, y)) {
+        resolveCollision(player, box);
+      } else if (isOneWayTile(terrain.grid[y][x])) {
+        resolveOneWayCollision(player, box);
+      }
+    }
+  }
+}
+
+function markTouched(terrain: Terrain, player: PlayerState, touched: Set<number>): void {
+  const left = Math.floor(player.x / TILE_SIZE);
+  const right = Math.floor((player.x + player.width - 1) / TILE_SIZE);
+  const top = Math.floor(player.y / TILE_SIZE);
+  const bottom = Math.floor((player.y + player.height - 1) / TILE_SIZE);
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (inBounds(terrain, x, y)) touched.add(y * terrain.width + x);
+    }
+  }
+}
+
+function stepPlayer(terrain: Terrain, player: PlayerState, direction: -1 | 0 | 1): void {
+  movePlayerHorizontal(player, direction);
+  applyGravity(player);
+  player.x += player.velocityX;
+  player.y += player.velocityY;
+  collideWithTerrain(terrain, player);
+}
+
+// Hazards are solid to the arc physics, so check the player is still held up by something safe
+function hasSafeFooting(terrain: Terrain, player: PlayerState): boolean {
+  const y = Math.floor((player.y + player.height) / TILE_SIZE);
+  const left = Math.floor(player.x / TILE_SIZE);
+  const right = Math.floor((player.x + player.width - 1) / TILE_SIZE);
+  for (let x = left; x <= right; x++) {
+    if (!inBounds(terrain, x, y)) return true;
+    const tile = terrain.grid[y][x];
+    if ((terrain.blocked[y][x] || isOneWayTile(tile)) && !isHazardTile(tile)) return true;
+  }
+  return false;
+}
+
+// Walk toward the edge and stop on the last tick the player still has safe ground underfoot
+// (or once it has fully crossed into the next cell, where the floor carries on)
+function runToEdge(terrain: Terrain, player: PlayerState, cellX: number, direction: -1 | 1, touched: Set<number>): void {
+  const pastCell = () =>
+    direction > 0 ? player.x >= (cellX + 1) * TILE_SIZE : player.x + player.width <= cellX * TILE_SIZE;
+
+  // A wall can stop the walk short, so give up after two cells' worth of walking
+  for (let tick = 0; tick < TILE_SIZE * 2 / MOVE_SPEED && !pastCell(); tick++) {
+    const probe = { ...player };
+    stepPlayer(terrain, probe, direction);
+    if (!probe.onGround || !hasSafeFooting(terrain, probe)) return;
+    Object.assign(player, probe);
+    markTouched(terrain, player, touched);
+  }
+}
+
+/**
+ * Step one movement from a standing cell until the player lands again.
+ * `directionAt` counts ticks from the take-off (from the start when there's no jump).
+ * Returns the landing cell index, or null if the player ends up on lava or never lands.
+ */
+function runArc(
+  terrain: Terrain,
+  cellX: number,
+  cellY: number,
+  takeOff: TakeOff,
+  directionAt: (tick: number, player: PlayerState) => -1 | 0 | 1,
+  touched: Set<number>
+): number | null {
+  const player = createArcPlayer(cellX, cellY);
+  if (typeof takeOff === "object") {
+    runToEdge(terrain, player, cellX, takeOff.runUp, touched);
+  }
+  if (takeOff !== "none") jump(player);
+
+  let airborne = false;
+
+  for (let tick = 0; tick < MAX_ARC_TICKS; tick++) {
+    stepPlayer(terrain, player, directionAt(tick, player));
+    markTouched(terrain, player, touched);
+
+    // Stop on landing, or once a walk has slid to a halt
+    if (player.onGround && tick > 0 && (airborne || Math.abs(player.velocityX) < 0.5)) {
+      break;
+    }
+    airborne = airborne || !player.onGround;
+  }
+
+  if (!player.onGround) return null;
+
+  // The centre can hang over a gap while the box still rests on a ledge; try the feet too
+  const landY = Math.floor((player.y + player.height / 2) / TILE_SIZE);
+  const landX = [
+    player.x + player.width / 2,
+    player.x,
+    player.x + player.width - 1
+  ]
+    .map((x) => Math.floor(x / TILE_SIZE))
+    .find((x) => isStandable(terrain, x, landY));
+
+  return landX === undefined ? null : landY * terrain.width + landX;
+}
+
+function exploreRegion(terrain: Terrain, start: GridPosition): Region {
+  const standing = new Set<number>();
+  const touched = new Set<number>();
+  const queue: number[] = [];
+
+  // The start may be mid-air; drop to whatever is below it first
+  const startIndex = runArc(terrain, start.x, start.y, "none", () => 0, touched);
+  touched.add(start.y * terrain.width + start.x);
+  if (startIndex === null) {
+    return { standing, touched };
+  }
+  standing.add(startIndex);
+  queue.push(startIndex);
+
+  while (queue.length) {
+    const index = queue.shift()!;
+    const cellX = index % terrain.width;
+    const cellY = Math.floor(index / terrain.width);
+    const landings: (number | null)[] = [];
+
+    ([-1, 1] as const).forEach((direction) => {
+      const targetX = cellX + direction;
+      // Walk until the player's centre is over the next cell, then let go
+      landings.push(
+        runArc(terrain, cellX, cellY, "none", (_, player) =>
+          Math.floor((player.x + player.width / 2) / TILE_SIZE) === targetX ? 0 : direction,
+          touched
+        )
+      );
+
+      JUMP_HOLD_TICKS.forEach((holdTicks) => {
+        const hold = (tick: number) => (tick < holdTicks ? direction : 0);
+        landings.push(runArc(terrain, cellX, cellY, "standing", hold, touched));
+        landings.push(runArc(terrain, cellX, cellY, { runUp: direction }, hold, touched));
+      });
+
+      landings.push(
+        runArc(terrain, cellX, cellY, "standing", (tick) => (tick < JUMP_DRIFT_DELAY_TICKS ? 0 : direction), touched)
+      );
+    });
+
+    // Straight up: only matters for items or the goal directly overhead
+    runArc(terrain, cellX, cellY, "standing", () => 0, touched);
+
+    landings.forEach((landing) => {
+      if (landing !== null && !standing.has(landing)) {
+        standing.add(landing);
+        queue.push(landing);
+      }
+    });
+  }
+
+  return { standing, touched };
+}
+
+function toPositions(cells: Iterable<number>, width: number): GridPosition[] {
+  return Array.from(cells, (index) => ({ x: index % width, y: Math.floor(index / width) }));
+}
+
+function cellKey(position: GridPosition): string {
+  return `${position.x},${position.y}`;
+}
+
+// Doors and levers work when the player's centre is within 1.5 tiles of them (see isWithinReach)
+function canReachCell(touched: Set<number>, width: number, cell: GridPosition): boolean {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const x = cell.x + dx;
+      const y = cell.y + dy;
+      if (x >= 0 && x < width && touched.has(y * width + x)) return true;
+    }
+  }
+  return false;
+}
+
+// Clear stone around `center`, plus any bombable doors and traps (given as cell keys) in range
+function blastStone(
+  grid: number[][],
+  center: GridPosition,
+  radius: number,
+  bombable: Set<string>
+): { grid: number[][]; destroyed: string[] } | null {
+  let cleared = false;
+  const destroyed: string[] = [];
+  const next = grid.map((row) => [...row]);
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const x = center.x + dx;
+      const y = center.y + dy;
+      if (isBreakableTile(next[y]?.[x])) {
+        next[y][x] = EMPTY_TILE;
+        cleared = true;
+      }
+      if (bombable.has(`${x},${y}`)) {
+        destroyed.push(`${x},${y}`);
+      }
+    }
+  }
+  return cleared || destroyed.length ? { grid: next, destroyed } : null;
+}
+
+function bordersUnreachable(terrain: Terrain, touched: Set<number>, x: number, y: number): boolean {
+  return [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dy]) => {
+    const nx = x + dx;
+    const ny = y + dy;
+    return inBounds(terrain, nx, ny) && !terrain.blocked[ny][nx] && !touched.has(ny * terrain.width + nx);
+  });
+}
+
+function findBlockers(terrain: Terrain, touched: Set<number>, closedDoors: GridPosition[]): GridPosition[] {
+  const doorKeys = new Set(closedDoors.map(cellKey));
+  const blockers = new Map<string, GridPosition>();
+
+  touched.forEach((index) => {
+    const cellX = index % terrain.width;
+    const cellY = Math.floor(index / terrain.width);
+    [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dy]) => {
+      const x = cellX + dx;
+      const y = cellY + dy;
+      if (!inBounds(terrain, x, y)) return;
+      const tile = terrain.grid[y][x];
+      const key = `${x},${y}`;
+      if (doorKeys.has(key) || isBreakableTile(tile) || isHazardTile(tile)) {
+        blockers.set(key, { x, y });
+      } else if (terrain.blocked[y][x] && bordersUnreachable(terrain, touched, x, y)) {
+        // Plain walls only count when there is open space behind them the player never got to
+        blockers.set(key, { x, y });
+      }
+    });
+  });
+
+  return Array.from(blockers.values());
+}
+
+/**
+ * Check whether `playerStart` can reach `goal` in the given level.
+ */
+export function checkLevelSolvability(level: LevelData): SolvabilityResult {
+  if (!level.playerStart) {
+    return { solvable: false, reason: "No player start set", reachable: [], blockers: [] };
+  }
+  if (!level.goal) {
+    return { solvable: false, reason: "No goal set", reachable: [], blockers: [] };
+  }
+
+  const start = level.playerStart;
+  const goal = level.goal;
+  // Trap blocks and platforms. A moving platform counts as solid at every stop on its route
+  // (it waits for nobody, but the player can always catch it there).
+  const solidObjects = [
+    ...(level.firetraps ?? []),
+    ...(level.spiketraps ?? []),
+    ...(level.crumblingPlatforms ?? []),
+    ...(level.movingPlatforms ?? []).flatMap((platform) => [platform, ...platform.path])
+  ];
+  const doors = level.doors ?? [];
+  const bombRadius = level.bombRadius ?? BOMB_BLAST_RADIUS;
+  const destroyedObjects = new Set<string>();
+  const bombable = new Set(
+    [...doors, ...(level.firetraps ?? []), ...(level.spiketraps ?? [])].filter((item) => item.bombable).map(cellKey)
+  );
+  const items = [
+    ...(level.keys ?? []).map((key) => ({
+      position: key,
+      type: "key" as const,
+      channel: key.channel ?? DEFAULT_KEY_CHANNEL
+    })),
+    ...(level.bombs ?? []).map((position) => ({ position, type: "bomb" as const, channel: DEFAULT_KEY_CHANNEL }))
+  ];
+
+  let grid = level.grid.map((row) => [...row]);
+  const openedDoors = new Set(doors.filter((door) => door.open).map(cellKey));
+  const collected = new Set<string>();
+  const keys = createEmptyKeyInventory();
+  let bombs = 0;
+
+  const closedDoors = () => doors.filter((door) => !openedDoors.has(cellKey(door)));
+
+  // Switch-linked doors take no key; they count as open once one of their triggers is in reach
+  const triggers = level.triggers ?? [];
+  const linkedDoors = new Set(triggers.flatMap((trigger) => trigger.links.map(cellKey)));
+  const canSwitchOpen = (door: GridPosition) =>
+    triggers.some(
+      (trigger) =>
+        trigger.links.some((link) => cellKey(link) === cellKey(door)) &&
+        canReachCell(region.touched, terrain.width, trigger)
+    );
+  const explore = (nextGrid: number[][], doorsClosed: GridPosition[], destroyed = destroyedObjects) => {
+    const standing = solidObjects.filter((object) => !destroyed.has(cellKey(object)));
+    const terrain = createTerrain(nextGrid, doorsClosed, standing);
+    return { terrain, region: exploreRegion(terrain, start) };
+  };
+
+  let { terrain, region } = explore(grid, closedDoors());
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    if (region.touched.has(goal.y * terrain.width + goal.x)) {
+      return { solvable: true, reachable: toPositions(region.touched, terrain.width), blockers: [] };
+    }
+
+    items.forEach(({ position, type, channel }) => {
+      const key = `${type}:${cellKey(position)}`;
+      if (!collected.has(key) && region.touched.has(position.y * terrain.width + position.x)) {
+        collected.add(key);
+        if (type === "key") keys[channel] += 1;
+        else bombs += 3;
+      }
+    });
+
+    const switchable = closedDoors().filter((door) => linkedDoors.has(cellKey(door)) && canSwitchOpen(door));
+    if (switchable.length) {
+      switchable.forEach((door) => openedDoors.add(cellKey(door)));
+      ({ terrain, region } = explore(grid, closedDoors()));
+      continue;
+    }
+
+    // Try every door we could open and every useful bomb spot; keep whichever reaches furthest
+    let best: { size: number; apply: () => void; terrain: Terrain; region: Region } | null = null;
+    const consider = (size: number, apply: () => void, nextTerrain: Terrain, nextRegion: Region) => {
+      if (size > region.touched.size && (!best || size > best.size)) {
+        best = { size, apply, terrain: nextTerrain, region: nextRegion };
+      }
+    };
+
+    // A door needs a key of its own color
+    closedDoors()
+      .filter((door) => !linkedDoors.has(cellKey(door)) && keys[door.channel ?? DEFAULT_KEY_CHANNEL] > 0)
+      .filter((door) => canReachCell(region.touched, terrain.width, door))
+      .forEach((door) => {
+        const remaining = closedDoors().filter((other) => other !== door);
+        const next = explore(grid, remaining);
+        consider(next.region.touched.size, () => {
+          openedDoors.add(cellKey(door));
+          keys[door.channel ?? DEFAULT_KEY_CHANNEL] -= 1;
+        }, next.terrain, next.region);
+      });
+
+    if (bombs > 0) {
+      const tried = new Set<string>();
+      region.touched.forEach((index) => {
+        const center = { x: index % terrain.width, y: Math.floor(index / terrain.width) };
+        const blasted = blastStone(grid, center, bombRadius, bombable);
+        if (!blasted) return;
+        const newlyDestroyed = blasted.destroyed.filter((key) => !destroyedObjects.has(key));
+        if (newlyDestroyed.length === 0 && grid.every((row, y) => row.every((tile, x) => tile === blasted.grid[y][x]))) {
+          return;
+        }
+
+        // Spots that clear exactly the same stones and objects give the same result
+        const signature = `${blasted.grid.map((row) => row.join("")).join("|")}#${newlyDestroyed.sort().join(";")}`;
+        if (tried.has(signature)) return;
+        tried.add(signature);
+
+        const destroyed = new Set([...destroyedObjects, ...newlyDestroyed]);
+        const remaining = closedDoors().filter((door) => !destroyed.has(cellKey(door)));
+        const next = explore(blasted.grid, remaining, destroyed);
+        consider(next.region.touched.size, () => {
+          grid = blasted.grid;
+          newlyDestroyed.forEach((key) => {
+            destroyedObjects.add(key);
+            openedDoors.add(key);
+          });
+          bombs -= 1;
+        }, next.terrain, next.region);
+      });
+    }
+
+    if (!best) break;
+    const chosen: { apply: () => void; terrain: Terrain; region: Region } = best;
+    chosen.apply();
+    terrain = chosen.terrain;
+    region = chosen.region;
+  }
+
+  return {
+    solvable: false,
+    reason: "The goal can't be reached from the player start",
+    reachable: toPositions(region.touched, terrain.width),
+    blockers: findBlockers(terrain, region.touched, closedDoors())
+  };
+}
@@ -0,0 +1,26 @@
+import { getTileDefinition, type TileBehavior } from "../tileset";
+
+// Tile semantics are declared per tile in the tileset manifest
+
+// Empty space and unknown tile ids (e.g. from a newer level format) are passable
+export function getTileBehavior(tile: number): TileBehavior {
+  return getTileDefinition(tile)?.behavior ?? "passable";
+}
+
+// Blocks from every side (breakable tiles included until they are blasted)
+export function isSolidTile(tile: number): boolean {
+  const behavior = getTileBehavior(tile);
+  return behavior === "solid" || behavior === "breakable";
+}
+
+export function isOneWayTile(tile: number): boolean {
+  return getTileBehavior(tile) === "oneWay";
+}
+
+export function isHazardTile(tile: number): boolean {
+  return getTileBehavior(tile) === "hazard";
+}
+
+export function isBreakableTile(tile: number): boolean {
+  return getTileBehavior(tile) === "breakable";
+}
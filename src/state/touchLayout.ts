@@ -0,0 +1,72 @@
+import type { InputControl } from "./input";
+import type { TouchButtonId, TouchLayout } from "../types";
+
+export const MIN_TOUCH_BUTTON_SIZE = 44;
+export const MAX_TOUCH_BUTTON_SIZE = 140;
+
+// Thumb-reachable spots for a phone held in landscape: movement bottom left, actions bottom right
+export const DEFAULT_TOUCH_LAYOUT: TouchLayout = {
+  movement: "buttons",
+  haptics: true,
+  buttons: {
+    left: { x: 0.08, y: 0.8, size: 65 },
+    right: { x: 0.2, y: 0.8, size: 65 },
+    joystick: { x: 0.14, y: 0.74, size: 120 },
+    jump: { x: 0.91, y: 0.78, size: 70 },
+    fire: { x: 0.79, y: 0.84, size: 60 },
+    melee: { x: 0.67, y: 0.87, size: 50 },
+    switchWeapon: { x: 0.68, y: 0.66, size: 46 },
+    bomb: { x: 0.8, y: 0.6, size: 50 },
+    door: { x: 0.92, y: 0.52, size: 50 }
+  }
+};
+
+// What each button presses (the joystick presses moveLeft/moveRight depending on where it is pushed)
+export const TOUCH_BUTTON_CONTROLS: Record<Exclude<TouchButtonId, "joystick">, InputControl> = {
+  left: "moveLeft",
+  right: "moveRight",
+  jump: "jump",
+  fire: "fire",
+  melee: "melee",
+  switchWeapon: "switchWeapon",
+  bomb: "bomb",
+  door: "openDoor"
+};
+
+export function getVisibleTouchButtons(layout: TouchLayout): TouchButtonId[] {
+  const movement: TouchButtonId[] = layout.movement === "joystick" ? ["joystick"] : ["left", "right"];
+  return [...movement, "jump", "fire", "melee", "switchWeapon", "bomb", "door"];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Move a button's centre, keeping it on screen
+export function moveTouchButton(layout: TouchLayout, id: TouchButtonId, x: number, y: number): TouchLayout {
+  return {
+    ...layout,
+    buttons: {
+      ...layout.buttons,
+      [id]: { ...layout.buttons[id], x: clamp(x, 0, 1), y: clamp(y, 0, 1) }
+    }
+  };
+}
+
+export function resizeTouchButton(layout: TouchLayout, id: TouchButtonId, size: number): TouchLayout {
+  return {
+    ...layout,
+    buttons: {
+      ...layout.buttons,
+      [id]: { ...layout.buttons[id], size: Math.round(clamp(size, MIN_TOUCH_BUTTON_SIZE, MAX_TOUCH_BUTTON_SIZE)) }
+    }
+  };
+}
+
+/**
+ * Layouts are saved per device: a phone and a tablet sharing a browser profile want different ones.
+ * Screen size identifies the device, longest side first so rotating doesn't change it.
+ */
+export function getTouchLayoutDeviceKey(screenWidth: number, screenHeight: number): string {
+  return `${Math.max(screenWidth, screenHeight)}x${Math.min(screenWidth, screenHeight)}`;
+}
@@ -0,0 +1,119 @@
+/**
+ * What a tile does in the world. Player collision, monsters, bullets, bombs and the
+ * solvability check all go through this instead of listing tile types themselves.
+ *
+ * - passable: empty space and pure scenery - nothing collides with it
+ * - solid: blocks bodies and bullets from every side
+ * - breakable: solid until caught in a bomb blast
+ * - oneWay: bodies jump up through it and land on top; bullets and monsters pass through
+ * - hazard: nothing collides with it, but it hurts the player on contact
+ */
+export type TileBehavior = "passable" | "solid" | "breakable" | "oneWay" | "hazard";
+
+export interface TileDefinition {
+  id: number;             // Value stored in level grids - never renumber, saved levels depend on it
+  tool: string;           // Editor tool id, also the texture key
+  name: string;           // Palette label
+  icon: string;           // Palette icon
+  category: string;       // Palette section the tool is listed under
+  texture?: string;       // Image under /public
+  color: string;          // Fill used while the texture is missing or failed to load
+  behavior: TileBehavior;
+}
+
+/**
+ * Tileset manifest: every terrain tile the game knows about.
+ * The editor palette, texture loading, all three canvas renderers and tile physics
+ * read this list, so adding a tile is one entry here plus its image.
+ * Empty (EMPTY_TILE) is not listed - it is the editor's eraser and is always passable.
+ */
+export const TILESET = [
+  {
+    id: 1,
+    tool: "wall",
+    name: "Wall",
+    icon: "⬛",
+    category: "Terrain",
+    texture: "/Images/Wall.webp",
+    color: "#2d3748",
+    behavior: "solid"
+  },
+  {
+    id: 2,
+    tool: "stone",
+    name: "Stone",
+    icon: "🟦",
+    category: "Terrain",
+    texture: "/Images/Stone.webp",
+    color: "#4299e1",
+    behavior: "breakable"
+  },
+  {
+    id: 3,
+    tool: "lava",
+    name: "Lava",
+    icon: "🟥",
+    category: "Terrain",
+    texture: "/Images/Lava.png",
+    color: "#f56565",
+    behavior: "hazard"
+  },
+  {
+    id: 10,
+    tool: "platform",
+    name: "Platform",
+    icon: "🟫",
+    category: "Terrain",
+    texture: "/Images/Wood Platform.webp",
+    color: "#8B4513",
+    behavior: "oneWay"
+  },
+  {
+    id: 11,
+    tool: "grassstone",
+    name: "Grass+Stone",
+    icon: "🟩",
+    category: "Terrain",
+    texture: "/Images/Grass-Stone-Block.jpg",
+    color: "#228B22",
+    behavior: "solid"
+  },
+  {
+    id: 12,
+    tool: "grass",
+    name: "Grass",
+    icon: "🌱",
+    category: "Terrain",
+    texture: "/Images/Grass-Block.webp",
+    color: "#7CFC00",
+    behavior: "solid"
+  },
+  {
+    id: 13,
+    tool: "soil",
+    name: "Soil",
+    icon: "🟤",
+    category: "Terrain",
+    texture: "/Images/Soil.webp",
+    color: "#8B4513",
+    behavior: "solid"
+  }
+] as const satisfies readonly TileDefinition[];
+
+export type TileTool = (typeof TILESET)[number]["tool"];
+
+export const EMPTY_TILE = 0;
+
+// Grid value for each tile, by tool id - code that needs a specific tile looks it up here
+export const TILE_IDS = Object.fromEntries(TILESET.map((tile) => [tile.tool, tile.id])) as Record<TileTool, number>;
+
+const TILES_BY_ID = new Map<number, TileDefinition>(TILESET.map((tile) => [tile.id, tile]));
+const TILES_BY_TOOL = new Map<string, TileDefinition>(TILESET.map((tile) => [tile.tool, tile]));
+
+export function getTileDefinition(tile: number): TileDefinition | undefined {
+  return TILES_BY_ID.get(tile);
+}
+
+export function getTileDefinitionForTool(tool: string): TileDefinition | undefined {
+  return TILES_BY_TOOL.get(tool);
+}
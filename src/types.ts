@@ -1,58 +1,115 @@
+import type { TileTool } from "./tileset";
+
 export const TILE_SIZE = 40;
 export const GRAVITY = 0.5;
 export const JUMP_POWER = -9.1;
 export const MOVE_SPEED = 4;
 export const BULLET_SPEED = 8;
 export const BOMB_BLAST_RADIUS = 2;
+export const MIN_BOMB_RADIUS = 1;
+export const MAX_BOMB_RADIUS = 4;
 export const MAX_LEVELS = 10;
 export const MIN_GRID_WIDTH = 10;
 export const MAX_GRID_WIDTH = 30;
 export const MIN_GRID_HEIGHT = 10;
 export const MAX_GRID_HEIGHT = 20;
 
-export enum TileType {
-  Empty = 0,
-  Wall = 1,
-  Stone = 2,
-  Lava = 3,
-  Platform = 10,
-  GrassStone = 11,  // Decorative: Grass + Stone block
-  Grass = 12,       // Decorative: Grass only block
-  Soil = 13         // Decorative: Soil block
-}
-
 export type BackgroundKey = "none" | "bg1" | "bg2" | "bg3" | "bg4" | "bg5" | "bg6";
 
+// Terrain tools come from the tileset manifest; "empty" is the eraser
 export type Tool =
   | "empty"
-  | "wall"
-  | "stone"
-  | "lava"
-  | "platform"
-  | "grassstone"
-  | "grass"
-  | "soil"
+  | TileTool
   | "player"
   | "goal"
   | "key"
   | "door"
   | "monster"
+  | "chaser"
+  | "jumper"
+  | "flyer"
+  | "turret"
+  | "boss"
   | "weapon"
+  | "spreadgun"
+  | "piercer"
+  | "grenade"
   | "bomb"
   | "firetrap"
-  | "spiketrap";
+  | "spiketrap"
+  | "lever"
+  | "plate"
+  | "button"
+  | "movingplatform"
+  | "crumbleplatform"
+  | "checkpoint";
 
 export interface GridPosition {
   x: number;
   y: number;
 }
 
+export interface GridRect extends GridPosition {
+  width: number;
+  height: number;
+}
+
+// How the selected tool is applied on the editor canvas
+export type DrawMode = "brush" | "rect" | "rectOutline" | "line" | "fill" | "select" | "inspect";
+
+// Key/door colour. A key only opens doors of its own channel.
+// Levels saved before channels existed have none on either, which means "gold".
+export type KeyChannel = "gold" | "red" | "blue" | "green";
+
+export type KeyInventory = Record<KeyChannel, number>;
+
+export interface EditorKey extends GridPosition {
+  channel?: KeyChannel;
+}
+
+// pistol: one straight shot
+// spread: three shots fanning out
+// piercing: a shot that passes through monsters, hurting each one it crosses
+// grenade: lobbed in an arc and explodes like a bomb, also hurting monsters caught in the blast
+export type WeaponKind = "pistol" | "spread" | "piercing" | "grenade";
+
+export type AmmoInventory = Record<WeaponKind, number>;
+
+// Levels saved before weapon kinds existed have none, which means "pistol".
+// Picking up a weapon you already have just adds its ammo.
+export interface EditorWeapon extends GridPosition {
+  kind?: WeaponKind;
+}
+
+// patrol: walks back and forth between its patrol bounds
+// chaser: patrols until it sees the player nearby, then runs at them
+// jumper: patrols under gravity, hopping every so often
+// flyer: drifts through tiles, homing in on the player once they come close
+// turret: stays put and fires at the player whenever it has a clear shot
+export type MonsterKind = "patrol" | "chaser" | "jumper" | "flyer" | "turret";
+
 export interface EditorMonster extends GridPosition {
-  patrol: [number, number];
+  kind?: MonsterKind;     // Default "patrol" (all monsters before kinds existed)
+  patrol: [number, number];   // Ignored by turrets
+  speed?: number;         // Pixels per frame (default 1.5)
+  health?: number;        // Hits to kill (default 3)
+}
+
+// Boss attacks: charging across the arena, summoning chaser minions and setting off
+// the fire traps inside its arena. Each health phase adds the next one (see BOSS_PHASE_PATTERNS)
+export type BossPattern = "charge" | "summon" | "firetraps";
+
+// Two tiles wide and tall, standing on its cell. The goal stays locked until every boss is beaten
+export interface EditorBoss extends GridPosition {
+  arena: [number, number];   // Columns it roams between
+  health?: number;           // Hits to kill (default 30)
+  phases?: number;           // Health bar segments (default 3)
 }
 
 export interface EditorDoor extends GridPosition {
   open?: boolean;
+  channel?: KeyChannel;
+  bombable?: boolean;     // A bomb blast destroys it for good
 }
 
 export type FireTrapDirection = "up" | "down" | "left" | "right";
@@ -62,36 +119,78 @@ export interface EditorFireTrap extends GridPosition {
   sprayDistance: number;  // Number of blocks fire travels
   sprayTime: number;      // Seconds fire is active
   restTime: number;       // Seconds between sprays
+  enabled?: boolean;      // Default true; a powered trigger link flips it
+  bombable?: boolean;     // A bomb blast destroys the trap block
 }
 
 export interface EditorSpikeTrap extends GridPosition {
   activeTime: number;     // Seconds spikes are extended
   restTime: number;       // Seconds between activations
+  enabled?: boolean;      // Default true; a powered trigger link flips it
+  bombable?: boolean;     // A bomb blast destroys the trap block
+}
+
+// Rides from its own cell through each waypoint and back again, carrying whatever stands on it.
+// If a trigger links to its starting cell it only moves while that trigger is on.
+export interface EditorMovingPlatform extends GridPosition {
+  path: GridPosition[];   // Waypoints after the starting cell
+  speed?: number;         // Pixels per frame (default 1)
+}
+
+// Solid until stood on, then collapses and comes back a while later
+export interface EditorCrumblingPlatform extends GridPosition {
+  delay?: number;         // Seconds between first being stood on and collapsing (default 0.5)
+  respawn?: number;       // Seconds before it comes back (default 3)
+}
+
+// Lever: toggled with the use key. Plate: on while something stands on it.
+// Button: pressed by touching it, then springs back after `duration` seconds.
+export type TriggerKind = "lever" | "plate" | "button";
+
+// Every door or trap on a linked cell is flipped from its level-defined state
+// (closed doors open, enabled traps go quiet) while the trigger is on;
+// linked moving platforms only run while it is on
+export interface EditorTrigger extends GridPosition {
+  kind: TriggerKind;
+  links: GridPosition[];
+  duration?: number;      // Buttons only: seconds to stay pressed (default 3)
 }
 
+// Minimum scores for one, two and three stars, lowest first
+export type StarThresholds = [number, number, number];
+
 export interface LevelData {
   name: string;
   gridWidth: number;
   gridHeight: number;
   grid: number[][];
   monsters: EditorMonster[];
-  weapons: GridPosition[];
+  bosses?: EditorBoss[];
+  weapons: EditorWeapon[];
   bombs: GridPosition[];
   hearts?: GridPosition[];
   coins?: GridPosition[];
-  keys: GridPosition[];
+  keys: EditorKey[];
   doors: EditorDoor[];
   firetraps?: EditorFireTrap[];
   spiketraps?: EditorSpikeTrap[];
+  triggers?: EditorTrigger[];
+  movingPlatforms?: EditorMovingPlatform[];
+  crumblingPlatforms?: EditorCrumblingPlatform[];
+  checkpoints?: GridPosition[];
   playerStart: GridPosition | null;
   goal: GridPosition | null;
   background: BackgroundKey;
   theme?: string;
+  bombRadius?: number;    // Tiles a blast reaches in each direction (default BOMB_BLAST_RADIUS)
+  starThresholds?: StarThresholds;  // Scores needed for 1, 2 and 3 stars (default DEFAULT_STAR_THRESHOLDS)
 }
 
 export interface EditorState extends LevelData {
   currentLevel: number;
   selectedTool: Tool;
+  selectedChannel: KeyChannel;   // Channel given to newly placed keys and doors
+  drawMode: DrawMode;
   isDrawing: boolean;
 }
 
@@ -109,23 +208,51 @@ export interface PlayerState {
   invincibleTimer?: number;
   shaking?: boolean;
   shakeTimer?: number;
+  knockbackTimer?: number;  // Frames left being thrown back after a hit (movement keys are ignored)
+  meleeTimer?: number;      // Frames left in the current melee swing (no new swing until it ends)
 }
 
 export interface MonsterState {
   x: number;
   y: number;
+  kind: MonsterKind;
   patrol: [number, number];
   direction: 1 | -1;
   speed: number;
   width: number;
   height: number;
   health: number;
+  velocityY: number;    // Jumpers only
+  timer: number;        // Jumpers: frames until the next hop. Turrets: frames until the next shot
+  alert: boolean;       // Chasers and flyers: currently going after the player
+}
+
+// walk: closing in on the player until the next attack. windup: telegraphing a charge.
+// charge: dashing until it hits a wall or the arena edge. stunned: recovering after a charge
+export type BossAction = "walk" | "windup" | "charge" | "stunned";
+
+export interface BossState {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  arena: [number, number];   // Columns
+  health: number;
+  maxHealth: number;
+  phases: number;
+  direction: 1 | -1;
+  action: BossAction;
+  timer: number;        // Frames left in the current action (walk: until the next attack)
+  attackCount: number;  // Attacks made so far, used to rotate through the phase's patterns
+  hurtTimer: number;    // Frames of hit flash left
 }
 
 export interface CollectibleState {
   x: number;
   y: number;
   type: "key" | "weapon" | "bomb" | "heart" | "coin";
+  channel?: KeyChannel;   // Keys only
+  weapon?: WeaponKind;    // Weapons only
   collected: boolean;
   width: number;
   height: number;
@@ -135,12 +262,28 @@ export interface DoorState {
   x: number;
   y: number;
   open: boolean;
+  channel: KeyChannel;
+  linked: boolean;        // Driven by triggers - keys don't work on it
+  startsOpen: boolean;    // State while no linked trigger is on
+  bombable: boolean;
 }
 
 export interface BulletState {
   x: number;
   y: number;
   velocityX: number;
+  velocityY: number;      // Spread shots fan out; grenades fall under gravity
+  kind: WeaponKind;
+  width: number;
+  height: number;
+}
+
+// Shot fired by a turret; hurts the player and stops at solid tiles and closed doors
+export interface ProjectileState {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
   width: number;
   height: number;
 }
@@ -151,6 +294,14 @@ export interface PlacedBomb {
   timer: number;
 }
 
+// An explosion, kept around for a few frames so the renderers can draw it
+export interface BlastState {
+  x: number;            // Grid cell of the bomb
+  y: number;
+  radius: number;       // Tiles reached in each direction
+  timer: number;        // Frames left on screen
+}
+
 export interface FireTrapState {
   x: number;  // Grid x position
   y: number;  // Grid y position
@@ -162,6 +313,9 @@ export interface FireTrapState {
   isActive: boolean;    // Currently spraying
   warning: boolean;     // Warning glow active
   fireBlocks: GridPosition[];  // Current fire positions for collision
+  enabled: boolean;     // Disabled traps stay idle
+  startsEnabled: boolean;
+  bombable: boolean;
 }
 
 export interface SpikeTrapState {
@@ -172,13 +326,119 @@ export interface SpikeTrapState {
   timer: number;        // Current timer
   isActive: boolean;    // Spikes extended
   warning: boolean;     // Warning glow active
+  enabled: boolean;     // Disabled traps stay idle
+  startsEnabled: boolean;
+  bombable: boolean;
+}
+
+export interface MovingPlatformState {
+  x: number;            // Pixel position
+  y: number;
+  width: number;
+  height: number;
+  origin: GridPosition; // Starting cell (what triggers link to)
+  waypoints: GridPosition[];  // Pixel positions, starting cell first
+  target: number;       // Index of the waypoint being travelled to
+  step: 1 | -1;         // Direction along the waypoint list
+  speed: number;
+  linked: boolean;      // Driven by triggers
+  powered: boolean;     // Moving (always true when not linked)
+}
+
+export type CrumblePhase = "solid" | "crumbling" | "gone";
+
+export interface CrumblingPlatformState {
+  x: number;  // Grid x position
+  y: number;  // Grid y position
+  delay: number;        // In frames (60fps)
+  respawn: number;      // In frames (60fps)
+  timer: number;        // Frames left in the current phase
+  phase: CrumblePhase;
+}
+
+export interface CheckpointState {
+  x: number;  // Grid x position
+  y: number;  // Grid y position
+  reached: boolean;
+}
+
+// The world as it was when a checkpoint was reached; dying puts the player back here
+export interface CheckpointSnapshot {
+  position: GridPosition;
+  state: GameState;
+}
+
+export interface TriggerState {
+  x: number;  // Grid x position
+  y: number;  // Grid y position
+  kind: TriggerKind;
+  links: GridPosition[];
+  duration: number;     // Buttons: frames to stay pressed
+  timer: number;        // Buttons: frames left before springing back
+  active: boolean;
+}
+
+// A run through the published levels in order. Lives, score and upgrades carry from level to level
+export interface CampaignState {
+  levelId: string;        // Level being played, or the next one once a level is cleared
+  levelsCleared: number;
+  lives: number;
+  score: number;          // Sum of the scores of every cleared level
+  maxHealth: number;
+  ammo: AmmoInventory;
+  currentWeapon: WeaponKind | null;
+  bombCount: number;
+}
+
+// Player's sound preferences; volumes run from 0 to 1
+export interface AudioSettings {
+  muted: boolean;
+  musicVolume: number;
+  effectsVolume: number;
+}
+
+// On-screen controls. The joystick stands in for the left/right buttons when a layout uses it
+export type TouchButtonId =
+  | "left"
+  | "right"
+  | "joystick"
+  | "jump"
+  | "fire"
+  | "melee"
+  | "switchWeapon"
+  | "bomb"
+  | "door";
+
+export interface TouchButtonPlacement {
+  x: number;     // Centre, as a fraction of the screen width (0..1)
+  y: number;     // Centre, as a fraction of the screen height (0..1)
+  size: number;  // Diameter in pixels
+}
+
+export interface TouchLayout {
+  movement: "buttons" | "joystick";
+  haptics: boolean;   // Vibrate on damage and pickups
+  buttons: Record<TouchButtonId, TouchButtonPlacement>;
+}
+
+// Points earned from each part of a finished run. `deaths` is a penalty (zero or negative)
+export interface ScoreBreakdown {
+  coins: number;
+  monsters: number;
+  health: number;
+  time: number;
+  deaths: number;
+  total: number;
 }
 
 export interface GameState {
   level: number;
-  keys: number;
-  ammo: number;
+  keys: KeyInventory;     // Keys held per channel
+  ammo: AmmoInventory;    // Shots left per weapon
+  currentWeapon: WeaponKind | null;
   bombCount: number;
+  coins: number;          // Coins picked up this run
+  monstersKilled: number; // Monsters and bosses defeated this run
   time: number;
   deaths: number;
   health: number;
@@ -188,15 +448,24 @@ export interface GameState {
   theme?: string;
   grid: number[][];
   monsters: MonsterState[];
+  bosses: BossState[];
   collectibles: CollectibleState[];
   doors: DoorState[];
   bullets: BulletState[];
+  projectiles: ProjectileState[];
   placedBombs: PlacedBomb[];
+  blasts: BlastState[];
+  bombRadius: number;   // Tiles a blast reaches in each direction, set per level
   firetraps: FireTrapState[];
   spiketraps: SpikeTrapState[];
+  triggers: TriggerState[];
+  movingPlatforms: MovingPlatformState[];
+  crumblingPlatforms: CrumblingPlatformState[];
+  checkpoints: CheckpointState[];
+  checkpoint: CheckpointSnapshot | null;   // Last checkpoint reached, if any
   goalPos: GridPosition | null;
   player: PlayerState;
-  startTime: number;
+  tick: number;         // Fixed simulation ticks since level start (60 per second)
   animationFrame: number;
 }
 
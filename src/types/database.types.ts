@@ -78,6 +78,7 @@ export interface Database {
           best_time: number | null;
           total_deaths: number;
           score: number;
+          replay: Json | null;
           completed_at: string | null;
           created_at: string;
           updated_at: string;
@@ -90,6 +91,7 @@ export interface Database {
           best_time?: number | null;
           total_deaths?: number;
           score?: number;
+          replay?: Json | null;
           completed_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -99,6 +101,7 @@ export interface Database {
           best_time?: number | null;
           total_deaths?: number;
           score?: number;
+          replay?: Json | null;
           completed_at?: string | null;
           updated_at?: string;
         };
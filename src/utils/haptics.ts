@@ -0,0 +1,15 @@
+// Vibration patterns in milliseconds (on, off, on...)
+export const HAPTIC_PATTERNS = {
+  damage: [70, 40, 70],
+  pickup: [25]
+};
+
+export type HapticKind = keyof typeof HAPTIC_PATTERNS;
+
+// Vibrate the device if it can. Browsers without the Vibration API (desktop, iOS Safari) ignore it
+export function vibrate(kind: HapticKind): void {
+  if (typeof navigator === "undefined" || typeof navigator.vibrate !== "function") {
+    return;
+  }
+  navigator.vibrate(HAPTIC_PATTERNS[kind]);
+}
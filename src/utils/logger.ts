@@ -3,7 +3,9 @@
  * Only logs detailed errors in development mode
  */
 
-const isDevelopment = import.meta.env.DEV;
+// import.meta.env only exists under Vite and Vitest; the simulator under plain Node logs nothing.
+// Vitest sets DEV too, so the test setup mocks this module out
+const isDevelopment = import.meta.env?.DEV === true;
 
 /**
  * Logs error details in development, silent in production
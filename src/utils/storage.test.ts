@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { loadKeyBindings, saveKeyBindings } from "./storage";
+import { DEFAULT_KEY_BINDINGS, getControlForKey, rebindKey } from "../state/input";
+
+// Tests run under Node, which has no localStorage
+function createMemoryStorage(): Pick<Storage, "getItem" | "setItem" | "removeItem"> {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    }
+  };
+}
+
+describe("key bindings storage", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", createMemoryStorage());
+  });
+
+  it("keeps a control left without keys after a rebind", () => {
+    // Fire's only key moves to jump's empty alternate slot
+    const bindings = rebindKey(DEFAULT_KEY_BINDINGS, "jump", 1, "f");
+    expect(bindings.fire).toEqual([]);
+
+    saveKeyBindings(bindings);
+    const loaded = loadKeyBindings();
+
+    expect(loaded).toEqual(bindings);
+    expect(getControlForKey("f", loaded)).toBe("jump");
+  });
+
+  it("doesn't hand a default key to a control that is missing from the saved data", () => {
+    localStorage.setItem("keyBindings", JSON.stringify({ jump: [" ", "f"] }));
+    const loaded = loadKeyBindings();
+
+    expect(loaded.jump).toEqual([" ", "f"]);
+    expect(loaded.fire).toEqual([]);
+    expect(loaded.melee).toEqual(DEFAULT_KEY_BINDINGS.melee);
+  });
+});
@@ -1,8 +1,15 @@
-import type { LevelData } from "../types";
+import { DEFAULT_KEY_BINDINGS, MAX_KEYS_PER_CONTROL, type InputControl, type KeyBindings } from "../state/input";
+import { DEFAULT_AUDIO_SETTINGS } from "../constants";
+import { DEFAULT_TOUCH_LAYOUT } from "../state/touchLayout";
+import type { AudioSettings, CampaignState, LevelData, TouchButtonId, TouchLayout } from "../types";
 import { logError } from "./logger";
 
 const LEVEL_PREFIX = "level_";
 const TUTORIAL_KEY = "seenTutorial";
+const CAMPAIGN_KEY = "campaign";
+const AUDIO_SETTINGS_KEY = "audioSettings";
+const KEY_BINDINGS_KEY = "keyBindings";
+const TOUCH_LAYOUT_PREFIX = "touchLayout_";
 
 /**
  * @deprecated This function is deprecated. Use Supabase levelService instead.
@@ -69,3 +76,139 @@ export function hasSeenTutorial(): boolean {
   return localStorage.getItem(TUTORIAL_KEY) === "true";
 }
 
+// The campaign in progress, so it can be resumed in a later session
+export function saveCampaign(campaign: CampaignState): void {
+  localStorage.setItem(CAMPAIGN_KEY, JSON.stringify(campaign));
+}
+
+export function loadCampaign(): CampaignState | null {
+  const raw = localStorage.getItem(CAMPAIGN_KEY);
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('Invalid campaign data structure');
+    }
+    if (typeof parsed.levelId !== 'string' || typeof parsed.lives !== 'number' || typeof parsed.score !== 'number') {
+      throw new Error('Missing required campaign properties');
+    }
+    if (typeof parsed.maxHealth !== 'number' || !parsed.ammo || typeof parsed.ammo !== 'object') {
+      throw new Error('Missing campaign inventory');
+    }
+
+    return parsed as CampaignState;
+  } catch (error) {
+    logError("Failed to parse campaign data", error);
+    // Clear corrupted data
+    localStorage.removeItem(CAMPAIGN_KEY);
+    return null;
+  }
+}
+
+export function clearCampaign(): void {
+  localStorage.removeItem(CAMPAIGN_KEY);
+}
+
+// Unknown or missing fields fall back to the defaults, so settings saved by older versions still load
+export function saveAudioSettings(settings: AudioSettings): void {
+  localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadAudioSettings(): AudioSettings {
+  const raw = localStorage.getItem(AUDIO_SETTINGS_KEY);
+  if (!raw) {
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    const volume = (value: unknown, fallback: number) =>
+      typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+
+    return {
+      muted: typeof parsed?.muted === 'boolean' ? parsed.muted : DEFAULT_AUDIO_SETTINGS.muted,
+      musicVolume: volume(parsed?.musicVolume, DEFAULT_AUDIO_SETTINGS.musicVolume),
+      effectsVolume: volume(parsed?.effectsVolume, DEFAULT_AUDIO_SETTINGS.effectsVolume)
+    };
+  } catch (error) {
+    logError("Failed to parse audio settings", error);
+    localStorage.removeItem(AUDIO_SETTINGS_KEY);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveKeyBindings(bindings: KeyBindings): void {
+  localStorage.setItem(KEY_BINDINGS_KEY, JSON.stringify(bindings));
+}
+
+export function loadKeyBindings(): KeyBindings {
+  const raw = localStorage.getItem(KEY_BINDINGS_KEY);
+  if (!raw) {
+    return DEFAULT_KEY_BINDINGS;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    const defaulted: InputControl[] = [];
+    (Object.keys(bindings) as InputControl[]).forEach((control) => {
+      const saved = parsed?.[control];
+      // Bindings saved before alternate keys existed hold a single key.
+      // An empty list is kept: rebinding can take a control's only key away
+      const keys = typeof saved === 'string' ? [saved] : saved;
+      if (Array.isArray(keys) && keys.every((key) => typeof key === 'string' && key.length > 0)) {
+        bindings[control] = keys.slice(0, MAX_KEYS_PER_CONTROL);
+      } else {
+        defaulted.push(control);
+      }
+    });
+
+    // A default filled in for a missing control mustn't steal a key the player bound elsewhere
+    const taken = new Set(
+      (Object.keys(bindings) as InputControl[])
+        .filter((control) => !defaulted.includes(control))
+        .flatMap((control) => bindings[control])
+    );
+    defaulted.forEach((control) => {
+      bindings[control] = bindings[control].filter((key) => !taken.has(key));
+    });
+    return bindings;
+  } catch (error) {
+    logError("Failed to parse key bindings", error);
+    localStorage.removeItem(KEY_BINDINGS_KEY);
+    return DEFAULT_KEY_BINDINGS;
+  }
+}
+
+// `deviceKey` comes from getTouchLayoutDeviceKey, so each screen size keeps its own layout
+export function saveTouchLayout(deviceKey: string, layout: TouchLayout): void {
+  localStorage.setItem(`${TOUCH_LAYOUT_PREFIX}${deviceKey}`, JSON.stringify(layout));
+}
+
+export function loadTouchLayout(deviceKey: string): TouchLayout {
+  const raw = localStorage.getItem(`${TOUCH_LAYOUT_PREFIX}${deviceKey}`);
+  if (!raw) {
+    return DEFAULT_TOUCH_LAYOUT;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    const buttons = { ...DEFAULT_TOUCH_LAYOUT.buttons };
+    (Object.keys(buttons) as TouchButtonId[]).forEach((id) => {
+      const saved = parsed?.buttons?.[id];
+      if (saved && typeof saved.x === 'number' && typeof saved.y === 'number' && typeof saved.size === 'number') {
+        buttons[id] = { x: saved.x, y: saved.y, size: saved.size };
+      }
+    });
+
+    return {
+      movement: parsed?.movement === 'joystick' ? 'joystick' : 'buttons',
+      haptics: typeof parsed?.haptics === 'boolean' ? parsed.haptics : DEFAULT_TOUCH_LAYOUT.haptics,
+      buttons
+    };
+  } catch (error) {
+    logError("Failed to parse touch layout", error);
+    localStorage.removeItem(`${TOUCH_LAYOUT_PREFIX}${deviceKey}`);
+    return DEFAULT_TOUCH_LAYOUT;
+  }
+}
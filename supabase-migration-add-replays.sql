@@ -0,0 +1,30 @@
+-- ============================================
+-- MIGRATION: Add Replays to Progress
+-- ============================================
+-- Execute this SQL in your Supabase SQL Editor
+-- Go to: https://supabase.com/dashboard → SQL Editor → New Query
+--
+-- This migration stores the recorded input of each player's best run
+-- alongside their progress row, and makes completed runs readable by everyone
+-- so replays can be watched from the level selector
+
+-- Add the replay column (nullable: older rows have no recording)
+ALTER TABLE progress
+ADD COLUMN IF NOT EXISTS replay JSONB;
+
+COMMENT ON COLUMN progress.replay IS 'Recorded per-tick input of the best_time run, re-simulated to verify submissions';
+
+-- Allow everyone to read completed runs (leaderboards and replays)
+DROP POLICY IF EXISTS "Anyone can view completed progress" ON progress;
+CREATE POLICY "Anyone can view completed progress"
+  ON progress FOR SELECT
+  USING (completed = true);
+
+-- Display success message
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Replay column added successfully!';
+  RAISE NOTICE '';
+  RAISE NOTICE 'Best runs are now saved with their input recording and can be';
+  RAISE NOTICE 'watched from the level selector.';
+END $$;
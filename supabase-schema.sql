@@ -63,6 +63,7 @@ CREATE TABLE progress (
   best_time INTEGER, -- in seconds
   total_deaths INTEGER DEFAULT 0,
   score INTEGER DEFAULT 0,
+  replay JSONB, -- input recording of the best_time run
   completed_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -79,6 +80,7 @@ CREATE INDEX idx_progress_best_time ON progress(best_time ASC) WHERE completed =
 
 COMMENT ON TABLE progress IS 'Player progress tracking and leaderboard data';
 COMMENT ON COLUMN progress.best_time IS 'Best completion time in seconds';
+COMMENT ON COLUMN progress.replay IS 'Recorded per-tick input of the best_time run, re-simulated to verify submissions';
 
 -- ============================================
 -- FUNCTIONS & TRIGGERS
@@ -207,6 +209,11 @@ CREATE POLICY "Users can view own progress"
   ON progress FOR SELECT
   USING (player_id = auth.uid());
 
+-- Anyone can read completed runs (leaderboards and replays)
+CREATE POLICY "Anyone can view completed progress"
+  ON progress FOR SELECT
+  USING (completed = true);
+
 -- Users can insert their own progress
 CREATE POLICY "Users can create own progress"
   ON progress FOR INSERT